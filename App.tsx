@@ -1,30 +1,264 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { Task, FilterType, Priority } from './types';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Task, FilterType, Priority, Recurrence, Project, TaskFilter, AiSuggestion, SortMode, TaskStatus, ViewMode, ActivityEvent, ShortcutAction, ShortcutMap } from './types';
 import { TaskList } from './components/TaskList';
+import { Sidebar, PROJECT_COLORS } from './components/Sidebar';
 import { AddTask } from './components/AddTask';
-import { breakDownTask, getProductivityInsight } from './services/geminiService';
-import { BrainIcon, SparklesIcon } from './components/Icons';
+import { createAiProvider, loadAiSettings, saveAiSettings, AiSettings, AiEstimate, AiError, AiErrorKind, describeAiError } from './services/ai';
+import { getAncestors, getDescendantIds, getSubtreeIds, cloneDescendants } from './services/taskTree';
+import { createNextInstance } from './services/recurrence';
+import { ParsedQuickAdd } from './services/quickAddParser';
+import { Toast } from './components/Toast';
+import { CommandPalette, PaletteCommand } from './components/CommandPalette';
+import { ImportPreviewDialog } from './components/ImportPreviewDialog';
+import { AiSettingsDialog } from './components/AiSettingsDialog';
+import { BreakdownReviewDialog } from './components/BreakdownReviewDialog';
+import { DayPlanner } from './components/DayPlanner';
+import { EstimateReport } from './components/EstimateReport';
+import { DuplicatesDialog } from './components/DuplicatesDialog';
+import { BoardView } from './components/BoardView';
+import { DependencyChainDialog } from './components/DependencyChainDialog';
+import { StatsDashboard } from './components/StatsDashboard';
+import { BatchToolbar } from './components/BatchToolbar';
+import { ArchiveDialog } from './components/ArchiveDialog';
+import { ShortcutHelp } from './components/ShortcutHelp';
+import { ShortcutSettingsDialog } from './components/ShortcutSettingsDialog';
+import { BrainIcon, SparklesIcon, UndoIcon, RedoIcon, SearchIcon, SettingsIcon, CalendarIcon, ChartIcon, ActivityIcon, ArchiveIcon } from './components/Icons';
+import { useHistory } from './hooks/useHistory';
+import { useReminders } from './hooks/useReminders';
+import { useTaskStorage } from './hooks/useTaskStorage';
+import { useOnlineStatus } from './hooks/useOnlineStatus';
+import { LoadResult } from './services/storage';
+import { stampChanges } from './services/sync';
+import { buildImportPlan, applyImportPlan, countImportChanges, ConflictPolicy, ImportPlan } from './services/importValidation';
+import { applyFilter, matchesScope, DEFAULT_FILTER } from './services/taskFilter';
+import { applyPlanBlocks, PlanBlock } from './services/dayPlan';
+import { buildBreakdownContext, diffSuggestions, getDirectSubtasks, applyBreakdown, ReviewedSuggestion } from './services/breakdown';
+import { TASK_FORMATS, IMPORT_ACCEPT, getFormatForFile, TaskFormat } from './services/formats';
+import { buildEstimateContext, toggleTimer, stopTimers } from './services/effort';
+import { findDuplicateGroups, mergeTasks } from './services/duplicates';
+import { moveTask, seedManualOrder, loadSortMode, saveSortMode, SORT_MODE_LABELS } from './services/taskOrder';
+import { buildInsightStats } from './services/stats';
+import {
+  isTreeCompleted, findCompletedTrees, findStaleTrees, toArchiveEntries, getArchivedTree, restoreEntries,
+  loadAutoArchiveDays, saveAutoArchiveDays
+} from './services/archive';
+import { loadShortcuts, saveShortcuts, shortcutFromEvent } from './services/shortcuts';
+import { loadAiQueue, saveAiQueue, enqueueBreakdown, shouldQueue, QueuedBreakdown } from './services/aiQueue';
+import { deleteTasks, setPriority, moveTasksTo, applyBreakdowns, getTopmostIds } from './services/batch';
+import { addBlocker, removeBlocker, getOpenBlockers, removeDependencyLinks } from './services/dependencies';
+import { loadBoardColumns, saveBoardColumns, loadViewMode, saveViewMode, BoardColumn } from './services/board';
+
+// Toast message offered after deleting a task (and its subtree)
+const countLabel = (count: number) => `${count} task${count === 1 ? '' : 's'}`;
+
+const removedLabel = (tasks: Task[], id: string) => {
+  const descendants = getDescendantIds(tasks, id).size;
+  return descendants > 0
+    ? `Deleted task and ${descendants} subtask${descendants === 1 ? '' : 's'}`
+    : 'Task deleted';
+};
+
+/**
+ * Completing a task completes its whole subtree; reopening it also reopens
+ * every ancestor, since a parent can't be done with open work.
+ */
+const toggleCompletion = (tasks: Task[], id: string, now: number = Date.now()): Task[] => {
+  const target = tasks.find(t => t.id === id);
+  if (!target) return tasks;
+
+  const affected = target.completed
+    ? new Set([id, ...getAncestors(tasks, id).map(t => t.id)])
+    : getSubtreeIds(tasks, id);
+  const completed = !target.completed;
+  const toggled = tasks.map(t => affected.has(t.id)
+    ? { ...t, completed, completedAt: completed ? t.completedAt ?? now : undefined, status: completed ? TaskStatus.DONE : undefined }
+    : t);
+  // Finished work stops its running timer
+  const updated = completed ? stopTimers(toggled, affected, now) : toggled;
+
+  if (!completed || !target.recurrence) return updated;
+
+  // Completing a recurring task hands its schedule on to a fresh copy
+  // (subtasks included), so reopening this one won't spawn a second copy.
+  const nextInstance = createNextInstance(target, now);
+  const completionHistory = [...(target.completionHistory || []), now];
+  const withHistory = updated.map(t =>
+    t.id === id ? { ...t, recurrence: undefined, completionHistory } : t
+  );
+  if (!nextInstance) return withHistory;
+
+  return [nextInstance, ...withHistory, ...cloneDescendants(tasks, id, nextInstance.id, now)];
+};
 
 function App() {
-  const [tasks, setTasks] = useState<Task[]>(() => {
-    const saved = localStorage.getItem('gemini-todo-tasks');
-    return saved ? JSON.parse(saved) : [];
+  const {
+    state: tasks,
+    set: setTasks,
+    reset: resetTasks,
+    patch: patchTasks,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    lastLabel,
+    dismissLabel
+  } = useHistory<Task[]>([], stampChanges);
+
+  const [projects, setProjects] = useState<Project[]>(() => {
+    try {
+      const saved = JSON.parse(localStorage.getItem('gemini-todo-projects') || '[]');
+      return Array.isArray(saved) ? saved : [];
+    } catch (err) {
+      console.error(err);
+      return [];
+    }
   });
 
-  const [filter, setFilter] = useState<FilterType>(FilterType.ALL);
+  const [filter, setFilter] = useState<TaskFilter>(DEFAULT_FILTER);
   const [breakingDownId, setBreakingDownId] = useState<string | null>(null);
   const [insight, setInsight] = useState<string>('');
   const [loadingInsight, setLoadingInsight] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [reminders, setReminders] = useState<Task[]>([]);
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+  const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  const [pendingImport, setPendingImport] = useState<{ fileName: string; plan: ImportPlan } | null>(null);
+  const [aiSettings, setAiSettings] = useState<AiSettings>(loadAiSettings);
+  const [isAiSettingsOpen, setIsAiSettingsOpen] = useState(false);
+  const [isPlannerOpen, setIsPlannerOpen] = useState(false);
+  const [isEstimateReportOpen, setIsEstimateReportOpen] = useState(false);
+  const [isDuplicatesOpen, setIsDuplicatesOpen] = useState(false);
+  const [dependencyTaskId, setDependencyTaskId] = useState<string | null>(null);
+  // The activity log as of opening the stats dashboard; null while it's closed
+  const [statsEvents, setStatsEvents] = useState<ActivityEvent[] | null>(null);
+  // Archived tasks while the archive is open
+  const [archive, setArchive] = useState<Task[] | null>(null);
+  const [autoArchiveDays, setAutoArchiveDays] = useState<number | null>(loadAutoArchiveDays);
+  const [shortcuts, setShortcuts] = useState<ShortcutMap>(loadShortcuts);
+  const [isShortcutHelpOpen, setIsShortcutHelpOpen] = useState(false);
+  const [isShortcutSettingsOpen, setIsShortcutSettingsOpen] = useState(false);
+  // Tasks checked for a batch action; null when not selecting
+  const [checkedIds, setCheckedIds] = useState<Set<string> | null>(null);
+  const [batchProgress, setBatchProgress] = useState<{ done: number; total: number } | null>(null);
+  const batchAbortRef = useRef<AbortController | null>(null);
+  const [sortMode, setSortMode] = useState<SortMode>(loadSortMode);
+  const [view, setView] = useState<ViewMode>(loadViewMode);
+  const [boardColumns, setBoardColumns] = useState<BoardColumn[]>(loadBoardColumns);
+  // The task last clicked, kept across list and board
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [breakdownReview, setBreakdownReview] = useState<{ taskId: string; hint: string; suggestions: ReviewedSuggestion[] } | null>(null);
+  const [streamingSuggestions, setStreamingSuggestions] = useState<{ parentId: string; suggestions: AiSuggestion[] } | null>(null);
+  // Cancels the breakdown for `breakingDownId`
+  const breakdownAbortRef = useRef<AbortController | null>(null);
+  const [aiQueue, setAiQueue] = useState<QueuedBreakdown[]>(loadAiQueue);
+  const isOnline = useOnlineStatus();
+  const aiProvider = useMemo(() => createAiProvider(aiSettings), [aiSettings]);
+
+  const {
+    isLoaded,
+    lastRemoteChangeAt,
+    loadArchive,
+    archiveTasks: moveToArchive,
+    deleteArchived: removeFromArchive,
+    loadActivity
+  } = useTaskStorage(
+    tasks,
+    useCallback(({ tasks: loaded, warnings }: LoadResult) => {
+      resetTasks(loaded);
+      if (warnings.length > 0) setError(warnings.join(' '));
+    }, [resetTasks]),
+    setError,
+    patchTasks
+  );
+
+  const [showRemoteNotice, setShowRemoteNotice] = useState(false);
+  useEffect(() => {
+    if (lastRemoteChangeAt === null) return;
+    setShowRemoteNotice(true);
+    const timer = setTimeout(() => setShowRemoteNotice(false), 4000);
+    return () => clearTimeout(timer);
+  }, [lastRemoteChangeAt]);
+
+  useEffect(() => {
+    localStorage.setItem('gemini-todo-projects', JSON.stringify(projects));
+  }, [projects]);
 
-  // Persist tasks to localStorage
   useEffect(() => {
-    localStorage.setItem('gemini-todo-tasks', JSON.stringify(tasks));
-  }, [tasks]);
+    saveAiQueue(aiQueue);
+  }, [aiQueue]);
+
+  // Pick up project changes made in other tabs
+  useEffect(() => {
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key !== 'gemini-todo-projects' || !e.newValue) return;
+      try {
+        setProjects(JSON.parse(e.newValue));
+      } catch (err) {
+        console.error(err);
+      }
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  // Ctrl+Z / Ctrl+Shift+Z (or Ctrl+Y). Text fields keep their native undo.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+
+      // The help key works wherever the task shortcuts do
+      if ((target === document.body || target.hasAttribute('data-task-item')) && shortcutFromEvent(e) === shortcuts[ShortcutAction.HELP]) {
+        e.preventDefault();
+        setIsShortcutHelpOpen(open => !open);
+        return;
+      }
+
+      if (!(e.ctrlKey || e.metaKey)) return;
+
+      // Ctrl+K opens the command palette from anywhere, including text fields
+      if (e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setIsPaletteOpen(open => !open);
+        return;
+      }
+
+      if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo, shortcuts]);
+
+  useReminders(tasks, useCallback((task: Task) => {
+    setReminders(prev => [...prev.filter(t => t.id !== task.id), task]);
+  }, []));
 
-  const exportTasks = async () => {
-    const dataStr = JSON.stringify(tasks, null, 2);
-    const fileName = `gemini-tasks-${new Date().toISOString().split('T')[0]}.json`;
+  const dismissReminder = useCallback((id: string) => {
+    setReminders(prev => prev.filter(t => t.id !== id));
+  }, []);
+
+  const exportTasks = async (format: TaskFormat = TASK_FORMATS[0]) => {
+    setIsExportMenuOpen(false);
+    // Archived tasks go into backups too, marked with when they were archived
+    let archived: Task[];
+    try {
+      archived = await loadArchive();
+    } catch (err) {
+      console.error("Failed to read the archive:", err);
+      setError("Failed to read the archive for the export.");
+      return;
+    }
+    const dataStr = format.serialize([...tasks, ...archived.filter(t => !liveIds.has(t.id))]);
+    const fileName = `gemini-tasks-${new Date().toISOString().split('T')[0]}${format.extensions[0]}`;
 
     // Try modern File System Access API (Save As)
     if ('showSaveFilePicker' in window) {
@@ -32,8 +266,8 @@ function App() {
         const handle = await (window as any).showSaveFilePicker({
           suggestedName: fileName,
           types: [{
-            description: 'JSON File',
-            accept: { 'application/json': ['.json'] },
+            description: format.label,
+            accept: { [format.mimeType]: format.extensions },
           }],
         });
         const writable = await handle.createWritable();
@@ -48,7 +282,7 @@ function App() {
     }
 
     // Fallback to classic download
-    const blob = new Blob([dataStr], { type: 'application/json' });
+    const blob = new Blob([dataStr], { type: format.mimeType });
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
     link.href = url;
@@ -64,42 +298,84 @@ function App() {
     if (!file) return;
 
     const reader = new FileReader();
-    reader.onload = (event) => {
+    reader.onload = async (event) => {
+      const format = getFormatForFile(file.name);
+      let imported: unknown[];
       try {
-        const imported = JSON.parse(event.target?.result as string);
-        if (Array.isArray(imported)) {
-          // Basic validation: check if each item has an id and text
-          const isValid = imported.every(t => t.id && t.text);
-          if (isValid) {
-            setTasks(prev => {
-              const existingIds = new Set(prev.map(t => t.id));
-              const uniqueNewTasks = imported.filter(t => !existingIds.has(t.id));
-
-              if (uniqueNewTasks.length === 0) {
-                setError("All tasks in this file are already present.");
-                return prev;
-              }
-
-              setError(null);
-              // Merge and sort by date descending (optional, but keeps UI consistent)
-              const combined = [...prev, ...uniqueNewTasks].sort((a, b) => b.createdAt - a.createdAt);
-              return combined;
-            });
-          } else {
-            setError("Invalid backup file format.");
-          }
-        }
+        imported = format.parse(event.target?.result as string);
       } catch (err) {
         console.error(err);
-        setError("Failed to parse backup file.");
+        setError(err instanceof Error && !(err instanceof SyntaxError)
+          ? err.message
+          : `Failed to parse ${format.label} file.`);
+        return;
       }
+
+      // Backups hold archived tasks too, so they're matched against the archive
+      let archived: Task[];
+      try {
+        archived = await loadArchive();
+      } catch (err) {
+        console.error("Failed to read the archive:", err);
+        setError("Failed to read the archive for the import.");
+        return;
+      }
+      const plan = buildImportPlan([...tasks, ...archived.filter(t => !liveIds.has(t.id))], imported);
+      if (plan.added.length + plan.changed.length + plan.conflicts.length === 0 && plan.invalid.length === 0) {
+        setError("All tasks in this file are already present.");
+        return;
+      }
+
+      setError(null);
+      setPendingImport({ fileName: file.name, plan });
     };
     reader.readAsText(file);
     // Reset input
     e.target.value = '';
   };
 
-  const addTask = (text: string, priority: Priority = Priority.MEDIUM, isAiGenerated: boolean = false) => {
+  const confirmImport = async (policy: ConflictPolicy) => {
+    if (!pendingImport) return;
+    const count = countImportChanges(pendingImport.plan, policy);
+    let current: Task[];
+    try {
+      current = [...tasks, ...(await loadArchive()).filter(t => !liveIds.has(t.id))];
+    } catch (err) {
+      console.error("Failed to read the archive:", err);
+      setError("Failed to read the archive for the import.");
+      return;
+    }
+    // Applied once, so copies kept with "keep both" have one id in both places
+    const imported = applyImportPlan(current, pendingImport.plan, policy);
+    const untouched = new Set(current);
+    const toArchive = imported.filter(t => t.archivedAt !== undefined && !untouched.has(t));
+    const updated = new Map(imported.filter(t => t.archivedAt === undefined && !untouched.has(t)).map(t => [t.id, t]));
+
+    // Tasks the backup had archived go straight back to the archive
+    try {
+      await moveToArchive(toArchive);
+    } catch (err) {
+      console.error("Failed to archive imported tasks:", err);
+      setError("Failed to import the archived tasks. Your browser's storage may be full.");
+      return;
+    }
+    const archivedIds = new Set(toArchive.map(t => t.id));
+    setTasks(prev => {
+      const kept = prev.filter(t => !archivedIds.has(t.id)).map(t => updated.get(t.id) ?? t);
+      const keptIds = new Set(kept.map(t => t.id));
+      return [...kept, ...[...updated.values()].filter(t => !keptIds.has(t.id))].sort((a, b) => b.createdAt - a.createdAt);
+    }, `Imported ${count} task${count === 1 ? '' : 's'}`);
+    setArchive(prev => prev && [...toArchive, ...prev.filter(t => !archivedIds.has(t.id))]);
+    setPendingImport(null);
+
+    // Backups made elsewhere often hold the same tasks under other ids
+    const existingIds = new Set(current.map(t => t.id));
+    if (findDuplicateGroups(imported.filter(t => t.archivedAt === undefined)).some(group => group.some(t => !existingIds.has(t.id)))) {
+      setIsDuplicatesOpen(true);
+    }
+  };
+
+  const addTask = (text: string, priority: Priority = Priority.MEDIUM, isAiGenerated: boolean = false, fields: Partial<Task> = {}) => {
     const newTask: Task = {
       id: crypto.randomUUID(),
       text,
@@ -107,9 +383,78 @@ function App() {
       priority,
       createdAt: Date.now(),
       isAiGenerated,
-      isExpanded: true
+      isExpanded: true,
+      ...fields
     };
-    setTasks(prev => [newTask, ...prev]);
+    setTasks(prev => {
+      const added = [newTask, ...prev];
+      return newTask.parentId
+        ? added.map(t => t.id === newTask.parentId ? { ...t, isExpanded: true } : t)
+        : added;
+    });
+  };
+
+  const quickAddTask = (parsed: ParsedQuickAdd, parent?: Task) => {
+    addTask(parsed.text, parsed.priority, false, {
+      parentId: parent?.id,
+      projectId: parent ? parent.projectId : filter.projectId ?? undefined,
+      tags: parsed.tags.length > 0 ? parsed.tags : undefined,
+      dueAt: parsed.dueAt,
+      recurrence: parsed.recurrence,
+      occurrence: parsed.recurrence ? 1 : undefined,
+    });
+  };
+
+  // Folds a quick-add draft into an existing task rather than adding it
+  const mergeIntoTask = (parsed: ParsedQuickAdd, targetId: string) => {
+    const target = tasks.find(t => t.id === targetId);
+    if (!target) return;
+    const draft: Task = {
+      id: crypto.randomUUID(),
+      text: parsed.text,
+      completed: false,
+      priority: parsed.priority ?? target.priority,
+      createdAt: Date.now(),
+      tags: parsed.tags.length > 0 ? parsed.tags : undefined,
+      dueAt: parsed.dueAt,
+      recurrence: parsed.recurrence,
+      occurrence: parsed.recurrence ? 1 : undefined,
+      // The draft only adds details, so it doesn't take the target's AI badge away
+      isAiGenerated: target.isAiGenerated,
+    };
+    setTasks(prev => mergeTasks([...prev, draft], [targetId, draft.id]), `Merged into "${target.text}"`);
+    setHighlightedId(targetId);
+  };
+
+  const updateSortMode = (mode: SortMode) => {
+    saveSortMode(mode);
+    setSortMode(mode);
+  };
+
+  const updateView = (next: ViewMode) => {
+    saveViewMode(next);
+    setView(next);
+  };
+
+  const updateBoardColumns = (columns: BoardColumn[]) => {
+    saveBoardColumns(columns);
+    setBoardColumns(columns);
+  };
+
+  // Moving by hand switches to manual order, starting from the order on screen
+  const moveTaskTo = (id: string, parentId: string | undefined, beforeId?: string) => {
+    const task = tasks.find(t => t.id === id);
+    if (!task) return;
+    const base = sortMode === SortMode.MANUAL ? null : sortMode;
+    setTasks(
+      prev => moveTask(base ? seedManualOrder(prev, base) : prev, id, parentId, beforeId),
+      parentId !== task.parentId ? `Moved "${task.text}"` : undefined
+    );
+    if (base) updateSortMode(SortMode.MANUAL);
+  };
+
+  const mergeTaskGroup = (ids: string[]) => {
+    setTasks(prev => mergeTasks(prev, ids), `Merged ${ids.length} tasks`);
   };
 
   const addSubtask = (parentId: string, text: string) => {
@@ -121,6 +466,7 @@ function App() {
       createdAt: Date.now(),
       isAiGenerated: false,
       parentId,
+      projectId: tasks.find(t => t.id === parentId)?.projectId,
       isExpanded: true
     };
 
@@ -130,78 +476,452 @@ function App() {
     });
   };
 
+  // Completing tasks that still wait on others (their own subtasks aside)
+  // has to be confirmed
+  const confirmCompletion = (ids: string[]): boolean => {
+    const targets = tasks.filter(t => ids.includes(t.id) && !t.completed);
+    const subtree = new Set(targets.flatMap(t => [...getSubtreeIds(tasks, t.id)]));
+    const waitingOn = tasks
+      .filter(t => subtree.has(t.id) && !t.completed)
+      .flatMap(t => getOpenBlockers(tasks, t))
+      .filter(blocker => !subtree.has(blocker.id));
+    if (waitingOn.length === 0) return true;
+    const names = [...new Set(waitingOn.map(t => `"${t.text}"`))].join(', ');
+    const subject = targets.length === 1 ? `"${targets[0].text}" is` : 'Some of these tasks are';
+    return window.confirm(`${subject} still waiting on ${names}. Complete anyway?`);
+  };
+
   const toggleTask = (id: string) => {
-    setTasks(prev => prev.map(t => t.id === id ? { ...t, completed: !t.completed } : t));
+    if (!confirmCompletion([id])) return;
+    setTasks(prev => toggleCompletion(prev, id));
   };
 
-  const toggleTaskExpansion = (id: string) => {
-    setTasks(prev => prev.map(t =>
-      t.id === id ? { ...t, isExpanded: !(t.isExpanded ?? true) } : t
-    ));
+  // Moving to or from "done" completes or reopens the task like its checkbox
+  const updateTaskStatus = (id: string, status: TaskStatus) => {
+    if (status === TaskStatus.DONE && !confirmCompletion([id])) return;
+    setTasks(prev => {
+      const target = prev.find(t => t.id === id);
+      if (!target) return prev;
+      const toggled = (status === TaskStatus.DONE) !== target.completed ? toggleCompletion(prev, id) : prev;
+      return status === TaskStatus.DONE
+        ? toggled
+        : toggled.map(t => t.id === id ? { ...t, status: status === TaskStatus.TODO ? undefined : status } : t);
+    });
+  };
+
+  // Checked against the current tasks so a loop can be reported
+  const addTaskBlocker = (id: string, blockerId: string) => {
+    try {
+      setTasks(addBlocker(tasks, id, blockerId));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const removeTaskBlocker = (id: string, blockerId: string) => {
+    setTasks(prev => removeBlocker(prev, id, blockerId));
+  };
+
+  const updateTaskDates = (id: string, { dueAt, remindAt }: { dueAt?: number; remindAt?: number }) => {
+    setTasks(prev => prev.map(t => t.id === id ? { ...t, dueAt, remindAt } : t));
+  };
+
+  const updateTaskRecurrence = (id: string, recurrence?: Recurrence) => {
+    setTasks(prev => prev.map(t => t.id === id ? { ...t, recurrence, occurrence: recurrence ? t.occurrence ?? 1 : undefined } : t));
+  };
+
+  const updateTaskTags = (id: string, tags: string[]) => {
+    setTasks(prev => prev.map(t => t.id === id ? { ...t, tags: tags.length > 0 ? tags : undefined } : t));
+  };
+
+  const updateTaskEstimate = (id: string, estimateMinutes?: number, isAiGenerated: boolean = false) => {
+    setTasks(prev => prev.map(t => t.id === id
+      ? { ...t, estimateMinutes, isEstimateAiGenerated: estimateMinutes !== undefined && isAiGenerated ? true : undefined }
+      : t));
+  };
+
+  const toggleTaskTimer = (id: string) => {
+    setTasks(prev => toggleTimer(prev, id));
+  };
+
+  // Returns the AI's estimate for review; the editor decides whether to keep it
+  const suggestEstimate = async (id: string): Promise<AiEstimate | null> => {
+    const context = buildEstimateContext(tasks, id);
+    if (!context) return null;
+    setError(null);
+    try {
+      return await aiProvider.estimateTask(context);
+    } catch (err) {
+      console.error(err);
+      setError(`Failed to estimate task. ${describeAiError(err)}`);
+      return null;
+    }
+  };
+
+  // Subtasks always live in their root's project, so the whole subtree moves
+  const updateTaskProject = (id: string, projectId?: string) => {
+    setTasks(prev => {
+      const affected = getSubtreeIds(prev, id);
+      return prev.map(t => affected.has(t.id) ? { ...t, projectId } : t);
+    });
+  };
+
+  const addProject = (name: string) => {
+    const project: Project = {
+      id: crypto.randomUUID(),
+      name,
+      color: PROJECT_COLORS[projects.length % PROJECT_COLORS.length],
+      createdAt: Date.now()
+    };
+    setProjects(prev => [...prev, project]);
+    setFilter(prev => ({ ...prev, projectId: project.id }));
+  };
+
+  // Tasks of a deleted project are kept and moved out of it
+  const deleteProject = (id: string) => {
+    const project = projects.find(p => p.id === id);
+    if (!project || !window.confirm(`Delete project "${project.name}"? Its tasks will be kept without a project.`)) return;
+
+    setProjects(prev => prev.filter(p => p.id !== id));
+    setTasks(prev => prev.some(t => t.projectId === id)
+      ? prev.map(t => t.projectId === id ? { ...t, projectId: undefined } : t)
+      : prev);
+    setFilter(prev => prev.projectId === id ? { ...prev, projectId: null } : prev);
+  };
+
+  const toggleTagFilter = (tag: string) => {
+    setFilter(prev => ({
+      ...prev,
+      tags: prev.tags.includes(tag) ? prev.tags.filter(t => t !== tag) : [...prev.tags, tag]
+    }));
+  };
+
+  // Makes a task visible (clearing filters that hide it and expanding its
+  // ancestors) and briefly highlights it
+  const revealTask = (id: string) => {
+    const task = tasks.find(t => t.id === id);
+    if (!task) return;
+
+    const ancestors = getAncestors(tasks, id);
+    const root = ancestors[0] ?? task;
+    setFilter(prev => applyFilter([task], prev).length > 0 ? prev : {
+      ...DEFAULT_FILTER,
+      projectId: prev.projectId !== null && root.projectId === prev.projectId ? prev.projectId : null
+    });
+
+    if (ancestors.some(a => !(a.isExpanded ?? true))) {
+      const ancestorIds = new Set(ancestors.map(a => a.id));
+      setTasks(prev => prev.map(t => ancestorIds.has(t.id) ? { ...t, isExpanded: true } : t));
+    }
+    setHighlightedId(id);
+    setSelectedId(id);
+  };
+
+  useEffect(() => {
+    if (!highlightedId) return;
+    const timer = setTimeout(() => setHighlightedId(null), 2500);
+    return () => clearTimeout(timer);
+  }, [highlightedId]);
+
+  const toggleTaskExpansion = (id: string, recursive: boolean = false) => {
+    setTasks(prev => {
+      const target = prev.find(t => t.id === id);
+      if (!target) return prev;
+
+      const isExpanded = !(target.isExpanded ?? true);
+      const affected = recursive ? getSubtreeIds(prev, id) : new Set([id]);
+      return prev.map(t => affected.has(t.id) ? { ...t, isExpanded } : t);
+    });
   };
 
   const updateTaskPriority = (id: string, priority: Priority) => {
     setTasks(prev => prev.map(t => t.id === id ? { ...t, priority } : t));
   };
 
+  const updateTaskText = (id: string, text: string) => {
+    setTasks(prev => prev.map(t => t.id === id ? { ...t, text } : t));
+  };
+
+  const openStats = () => {
+    loadActivity()
+      .then(setStatsEvents)
+      .catch(err => {
+        console.error("Failed to read the activity log:", err);
+        setError("Failed to open your stats.");
+      });
+  };
+
+  const openArchive = () => {
+    loadArchive()
+      .then(setArchive)
+      .catch(err => {
+        console.error("Failed to read the archive:", err);
+        setError("Failed to open the archive.");
+      });
+  };
+
+  // Moves whole trees to the archive in one undo step. They only leave the
+  // list once the archive has them, so a failed write loses nothing.
+  const archiveTrees = async (rootIds: string[], reason: string = '') => {
+    const entries = toArchiveEntries(tasks, rootIds);
+    if (entries.length === 0) return;
+    try {
+      await moveToArchive(entries);
+    } catch (err) {
+      console.error("Failed to archive tasks:", err);
+      setError("Failed to archive. Your browser's storage may be full.");
+      return;
+    }
+    setTasks(prev => deleteTasks(prev, new Set(rootIds)), `Archived ${countLabel(entries.length)}${reason}`);
+    const ids = new Set(entries.map(t => t.id));
+    setArchive(prev => prev && [...entries, ...prev.filter(t => !ids.has(t.id))]);
+  };
+
+  const archiveTask = (id: string) => {
+    if (!isTreeCompleted(tasks, id)) {
+      setError("Complete all of its subtasks before archiving this task.");
+      return;
+    }
+    archiveTrees([id]);
+  };
+
+  const archiveCompleted = () => {
+    archiveTrees(findCompletedTrees(tasks));
+  };
+
+  const restoreArchived = (id: string) => {
+    const entries = getArchivedTree(visibleArchive, id);
+    setTasks(prev => [...restoreEntries(prev, entries), ...prev], `Restored ${countLabel(entries.length)}`);
+  };
+
+  const deleteArchived = async (id: string) => {
+    const entries = getArchivedTree(visibleArchive, id);
+    if (!window.confirm(`Delete ${countLabel(entries.length)} from the archive for good? This can't be undone.`)) return;
+    const ids = new Set(entries.map(t => t.id));
+    try {
+      await removeFromArchive([...ids]);
+    } catch (err) {
+      console.error("Failed to delete archived tasks:", err);
+      setError("Failed to delete from the archive.");
+      return;
+    }
+    setArchive(prev => prev && prev.filter(t => !ids.has(t.id)));
+  };
+
+  const updateAutoArchiveDays = (days: number | null) => {
+    setAutoArchiveDays(days);
+    saveAutoArchiveDays(days);
+  };
+
+  // Checked once the tasks have loaded and whenever the setting changes
+  useEffect(() => {
+    if (!isLoaded || autoArchiveDays === null) return;
+    const stale = findStaleTrees(tasks, autoArchiveDays);
+    if (stale.length > 0) {
+      archiveTrees(stale, ` finished over ${autoArchiveDays} day${autoArchiveDays === 1 ? '' : 's'} ago`);
+    }
+  }, [isLoaded, autoArchiveDays]);
+
   const deleteTask = (id: string) => {
-    setTasks(prev => prev.filter(t => t.id !== id && t.parentId !== id));
+    setTasks(prev => {
+      const removed = getSubtreeIds(prev, id);
+      return removeDependencyLinks(prev.filter(t => !removed.has(t.id)), removed);
+    }, removedLabel(tasks, id));
   };
 
-  const handleBreakdown = async (id: string) => {
-    const taskToBreak = tasks.find(t => t.id === id);
-    if (!taskToBreak) return;
+  // Asks the AI for subtasks and opens them for review; nothing changes until applied
+  const handleBreakdown = async (id: string, hint: string = '') => {
+    const context = buildBreakdownContext(tasks, id, hint);
+    if (!context) return;
+    if (shouldQueue(aiSettings)) {
+      setAiQueue(prev => enqueueBreakdown(prev, id, hint));
+      return;
+    }
+
+    // One breakdown at a time
+    breakdownAbortRef.current?.abort();
+    const controller = new AbortController();
+    breakdownAbortRef.current = controller;
 
     setBreakingDownId(id);
+    setStreamingSuggestions({ parentId: id, suggestions: [] });
     setError(null);
 
-    setTasks(prev => prev.map(t => t.id === id ? { ...t, isExpanded: true } : t));
-
     try {
-      const subtasks = await breakDownTask(taskToBreak.text);
-
-      if (subtasks.length > 0) {
-        setTasks(prev => {
-          const newSubTasks: Task[] = subtasks.map(st => ({
-            id: crypto.randomUUID(),
-            text: st.text,
-            completed: false,
-            priority: st.priority,
-            createdAt: Date.now(),
-            isAiGenerated: true,
-            parentId: id,
-            isExpanded: true
-          }));
-
-          const existingWithoutSubtasks = prev.filter(t => t.parentId !== id);
-          return existingWithoutSubtasks.map(t =>
-            t.id === id ? { ...t, isExpanded: true } : t
-          ).concat(newSubTasks);
-        });
-      }
+      const suggestions = await aiProvider.breakDownTask(context, {
+        signal: controller.signal,
+        onSuggestion: suggestion => setStreamingSuggestions(prev =>
+          prev?.parentId === id ? { ...prev, suggestions: [...prev.suggestions, suggestion] } : prev
+        ),
+      });
+      setBreakdownReview({
+        taskId: id,
+        hint,
+        suggestions: diffSuggestions(suggestions, getDirectSubtasks(tasks, id)),
+      });
     } catch (err) {
-      console.error(err);
-      setError("Failed to break down task. Please try again.");
+      if (shouldQueue(aiSettings, err)) {
+        setAiQueue(prev => enqueueBreakdown(prev, id, hint));
+      } else if (!(err instanceof AiError && err.kind === AiErrorKind.ABORTED)) {
+        console.error(err);
+        setError(`Failed to break down task. ${describeAiError(err)}`);
+      }
     } finally {
-      setBreakingDownId(null);
+      // A newer breakdown may have taken over in the meantime
+      if (breakdownAbortRef.current === controller) {
+        breakdownAbortRef.current = null;
+        setBreakingDownId(null);
+        setStreamingSuggestions(null);
+      }
     }
   };
 
+  const cancelQueuedBreakdown = (id: string) => {
+    setAiQueue(prev => prev.filter(q => q.taskId !== id));
+  };
+
+  // Replays breakdowns asked for offline once the connection is back, one
+  // at a time: the next waits until the previous review is closed. Tasks
+  // deleted or completed in the meantime are skipped.
+  useEffect(() => {
+    if (!isOnline || !isLoaded || breakingDownId || breakdownReview || aiQueue.length === 0) return;
+    const [next, ...rest] = aiQueue;
+    setAiQueue(rest);
+    if (tasks.some(t => t.id === next.taskId && !t.completed)) {
+      handleBreakdown(next.taskId, next.hint);
+    }
+  }, [isOnline, isLoaded, breakingDownId, breakdownReview, aiQueue]);
+
+  const checkTasks = (ids: string[], checked: boolean) => {
+    setCheckedIds(prev => {
+      const next = new Set(prev);
+      ids.forEach(id => (checked ? next.add(id) : next.delete(id)));
+      return next;
+    });
+  };
+
+  const exitSelection = () => {
+    batchAbortRef.current?.abort();
+    setCheckedIds(null);
+  };
+
+  const setBatchCompleted = (completed: boolean) => {
+    const ids = tasks.filter(t => batchIds.has(t.id) && t.completed !== completed).map(t => t.id);
+    if (ids.length === 0 || (completed && !confirmCompletion(ids))) return;
+    const now = Date.now();
+    // Completing a parent already completes its checked subtasks, so each
+    // task is only toggled while it still needs it
+    setTasks(
+      prev => ids.reduce((acc, id) => (acc.find(t => t.id === id)?.completed === completed ? acc : toggleCompletion(acc, id, now)), prev),
+      `${completed ? 'Completed' : 'Reopened'} ${countLabel(ids.length)}`
+    );
+  };
+
+  const setBatchPriority = (priority: Priority) => {
+    setTasks(prev => setPriority(prev, batchIds, priority), `Set ${countLabel(batchIds.size)} to ${priority} priority`);
+  };
+
+  const moveBatchTo = (parentId: string | undefined) => {
+    setTasks(prev => moveTasksTo(prev, batchIds, parentId), `Moved ${countLabel(batchIds.size)}`);
+  };
+
+  const deleteBatch = () => {
+    // Subtasks go with their parents, so they're counted too
+    setTasks(prev => deleteTasks(prev, batchIds), `Deleted ${countLabel(batchSubtree.size)}`);
+    setCheckedIds(new Set());
+  };
+
+  // Breaks the checked open tasks down one after another, then adds every
+  // new subtask in one step. Suggestions that repeat an existing subtask are
+  // left out; stopping discards the lot.
+  const breakDownBatch = async () => {
+    const ids = tasks.filter(t => batchIds.has(t.id) && !t.completed).map(t => t.id);
+    if (ids.length === 0) return;
+    if (shouldQueue(aiSettings)) {
+      setAiQueue(prev => ids.reduce((queue, id) => enqueueBreakdown(queue, id, ''), prev));
+      return;
+    }
+
+    const controller = new AbortController();
+    batchAbortRef.current = controller;
+    const suggestions = new Map<string, AiSuggestion[]>();
+    const failures: string[] = [];
+    setError(null);
+
+    for (const [i, id] of ids.entries()) {
+      if (controller.signal.aborted) break;
+      setBatchProgress({ done: i, total: ids.length });
+      const context = buildBreakdownContext(tasks, id);
+      if (!context) continue;
+      try {
+        const result = await aiProvider.breakDownTask(context, { signal: controller.signal });
+        const fresh = diffSuggestions(result, getDirectSubtasks(tasks, id))
+          .filter(s => !s.matchId)
+          .map(({ text, priority }) => ({ text, priority }));
+        if (fresh.length > 0) suggestions.set(id, fresh);
+      } catch (err) {
+        if (err instanceof AiError && err.kind === AiErrorKind.ABORTED) break;
+        console.error(err);
+        failures.push(describeAiError(err));
+      }
+    }
+
+    if (batchAbortRef.current === controller) batchAbortRef.current = null;
+    setBatchProgress(null);
+    if (controller.signal.aborted) return;
+    if (failures.length > 0) {
+      setError(`Failed to break down ${failures.length} of ${countLabel(ids.length)}. ${failures[0]}`);
+    }
+    if (suggestions.size > 0) {
+      setTasks(prev => applyBreakdowns(prev, suggestions), `Broke down ${countLabel(suggestions.size)}`);
+    }
+  };
+
+  const acceptDayPlan = (blocks: PlanBlock[], date: number) => {
+    setTasks(
+      prev => applyPlanBlocks(prev, blocks, date),
+      `Scheduled ${blocks.length} task${blocks.length === 1 ? '' : 's'}`
+    );
+    setIsPlannerOpen(false);
+  };
+
+  const cancelBreakdown = useCallback(() => {
+    breakdownAbortRef.current?.abort();
+  }, []);
+
+  const applyBreakdownReview = (accepted: AiSuggestion[], removeIds: string[]) => {
+    if (!breakdownReview) return;
+    const { taskId } = breakdownReview;
+    const removedCount = removeIds.reduce((sum, id) => sum + getSubtreeIds(tasks, id).size, 0);
+    const label = removedCount > 0
+      ? `Replaced ${removedCount} subtask${removedCount === 1 ? '' : 's'}`
+      : `Added ${accepted.length} AI subtask${accepted.length === 1 ? '' : 's'}`;
+    setTasks(prev => applyBreakdown(prev, taskId, accepted, removeIds), label);
+    setBreakdownReview(null);
+  };
+
   const fetchInsight = useCallback(async () => {
     setLoadingInsight(true);
     setError(null);
-    const active = tasks.filter(t => !t.completed).length;
-    const completed = tasks.filter(t => t.completed).length;
     try {
-      const text = await getProductivityInsight(active, completed);
+      const text = await aiProvider.getProductivityInsight(buildInsightStats(tasks, await loadActivity()));
       setInsight(text);
     } catch (err) {
       console.error(err);
-      setError("Failed to get AI insight.");
+      setError(`Failed to get AI insight. ${describeAiError(err)}`);
     } finally {
       setLoadingInsight(false);
     }
-  }, [tasks]);
+  }, [tasks, aiProvider, loadActivity]);
+
+  const updateAiSettings = (settings: AiSettings) => {
+    saveAiSettings(settings);
+    setAiSettings(settings);
+    setIsAiSettingsOpen(false);
+    // Fetched again from the new provider
+    setInsight('');
+  };
 
   useEffect(() => {
     if (tasks.length > 0 && !insight) {
@@ -209,18 +929,68 @@ function App() {
     }
   }, [tasks, insight, fetchInsight]);
 
-  const filteredTasks = tasks.filter(t => {
-    if (filter === FilterType.ACTIVE) return !t.completed;
-    if (filter === FilterType.COMPLETED) return t.completed;
-    return true;
-  });
+  const paletteCommands: PaletteCommand[] = [
+    ...TASK_FORMATS.map(format => ({
+      id: `export-${format.id}`,
+      label: `Export as ${format.label}`,
+      hint: format.extensions[0],
+      run: () => exportTasks(format)
+    })),
+    { id: 'insight', label: 'Get AI insight', run: fetchInsight },
+    { id: 'plan-day', label: 'Plan my day', run: () => setIsPlannerOpen(true) },
+    { id: 'stats', label: 'Productivity stats', run: openStats },
+    { id: 'archive', label: 'Open archive', run: openArchive },
+    { id: 'shortcuts', label: 'Keyboard shortcuts', hint: shortcuts[ShortcutAction.HELP], run: () => setIsShortcutHelpOpen(true) },
+    { id: 'shortcut-settings', label: 'Customize keyboard shortcuts', run: () => setIsShortcutSettingsOpen(true) },
+    { id: 'clear-completed', label: 'Clear completed tasks', run: archiveCompleted },
+    { id: 'estimate-report', label: 'Estimates vs. actual', run: () => setIsEstimateReportOpen(true) },
+    { id: 'duplicates', label: 'Find duplicate tasks', run: () => setIsDuplicatesOpen(true) },
+    { id: 'ai-settings', label: 'AI settings', run: () => setIsAiSettingsOpen(true) },
+    { id: 'undo', label: 'Undo', hint: 'Ctrl+Z', run: undo },
+    { id: 'redo', label: 'Redo', hint: 'Ctrl+Shift+Z', run: redo },
+    { id: 'clear-filters', label: 'Clear filters', run: () => setFilter(DEFAULT_FILTER) },
+    ...(Object.values(SortMode) as SortMode[]).map(mode => ({
+      id: `sort-${mode}`,
+      label: `Sort by ${SORT_MODE_LABELS[mode].toLowerCase()}`,
+      run: () => updateSortMode(mode),
+    })),
+    { id: 'view-list', label: 'Show list view', run: () => updateView(ViewMode.LIST) },
+    { id: 'view-board', label: 'Show board view', run: () => updateView(ViewMode.BOARD) },
+    {
+      id: 'select-tasks',
+      label: 'Select tasks',
+      run: () => {
+        updateView(ViewMode.LIST);
+        setCheckedIds(prev => prev ?? new Set());
+      }
+    },
+    ...(Object.values(FilterType) as FilterType[]).map(f => ({
+      id: `view-${f}`,
+      label: `Show ${f.toLowerCase()} tasks`,
+      run: () => setFilter(prev => ({ ...prev, status: f }))
+    })),
+    ...projects.map(p => ({
+      id: `project-${p.id}`,
+      label: `Go to project: ${p.name}`,
+      run: () => setFilter(prev => ({ ...prev, projectId: p.id }))
+    })),
+  ];
 
-  const activeCount = tasks.filter(t => !t.completed).length;
+  const filteredTasks = applyFilter(tasks, filter);
+  // Checked tasks that still exist
+  const liveIds = new Set(tasks.map(t => t.id));
+  const visibleArchive = archive ? archive.filter(t => !liveIds.has(t.id)) : [];
+  const batchIds = new Set(checkedIds ? tasks.filter(t => checkedIds.has(t.id)).map(t => t.id) : []);
+  // A task can't be moved under itself or one of its own subtasks
+  const batchSubtree = new Set(getTopmostIds(tasks, batchIds).flatMap(id => [...getSubtreeIds(tasks, id)]));
+  const batchParentOptions = checkedIds ? tasks.filter(t => !t.completed && !batchSubtree.has(t.id)) : [];
+  const activeCount = tasks.filter(t => !t.completed && matchesScope(t, filter)).length;
+  const selectedProject = projects.find(p => p.id === filter.projectId);
 
   return (
     <div className="min-h-screen bg-slate-50 text-slate-900 pb-20">
       <header className="bg-white border-b border-slate-200 sticky top-0 z-10">
-        <div className="max-w-3xl mx-auto px-4 h-16 flex items-center justify-between">
+        <div className="max-w-5xl mx-auto px-4 h-16 flex items-center justify-between">
           <div className="flex items-center gap-2">
             <div className="w-8 h-8 bg-indigo-600 rounded-lg flex items-center justify-center text-white">
               <SparklesIcon className="w-5 h-5" />
@@ -231,19 +1001,39 @@ function App() {
           </div>
           <div className="flex items-center gap-3">
             <div className="flex items-center gap-1.5 mr-2 pr-2 border-r border-slate-100">
-              <button
-                onClick={exportTasks}
-                title="Export Backup"
-                className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-slate-50 rounded-lg transition-all"
-              >
-                <svg xmlns="http://www.w3.org/2000/svg" className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a2 2 0 002 2h12a2 2 0 002-2v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
-                </svg>
-              </button>
-              <label className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-slate-50 rounded-lg transition-all cursor-pointer">
+              <div className="relative">
+                <button
+                  onClick={() => setIsExportMenuOpen(!isExportMenuOpen)}
+                  title="Export"
+                  className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-slate-50 rounded-lg transition-all"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a2 2 0 002 2h12a2 2 0 002-2v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                  </svg>
+                </button>
+                {isExportMenuOpen && (
+                  <>
+                    <div className="fixed inset-0 z-20" onClick={() => setIsExportMenuOpen(false)} />
+                    <div className="absolute right-0 mt-1 z-30 w-48 bg-white border border-slate-200 rounded-xl shadow-lg py-1">
+                      <p className="px-3 py-1.5 text-[10px] font-semibold text-slate-400 uppercase tracking-wide">Export as</p>
+                      {TASK_FORMATS.map(format => (
+                        <button
+                          key={format.id}
+                          onClick={() => exportTasks(format)}
+                          className="w-full flex items-center justify-between px-3 py-1.5 text-sm text-slate-700 hover:bg-indigo-50 hover:text-indigo-700"
+                        >
+                          {format.label}
+                          <span className="text-xs text-slate-400">{format.extensions[0]}</span>
+                        </button>
+                      ))}
+                    </div>
+                  </>
+                )}
+              </div>
+              <label title="Import" className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-slate-50 rounded-lg transition-all cursor-pointer">
                 <input
                   type="file"
-                  accept=".json"
+                  accept={IMPORT_ACCEPT}
                   onChange={importTasks}
                   className="hidden"
                 />
@@ -252,6 +1042,48 @@ function App() {
                 </svg>
               </label>
             </div>
+            {!isOnline && (
+              <span
+                className="flex items-center gap-1.5 text-xs font-medium text-amber-700 bg-amber-50 border border-amber-200 px-2.5 py-1 rounded-full"
+                title="Your tasks are saved on this device. AI breakdowns wait until you reconnect."
+              >
+                <span className="w-1.5 h-1.5 rounded-full bg-amber-500" />
+                Offline{aiQueue.length > 0 && ` · ${aiQueue.length} queued`}
+              </span>
+            )}
+            {showRemoteNotice && (
+              <span className="flex items-center gap-1.5 text-xs font-medium text-emerald-700 bg-emerald-50 border border-emerald-200 px-2.5 py-1 rounded-full">
+                <span className="w-1.5 h-1.5 rounded-full bg-emerald-500 animate-pulse" />
+                Updated in another tab
+              </span>
+            )}
+            <button
+              onClick={() => setIsPaletteOpen(true)}
+              title="Search and commands (Ctrl+K)"
+              className="hidden sm:flex items-center gap-2 text-sm text-slate-400 hover:text-slate-600 bg-slate-50 hover:bg-slate-100 pl-3 pr-2 py-1.5 rounded-lg border border-slate-200 transition-colors"
+            >
+              <SearchIcon className="w-3.5 h-3.5" />
+              <span>Search</span>
+              <kbd className="text-[10px] font-semibold border border-slate-200 bg-white rounded px-1.5">Ctrl K</kbd>
+            </button>
+            <div className="flex items-center gap-0.5">
+              <button
+                onClick={undo}
+                disabled={!canUndo}
+                title="Undo (Ctrl+Z)"
+                className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-slate-50 rounded-lg transition-all disabled:opacity-30 disabled:hover:text-slate-400 disabled:hover:bg-transparent"
+              >
+                <UndoIcon className="w-4 h-4" />
+              </button>
+              <button
+                onClick={redo}
+                disabled={!canRedo}
+                title="Redo (Ctrl+Shift+Z)"
+                className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-slate-50 rounded-lg transition-all disabled:opacity-30 disabled:hover:text-slate-400 disabled:hover:bg-transparent"
+              >
+                <RedoIcon className="w-4 h-4" />
+              </button>
+            </div>
             <button
               onClick={fetchInsight}
               disabled={loadingInsight}
@@ -260,70 +1092,400 @@ function App() {
               <BrainIcon className={`w-4 h-4 ${loadingInsight ? 'animate-pulse' : ''}`} />
               <span className="hidden sm:inline">{loadingInsight ? 'Thinking...' : 'AI Insight'}</span>
             </button>
+            <button
+              onClick={() => setIsPlannerOpen(true)}
+              title="Plan my day"
+              className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-slate-50 rounded-lg transition-all"
+            >
+              <CalendarIcon className="w-4 h-4" />
+            </button>
+            <button
+              onClick={openStats}
+              title="Productivity stats"
+              className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-slate-50 rounded-lg transition-all"
+            >
+              <ActivityIcon className="w-4 h-4" />
+            </button>
+            <button
+              onClick={openArchive}
+              title="Archive"
+              className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-slate-50 rounded-lg transition-all"
+            >
+              <ArchiveIcon className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => setIsEstimateReportOpen(true)}
+              title="Estimates vs. actual"
+              className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-slate-50 rounded-lg transition-all"
+            >
+              <ChartIcon className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => setIsAiSettingsOpen(true)}
+              title={`AI settings (${aiProvider.label})`}
+              className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-slate-50 rounded-lg transition-all"
+            >
+              <SettingsIcon className="w-4 h-4" />
+            </button>
           </div>
         </div>
       </header>
 
-      <main className="max-w-3xl mx-auto px-4 pt-8">
-        {insight && (
-          <div className="mb-8 p-4 bg-gradient-to-br from-indigo-500 to-purple-600 rounded-2xl text-white shadow-lg flex items-start gap-4">
-            <div className="p-2 bg-white/20 rounded-lg backdrop-blur-sm">
-              <SparklesIcon className="w-5 h-5 text-white" />
+      <main className="max-w-5xl mx-auto px-4 pt-8 flex flex-col md:flex-row gap-8">
+        <Sidebar
+          tasks={tasks}
+          projects={projects}
+          filter={filter}
+          onSelectProject={(projectId) => setFilter(prev => ({ ...prev, projectId }))}
+          onToggleTag={toggleTagFilter}
+          onAddProject={addProject}
+          onDeleteProject={deleteProject}
+        />
+
+        <div className="flex-1 min-w-0">
+          {insight && (
+            <div className="mb-8 p-4 bg-gradient-to-br from-indigo-500 to-purple-600 rounded-2xl text-white shadow-lg flex items-start gap-4">
+              <div className="p-2 bg-white/20 rounded-lg backdrop-blur-sm">
+                <SparklesIcon className="w-5 h-5 text-white" />
+              </div>
+              <div>
+                <p className="text-indigo-50 text-xs font-semibold uppercase tracking-wider mb-1">{aiProvider.label} says</p>
+                <p className="font-medium text-lg leading-relaxed">"{insight}"</p>
+              </div>
+            </div>
+          )}
+
+          {error && (
+            <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-xl text-red-700 flex items-center justify-between shadow-sm">
+              <div className="flex items-center gap-3">
+                <p className="font-medium">{error}</p>
+              </div>
+              <button onClick={() => setError(null)} className="text-red-400 hover:text-red-600 transition-colors">
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                  <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+                </svg>
+              </button>
             </div>
+          )}
+
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between mb-6 gap-4">
             <div>
-              <p className="text-indigo-50 text-xs font-semibold uppercase tracking-wider mb-1">Gemini says</p>
-              <p className="font-medium text-lg leading-relaxed">"{insight}"</p>
+              <h2 className="text-2xl font-bold text-slate-800">{selectedProject?.name ?? 'My Tasks'}</h2>
+              <p className="text-slate-500 text-sm mt-1">
+                You have <strong className="text-indigo-600">{activeCount}</strong> active tasks
+                {filter.tags.length > 0 && (
+                  <>
+                    {' '}tagged{' '}
+                    {filter.tags.map(tag => (
+                      <button
+                        key={tag}
+                        onClick={() => toggleTagFilter(tag)}
+                        className="ml-1 text-xs font-medium px-2 py-0.5 rounded-full border bg-indigo-50 text-indigo-700 border-indigo-200 hover:bg-indigo-100"
+                        title="Remove tag filter"
+                      >
+                        #{tag} ×
+                      </button>
+                    ))}
+                  </>
+                )}
+              </p>
             </div>
-          </div>
-        )}
 
-        {error && (
-          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-xl text-red-700 flex items-center justify-between shadow-sm">
-            <div className="flex items-center gap-3">
-              <p className="font-medium">{error}</p>
+            <div className="flex p-1 bg-white border border-slate-200 rounded-lg shadow-sm overflow-x-auto">
+              {(Object.values(FilterType) as FilterType[]).map((f) => (
+                <button
+                  key={f}
+                  onClick={() => setFilter(prev => ({ ...prev, status: f }))}
+                  title={f === FilterType.NEXT ? 'Open tasks that are not waiting on anything' : undefined}
+                  className={`px-4 py-1.5 text-sm font-medium rounded-md transition-all ${filter.status === f ? 'bg-indigo-50 text-indigo-700' : 'text-slate-500 hover:text-slate-700'}`}
+                >
+                  {f.charAt(0) + f.slice(1).toLowerCase()}
+                </button>
+              ))}
             </div>
-            <button onClick={() => setError(null)} className="text-red-400 hover:text-red-600 transition-colors">
-              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
-                <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
-              </svg>
-            </button>
           </div>
-        )}
 
-        <div className="flex flex-col sm:flex-row sm:items-center justify-between mb-6 gap-4">
-          <div>
-            <h2 className="text-2xl font-bold text-slate-800">My Tasks</h2>
-            <p className="text-slate-500 text-sm mt-1">
-              You have <strong className="text-indigo-600">{activeCount}</strong> active tasks
-            </p>
-          </div>
+          <AddTask tasks={tasks} provider={aiProvider} onAdd={quickAddTask} onMerge={mergeIntoTask} />
 
-          <div className="flex p-1 bg-white border border-slate-200 rounded-lg shadow-sm">
-            {(Object.values(FilterType) as FilterType[]).map((f) => (
+          <div className="flex items-center justify-end gap-3 -mt-3 mb-3">
+            {view === ViewMode.LIST && (
               <button
-                key={f}
-                onClick={() => setFilter(f)}
-                className={`px-4 py-1.5 text-sm font-medium rounded-md transition-all ${filter === f ? 'bg-indigo-50 text-indigo-700' : 'text-slate-500 hover:text-slate-700'}`}
+                onClick={() => (checkedIds ? exitSelection() : setCheckedIds(new Set()))}
+                className={`px-2 py-0.5 text-xs font-medium rounded-md border transition-colors ${checkedIds ? 'bg-indigo-50 border-indigo-200 text-indigo-700' : 'bg-white border-slate-200 text-slate-500 hover:text-slate-700'}`}
+                title="Pick several tasks to change at once (Shift-click selects a range)"
               >
-                {f.charAt(0) + f.slice(1).toLowerCase()}
+                Select
               </button>
-            ))}
+            )}
+            <div className="flex p-0.5 bg-white border border-slate-200 rounded-md">
+              {([[ViewMode.LIST, 'List'], [ViewMode.BOARD, 'Board']] as const).map(([mode, label]) => (
+                <button
+                  key={mode}
+                  onClick={() => updateView(mode)}
+                  className={`px-2 py-0.5 text-xs font-medium rounded transition-colors ${view === mode ? 'bg-indigo-50 text-indigo-700' : 'text-slate-500 hover:text-slate-700'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <label className="flex items-center gap-1.5 text-xs text-slate-500">
+              Sort
+              <select
+                value={sortMode}
+                onChange={(e) => updateSortMode(e.target.value as SortMode)}
+                className="text-xs font-medium bg-white border border-slate-200 rounded-md px-1.5 py-0.5 text-slate-600 focus:outline-none focus:border-indigo-400"
+              >
+                {(Object.values(SortMode) as SortMode[]).map(mode => (
+                  <option key={mode} value={mode}>{SORT_MODE_LABELS[mode]}</option>
+                ))}
+              </select>
+            </label>
           </div>
+
+          {!isLoaded ? (
+            <div className="flex items-center justify-center gap-2 py-20 text-slate-400 text-sm">
+              <SparklesIcon className="w-4 h-4 animate-spin" /> Loading your tasks...
+            </div>
+          ) : view === ViewMode.BOARD ? (
+            <BoardView
+              tasks={filteredTasks}
+              allTasks={tasks}
+              sortMode={sortMode}
+              columns={boardColumns}
+              onUpdateColumns={updateBoardColumns}
+              onUpdateStatus={updateTaskStatus}
+              selectedId={selectedId}
+              onSelect={setSelectedId}
+              onOpen={(id) => {
+                updateView(ViewMode.LIST);
+                revealTask(id);
+              }}
+            />
+          ) : (
+            <>
+              {checkedIds && (
+                <BatchToolbar
+                  count={batchIds.size}
+                  selectableCount={filteredTasks.length}
+                  parentOptions={batchParentOptions}
+                  breakdownProgress={batchProgress}
+                  onSelectAll={() => setCheckedIds(new Set(filteredTasks.map(t => t.id)))}
+                  onClear={() => setCheckedIds(new Set())}
+                  onExit={exitSelection}
+                  onSetCompleted={setBatchCompleted}
+                  onSetPriority={setBatchPriority}
+                  onMoveTo={moveBatchTo}
+                  onBreakdown={breakDownBatch}
+                  onCancelBreakdown={() => batchAbortRef.current?.abort()}
+                  onDelete={deleteBatch}
+                />
+              )}
+              <TaskList
+                tasks={filteredTasks}
+                allTasks={tasks}
+                sortMode={sortMode}
+                onMove={moveTaskTo}
+                onToggle={toggleTask}
+                onDelete={deleteTask}
+                onArchive={archiveTask}
+                onUpdatePriority={updateTaskPriority}
+                onUpdateStatus={updateTaskStatus}
+                onUpdateText={updateTaskText}
+                onUpdateDates={updateTaskDates}
+                onUpdateRecurrence={updateTaskRecurrence}
+                onUpdateTags={updateTaskTags}
+                onUpdateProject={updateTaskProject}
+                onUpdateEstimate={updateTaskEstimate}
+                onSuggestEstimate={suggestEstimate}
+                onToggleTimer={toggleTaskTimer}
+                onAddBlocker={addTaskBlocker}
+                onRemoveBlocker={removeTaskBlocker}
+                onShowDependencies={setDependencyTaskId}
+                onTagClick={toggleTagFilter}
+                projects={projects}
+                activeTags={filter.tags}
+                onAiBreakdown={handleBreakdown}
+                onCancelBreakdown={cancelBreakdown}
+                streamingSuggestions={streamingSuggestions}
+                onToggleExpansion={toggleTaskExpansion}
+                onAddSubtask={addSubtask}
+                breakingDownId={breakingDownId}
+                queuedBreakdownIds={new Set(aiQueue.map(q => q.taskId))}
+                onCancelQueuedBreakdown={cancelQueuedBreakdown}
+                highlightedId={highlightedId}
+                selectedId={selectedId}
+                onSelect={setSelectedId}
+                checkedIds={checkedIds}
+                onCheck={checkTasks}
+                shortcuts={shortcuts}
+              />
+            </>
+          )}
         </div>
+      </main>
+
+      {breakdownReview && tasks.some(t => t.id === breakdownReview.taskId) && (
+        <BreakdownReviewDialog
+          task={tasks.find(t => t.id === breakdownReview.taskId)!}
+          existing={getDirectSubtasks(tasks, breakdownReview.taskId)}
+          suggestions={breakdownReview.suggestions}
+          hint={breakdownReview.hint}
+          isLoading={breakingDownId === breakdownReview.taskId}
+          onRegenerate={(hint) => handleBreakdown(breakdownReview.taskId, hint)}
+          onApply={applyBreakdownReview}
+          onCancel={() => {
+            cancelBreakdown();
+            setBreakdownReview(null);
+          }}
+        />
+      )}
+
+      {isPlannerOpen && (
+        <DayPlanner
+          tasks={tasks}
+          provider={aiProvider}
+          onAccept={acceptDayPlan}
+          onClose={() => setIsPlannerOpen(false)}
+        />
+      )}
+
+      {statsEvents && (
+        <StatsDashboard
+          tasks={tasks}
+          events={statsEvents}
+          onJump={(id) => {
+            setStatsEvents(null);
+            revealTask(id);
+          }}
+          onClose={() => setStatsEvents(null)}
+        />
+      )}
 
-        <AddTask onAdd={(text) => addTask(text)} />
+      {isShortcutHelpOpen && (
+        <ShortcutHelp
+          shortcuts={shortcuts}
+          onCustomize={() => {
+            setIsShortcutHelpOpen(false);
+            setIsShortcutSettingsOpen(true);
+          }}
+          onClose={() => setIsShortcutHelpOpen(false)}
+        />
+      )}
+
+      {isShortcutSettingsOpen && (
+        <ShortcutSettingsDialog
+          shortcuts={shortcuts}
+          onSave={(next) => {
+            setShortcuts(next);
+            saveShortcuts(next);
+            setIsShortcutSettingsOpen(false);
+          }}
+          onCancel={() => setIsShortcutSettingsOpen(false)}
+        />
+      )}
+
+      {archive && (
+        <ArchiveDialog
+          archive={visibleArchive}
+          completedTreeCount={findCompletedTrees(tasks).length}
+          autoArchiveDays={autoArchiveDays}
+          onRestore={restoreArchived}
+          onDeleteForever={deleteArchived}
+          onArchiveCompleted={archiveCompleted}
+          onUpdateAutoArchiveDays={updateAutoArchiveDays}
+          onClose={() => setArchive(null)}
+        />
+      )}
+
+      {isEstimateReportOpen && (
+        <EstimateReport
+          tasks={tasks}
+          onJump={(id) => {
+            setIsEstimateReportOpen(false);
+            revealTask(id);
+          }}
+          onClose={() => setIsEstimateReportOpen(false)}
+        />
+      )}
+
+      {isDuplicatesOpen && (
+        <DuplicatesDialog
+          tasks={tasks}
+          provider={aiProvider}
+          onMerge={mergeTaskGroup}
+          onJump={(id) => {
+            setIsDuplicatesOpen(false);
+            revealTask(id);
+          }}
+          onClose={() => setIsDuplicatesOpen(false)}
+        />
+      )}
 
-        <TaskList
-          tasks={filteredTasks}
+      {dependencyTaskId && tasks.some(t => t.id === dependencyTaskId) && (
+        <DependencyChainDialog
+          task={tasks.find(t => t.id === dependencyTaskId)!}
+          tasks={tasks}
+          onJump={(id) => {
+            setDependencyTaskId(null);
+            revealTask(id);
+          }}
+          onClose={() => setDependencyTaskId(null)}
+        />
+      )}
+
+      {isAiSettingsOpen && (
+        <AiSettingsDialog
+          settings={aiSettings}
+          onSave={updateAiSettings}
+          onCancel={() => setIsAiSettingsOpen(false)}
+        />
+      )}
+
+      {pendingImport && (
+        <ImportPreviewDialog
+          fileName={pendingImport.fileName}
+          plan={pendingImport.plan}
+          onConfirm={confirmImport}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
+
+      {isPaletteOpen && (
+        <CommandPalette
+          tasks={tasks}
+          commands={paletteCommands}
+          onClose={() => setIsPaletteOpen(false)}
+          onJump={revealTask}
           onToggle={toggleTask}
           onDelete={deleteTask}
           onUpdatePriority={updateTaskPriority}
           onAiBreakdown={handleBreakdown}
-          onToggleExpansion={toggleTaskExpansion}
-          onAddSubtask={addSubtask}
-          breakingDownId={breakingDownId}
         />
-      </main>
+      )}
+
+      <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 flex flex-col items-center gap-2">
+        {reminders.map(task => (
+          <Toast
+            key={task.id}
+            message={`Reminder: ${task.text}`}
+            actionLabel="Complete"
+            onAction={() => {
+              toggleTask(task.id);
+              dismissReminder(task.id);
+            }}
+            onDismiss={() => dismissReminder(task.id)}
+            duration={15000}
+          />
+        ))}
+        {lastLabel && (
+          <Toast
+            message={lastLabel}
+            actionLabel="Undo"
+            onAction={undo}
+            onDismiss={dismissLabel}
+          />
+        )}
+      </div>
     </div>
   );
 }
@@ -1,37 +1,142 @@
-import React, { useState } from 'react';
+import React, { useState, useMemo } from 'react';
+import { Task, Priority } from '../types';
 import { PlusIcon } from './Icons';
+import { parseQuickAdd, resolveParentQuery, ParsedQuickAdd, QuickAddToken } from '../services/quickAddParser';
+import { formatDueDate } from '../services/dateUtils';
+import { describeRecurrence } from '../services/recurrence';
+import { AiProvider } from '../services/ai';
+import { useDuplicateCheck } from '../hooks/useDuplicateCheck';
 
 interface AddTaskProps {
-  onAdd: (text: string) => void;
+  tasks: Task[];
+  // Adds embedding matches to the duplicate check when it supports them
+  provider?: AiProvider;
+  onAdd: (parsed: ParsedQuickAdd, parent?: Task) => void;
+  // Folds the draft into an existing task instead of adding a new one
+  onMerge: (parsed: ParsedQuickAdd, targetId: string) => void;
 }
 
-export const AddTask: React.FC<AddTaskProps> = ({ onAdd }) => {
+const chipClass = "text-[11px] font-medium px-2 py-0.5 rounded-full border";
+
+const priorityChip = {
+  [Priority.HIGH]: 'bg-red-50 text-red-700 border-red-200',
+  [Priority.MEDIUM]: 'bg-yellow-50 text-yellow-700 border-yellow-200',
+  [Priority.LOW]: 'bg-blue-50 text-blue-700 border-blue-200',
+};
+
+export const AddTask: React.FC<AddTaskProps> = ({ tasks, provider, onAdd, onMerge }) => {
   const [text, setText] = useState('');
 
+  const parsed = useMemo(() => parseQuickAdd(text), [text]);
+  const parent = useMemo(
+    () => parsed.parentQuery ? resolveParentQuery(tasks, parsed.parentQuery) : undefined,
+    [tasks, parsed.parentQuery]
+  );
+  const matches = useDuplicateCheck(tasks, parsed.text, provider)
+    .filter(match => match.task.id !== parent?.id);
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (text.trim()) {
-      onAdd(text.trim());
+    if (parsed.text) {
+      onAdd(parsed, parent);
       setText('');
     }
   };
 
+  const merge = (targetId: string) => {
+    onMerge(parsed, targetId);
+    setText('');
+  };
+
+  const renderChip = (token: QuickAddToken) => {
+    switch (token.kind) {
+      case 'priority':
+        return (
+          <span key={token.raw} className={`${chipClass} uppercase tracking-wider ${priorityChip[parsed.priority!]}`}>
+            {parsed.priority}
+          </span>
+        );
+      case 'tag':
+        return (
+          <span key={token.raw} className={`${chipClass} bg-slate-50 text-slate-600 border-slate-200`}>
+            {token.raw.toLowerCase()}
+          </span>
+        );
+      case 'due':
+        return (
+          <span key={token.raw} className={`${chipClass} bg-slate-50 text-slate-600 border-slate-200`}>
+            Due {formatDueDate(parsed.dueAt!)}
+          </span>
+        );
+      case 'recurrence':
+        return (
+          <span key={token.raw} className={`${chipClass} bg-emerald-50 text-emerald-700 border-emerald-200`}>
+            {describeRecurrence(parsed.recurrence!)}
+          </span>
+        );
+      case 'parent':
+        return parent ? (
+          <span key={token.raw} className={`${chipClass} bg-indigo-50 text-indigo-700 border-indigo-200`}>
+            Subtask of "{parent.text}"
+          </span>
+        ) : (
+          <span key={token.raw} className={`${chipClass} bg-red-50 text-red-700 border-red-200`}>
+            No task matches "{parsed.parentQuery}" · adding as a top-level task
+          </span>
+        );
+    }
+  };
+
   return (
-    <form onSubmit={handleSubmit} className="relative mb-6">
-      <input
-        type="text"
-        value={text}
-        onChange={(e) => setText(e.target.value)}
-        placeholder="What needs to be done?"
-        className="w-full pl-5 pr-14 py-4 bg-white border border-slate-200 rounded-xl shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 transition-all placeholder:text-slate-400 text-slate-700"
-      />
-      <button
-        type="submit"
-        disabled={!text.trim()}
-        className="absolute right-2 top-2 bottom-2 aspect-square bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 disabled:hover:bg-indigo-600 text-white rounded-lg flex items-center justify-center transition-all"
-      >
-        <PlusIcon className="w-5 h-5" />
-      </button>
+    <form onSubmit={handleSubmit} className="mb-6">
+      <div className="relative">
+        <input
+          type="text"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder="What needs to be done? Try !high #work @tomorrow every monday > parent"
+          className="w-full pl-5 pr-14 py-4 bg-white border border-slate-200 rounded-xl shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 transition-all placeholder:text-slate-400 text-slate-700"
+        />
+        <button
+          type="submit"
+          disabled={!parsed.text}
+          className="absolute right-2 top-2 bottom-2 aspect-square bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 disabled:hover:bg-indigo-600 text-white rounded-lg flex items-center justify-center transition-all"
+        >
+          <PlusIcon className="w-5 h-5" />
+        </button>
+      </div>
+
+      {/* Live preview of the detected quick-add tokens */}
+      {parsed.tokens.length > 0 && (
+        <div className="mt-2 px-1 flex flex-wrap items-center gap-1.5">
+          {parsed.text && (
+            <span className="text-xs text-slate-500 mr-1 truncate max-w-[50%]">{parsed.text}</span>
+          )}
+          {parsed.tokens.map(renderChip)}
+        </div>
+      )}
+
+      {matches.length > 0 && (
+        <div className="mt-2 p-2.5 bg-amber-50 border border-amber-200 rounded-xl flex flex-col gap-1.5">
+          <span className="text-[11px] font-semibold text-amber-800">
+            Looks like {matches.length === 1 ? 'a task you already have' : 'tasks you already have'}. Press Enter to add it anyway.
+          </span>
+          {matches.map(({ task, score }) => (
+            <div key={task.id} className="flex items-center gap-2 text-xs">
+              <span className="flex-1 truncate text-slate-700">{task.text}</span>
+              <span className="shrink-0 text-[10px] text-amber-700 tabular-nums">{Math.round(score * 100)}% alike</span>
+              <button
+                type="button"
+                onClick={() => merge(task.id)}
+                className="shrink-0 px-2 py-0.5 text-[11px] font-medium text-amber-800 bg-white hover:bg-amber-100 border border-amber-200 rounded-md transition-colors"
+                title="Merge into this task instead of adding a new one"
+              >
+                Merge tasks
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
     </form>
   );
 };
@@ -0,0 +1,163 @@
+import React, { useState } from 'react';
+import { AiSettings, AiProviderId, PROVIDER_DEFAULTS, createAiProvider } from '../services/ai';
+
+interface AiSettingsDialogProps {
+  settings: AiSettings;
+  onSave: (settings: AiSettings) => void;
+  onCancel: () => void;
+}
+
+const providerOptions = [
+  { value: AiProviderId.GEMINI, label: 'Gemini', description: 'Google Gemini API, needs an API key' },
+  { value: AiProviderId.OPENAI_COMPATIBLE, label: 'OpenAI-compatible', description: 'Any /v1/chat/completions server, e.g. Ollama or llama.cpp' },
+  { value: AiProviderId.RULE_BASED, label: 'Offline rules', description: 'No model, works without a network' },
+];
+
+type TestState = { status: 'idle' } | { status: 'running' } | { status: 'ok'; reply: string } | { status: 'failed'; message: string };
+
+const inputClass = 'w-full text-sm px-3 py-2 rounded-lg border border-slate-200 focus:outline-none focus:ring-2 focus:ring-indigo-200 focus:border-indigo-300';
+
+export const AiSettingsDialog: React.FC<AiSettingsDialogProps> = ({ settings, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<AiSettings>(settings);
+  const [test, setTest] = useState<TestState>({ status: 'idle' });
+  const defaults = PROVIDER_DEFAULTS[draft.providerId];
+
+  const update = (changes: Partial<AiSettings>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+    setTest({ status: 'idle' });
+  };
+
+  const selectProvider = (providerId: AiProviderId) => {
+    // Models are provider-specific, so a name typed for one shouldn't carry over
+    update({ providerId, model: providerId === settings.providerId ? settings.model : '' });
+  };
+
+  const validationError =
+    draft.providerId === AiProviderId.GEMINI && !draft.apiKey.trim() ? 'Gemini needs an API key.' : null;
+
+  const runTest = async () => {
+    setTest({ status: 'running' });
+    try {
+      const reply = await createAiProvider(draft).getProductivityInsight({
+        openCount: 3,
+        completedToday: 1,
+        completedThisWeek: 4,
+        completedPerDay: [0, 1, 0, 1, 0, 1, 1],
+        streakDays: 2,
+      });
+      setTest({ status: 'ok', reply });
+    } catch (err) {
+      setTest({ status: 'failed', message: err instanceof Error ? err.message : String(err) });
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center px-4 bg-slate-900/30 backdrop-blur-sm" onMouseDown={onCancel}>
+      <div
+        className="w-full max-w-lg max-h-[85vh] flex flex-col bg-white rounded-2xl shadow-2xl border border-slate-200"
+        onMouseDown={(e) => e.stopPropagation()}
+        onKeyDown={(e) => e.key === 'Escape' && onCancel()}
+      >
+        <div className="px-5 pt-5 pb-3 border-b border-slate-100">
+          <h2 className="text-lg font-bold text-slate-800">AI settings</h2>
+          <p className="text-xs text-slate-500 mt-0.5">Used for task breakdowns and insights. Stored in this browser only.</p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-5 py-4 flex flex-col gap-4">
+          <fieldset>
+            <legend className="text-[10px] font-semibold text-slate-500 uppercase tracking-wide mb-2">Provider</legend>
+            <div className="grid grid-cols-3 gap-2">
+              {providerOptions.map(option => (
+                <label
+                  key={option.value}
+                  className={`flex flex-col gap-0.5 p-2 rounded-lg border cursor-pointer transition-colors ${draft.providerId === option.value ? 'border-indigo-300 bg-indigo-50' : 'border-slate-200 hover:border-indigo-200'}`}
+                >
+                  <span className="flex items-center gap-1.5 text-xs font-semibold text-slate-700">
+                    <input
+                      type="radio"
+                      name="ai-provider"
+                      checked={draft.providerId === option.value}
+                      onChange={() => selectProvider(option.value)}
+                      className="accent-indigo-600"
+                    />
+                    {option.label}
+                  </span>
+                  <span className="text-[10px] text-slate-500">{option.description}</span>
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          {draft.providerId === AiProviderId.OPENAI_COMPATIBLE && (
+            <label className="flex flex-col gap-1">
+              <span className="text-xs font-medium text-slate-600">Server URL</span>
+              <input
+                type="url"
+                value={draft.baseUrl}
+                onChange={(e) => update({ baseUrl: e.target.value })}
+                placeholder={defaults.baseUrl}
+                className={inputClass}
+              />
+            </label>
+          )}
+
+          {draft.providerId !== AiProviderId.RULE_BASED && (
+            <>
+              <label className="flex flex-col gap-1">
+                <span className="text-xs font-medium text-slate-600">Model</span>
+                <input
+                  type="text"
+                  value={draft.model}
+                  onChange={(e) => update({ model: e.target.value })}
+                  placeholder={defaults.model}
+                  className={inputClass}
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                <span className="text-xs font-medium text-slate-600">
+                  API key{draft.providerId === AiProviderId.OPENAI_COMPATIBLE && <span className="text-slate-400 font-normal"> (optional)</span>}
+                </span>
+                <input
+                  type="password"
+                  value={draft.apiKey}
+                  onChange={(e) => update({ apiKey: e.target.value })}
+                  autoComplete="off"
+                  className={inputClass}
+                />
+              </label>
+            </>
+          )}
+
+          <div className="flex items-start gap-3">
+            <button
+              onClick={runTest}
+              disabled={!!validationError || test.status === 'running'}
+              className="shrink-0 px-3 py-1.5 text-xs font-medium text-indigo-700 bg-indigo-50 hover:bg-indigo-100 disabled:opacity-50 rounded-lg border border-indigo-200 transition-colors"
+            >
+              {test.status === 'running' ? 'Testing...' : 'Test connection'}
+            </button>
+            {test.status === 'ok' && <p className="text-xs text-emerald-700">✓ {test.reply}</p>}
+            {test.status === 'failed' && <p className="text-xs text-red-600">✕ {test.message}</p>}
+            {validationError && <p className="text-xs text-amber-600">{validationError}</p>}
+          </div>
+        </div>
+
+        <div className="px-5 py-4 border-t border-slate-100 flex items-center justify-end gap-2">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onSave({ ...draft, apiKey: draft.apiKey.trim(), baseUrl: draft.baseUrl.trim(), model: draft.model.trim() })}
+            disabled={!!validationError}
+            className="px-4 py-2 text-sm font-medium bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white rounded-lg transition-colors"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
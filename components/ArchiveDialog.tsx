@@ -0,0 +1,148 @@
+import React, { useMemo, useState } from 'react';
+import { Task } from '../types';
+import { buildTaskTree, getDescendantIds } from '../services/taskTree';
+import { buildSearchIndex, searchTasks } from '../services/search';
+import { AUTO_ARCHIVE_OPTIONS } from '../services/archive';
+import { ArchiveIcon, SearchIcon, TrashIcon } from './Icons';
+
+interface ArchiveDialogProps {
+  // Archived tasks that aren't back in the list
+  archive: Task[];
+  // Completed top-level trees that "Archive completed" would take
+  completedTreeCount: number;
+  autoArchiveDays: number | null;
+  onRestore: (id: string) => void;
+  onDeleteForever: (id: string) => void;
+  onArchiveCompleted: () => void;
+  onUpdateAutoArchiveDays: (days: number | null) => void;
+  onClose: () => void;
+}
+
+const formatDate = (time: number) =>
+  new Date(time).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+
+/**
+ * Finished trees moved out of the list. Search covers subtasks too;
+ * restoring or deleting any task acts on the whole tree it was archived with.
+ */
+export const ArchiveDialog: React.FC<ArchiveDialogProps> = ({
+  archive,
+  completedTreeCount,
+  autoArchiveDays,
+  onRestore,
+  onDeleteForever,
+  onArchiveCompleted,
+  onUpdateAutoArchiveDays,
+  onClose
+}) => {
+  const [query, setQuery] = useState('');
+  const index = useMemo(() => buildSearchIndex(archive), [archive]);
+  const roots = useMemo(() => buildTaskTree(archive).roots, [archive]);
+  const results = useMemo(() => searchTasks(index, query), [index, query]);
+
+  const rows = query.trim()
+    ? results.map(({ entry }) => ({ task: entry.task, path: entry.path }))
+    : roots.map(task => ({ task, path: [] as string[] }));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center px-4 bg-slate-900/30 backdrop-blur-sm" onMouseDown={onClose}>
+      <div
+        className="w-full max-w-lg max-h-[85vh] flex flex-col bg-white rounded-2xl shadow-2xl border border-slate-200"
+        onMouseDown={(e) => e.stopPropagation()}
+        onKeyDown={(e) => e.key === 'Escape' && onClose()}
+      >
+        <div className="px-5 pt-5 pb-3 border-b border-slate-100">
+          <div className="flex items-center justify-between gap-3">
+            <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+              <ArchiveIcon className="w-4 h-4 text-indigo-500" />
+              Archive
+            </h2>
+            <button
+              onClick={onArchiveCompleted}
+              disabled={completedTreeCount === 0}
+              className="px-2.5 py-1 text-xs font-medium text-indigo-700 bg-indigo-50 hover:bg-indigo-100 rounded-md transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+              title="Archive every top-level task that's done along with all its subtasks"
+            >
+              Clear completed ({completedTreeCount})
+            </button>
+          </div>
+          <p className="text-xs text-slate-500 mt-0.5">
+            {archive.length} archived task{archive.length === 1 ? '' : 's'}, kept out of your list but still in backups
+          </p>
+          <div className="relative mt-3">
+            <SearchIcon className="w-3.5 h-3.5 text-slate-400 absolute left-2.5 top-1/2 -translate-y-1/2" />
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search the archive..."
+              className="w-full pl-8 pr-3 py-1.5 text-sm bg-slate-50 border border-slate-200 rounded-lg focus:outline-none focus:border-indigo-400"
+              autoFocus
+            />
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-5 py-4">
+          {rows.length === 0 ? (
+            <p className="text-sm text-slate-400 text-center py-6">
+              {query.trim() ? 'No archived tasks match.' : 'Nothing archived yet.'}
+            </p>
+          ) : (
+            <ul className="flex flex-col gap-1">
+              {rows.map(({ task, path }) => {
+                const subtaskCount = query.trim() ? 0 : getDescendantIds(archive, task.id).size;
+                return (
+                  <li key={task.id} className="group flex items-center gap-2 px-2 py-1.5 rounded-lg hover:bg-slate-50">
+                    <div className="flex-1 min-w-0">
+                      {path.length > 0 && <div className="text-[10px] text-slate-400 truncate">{path.join(' › ')}</div>}
+                      <div className="text-sm text-slate-700 truncate">{task.text}</div>
+                      <div className="text-[10px] text-slate-400">
+                        Archived {formatDate(task.archivedAt!)}
+                        {subtaskCount > 0 && ` · ${subtaskCount} subtask${subtaskCount === 1 ? '' : 's'}`}
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => onRestore(task.id)}
+                      className="px-2 py-1 text-xs font-medium text-indigo-600 hover:bg-indigo-50 rounded-md transition-colors"
+                    >
+                      Restore
+                    </button>
+                    <button
+                      onClick={() => onDeleteForever(task.id)}
+                      className="p-1.5 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors opacity-0 group-hover:opacity-100 focus:opacity-100"
+                      title="Delete forever"
+                    >
+                      <TrashIcon className="w-3.5 h-3.5" />
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+
+        <div className="px-5 py-4 border-t border-slate-100 flex items-center justify-between gap-3">
+          <label className="flex items-center gap-1.5 text-xs text-slate-500">
+            Auto-archive completed
+            <select
+              value={autoArchiveDays ?? ''}
+              onChange={(e) => onUpdateAutoArchiveDays(e.target.value ? Number(e.target.value) : null)}
+              className="text-xs font-medium bg-white border border-slate-200 rounded-md px-1.5 py-0.5 text-slate-600 focus:outline-none focus:border-indigo-400"
+            >
+              <option value="">Never</option>
+              {AUTO_ARCHIVE_OPTIONS.map(days => (
+                <option key={days} value={days}>after {days} day{days === 1 ? '' : 's'}</option>
+              ))}
+            </select>
+          </label>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,121 @@
+import React from 'react';
+import { Task, Priority } from '../types';
+import { CheckIcon, SparklesIcon, TrashIcon } from './Icons';
+
+interface BatchToolbarProps {
+  count: number;
+  // How many tasks "select all" would pick: those in the current filter
+  selectableCount: number;
+  // Tasks the selection can be moved under
+  parentOptions: Task[];
+  breakdownProgress: { done: number; total: number } | null;
+  onSelectAll: () => void;
+  onClear: () => void;
+  onExit: () => void;
+  onSetCompleted: (completed: boolean) => void;
+  onSetPriority: (priority: Priority) => void;
+  onMoveTo: (parentId: string | undefined) => void;
+  onBreakdown: () => void;
+  onCancelBreakdown: () => void;
+  onDelete: () => void;
+}
+
+// Value of the "Top level" choice in the move menu; task ids are UUIDs
+const TOP_LEVEL = '__top-level__';
+
+const buttonClass = 'flex items-center gap-1.5 px-2.5 py-1 text-xs font-medium rounded-md transition-colors disabled:opacity-40 disabled:cursor-not-allowed';
+const selectClass = 'text-xs font-medium bg-white border border-slate-200 rounded-md px-1.5 py-1 text-slate-600 focus:outline-none focus:border-indigo-400 disabled:opacity-40';
+
+/**
+ * Actions for every selected task at once. Each one is a single undo step.
+ */
+export const BatchToolbar: React.FC<BatchToolbarProps> = ({
+  count,
+  selectableCount,
+  parentOptions,
+  breakdownProgress,
+  onSelectAll,
+  onClear,
+  onExit,
+  onSetCompleted,
+  onSetPriority,
+  onMoveTo,
+  onBreakdown,
+  onCancelBreakdown,
+  onDelete
+}) => {
+  const isEmpty = count === 0;
+  const isBusy = breakdownProgress !== null;
+
+  return (
+    <div
+      className="sticky top-20 z-10 mb-3 p-2 bg-white border border-indigo-200 rounded-xl shadow-md flex flex-wrap items-center gap-2"
+      onKeyDown={(e) => e.key === 'Escape' && !isBusy && onExit()}
+      role="toolbar"
+      aria-label="Batch actions"
+    >
+      <span className="px-1 text-xs font-semibold text-indigo-700">{count} selected</span>
+      <button
+        onClick={count === selectableCount ? onClear : onSelectAll}
+        disabled={isBusy || selectableCount === 0}
+        className={`${buttonClass} text-slate-500 hover:bg-slate-100`}
+      >
+        {count === selectableCount && count > 0 ? 'Clear' : `Select all (${selectableCount})`}
+      </button>
+
+      <span className="w-px h-5 bg-slate-200" />
+
+      <button onClick={() => onSetCompleted(true)} disabled={isEmpty || isBusy} className={`${buttonClass} text-emerald-700 hover:bg-emerald-50`}>
+        <CheckIcon className="w-3.5 h-3.5" />
+        Complete
+      </button>
+      <button onClick={() => onSetCompleted(false)} disabled={isEmpty || isBusy} className={`${buttonClass} text-slate-600 hover:bg-slate-100`}>
+        Reopen
+      </button>
+      <select
+        value=""
+        onChange={(e) => e.target.value && onSetPriority(e.target.value as Priority)}
+        disabled={isEmpty || isBusy}
+        className={selectClass}
+        aria-label="Set priority"
+      >
+        <option value="">Priority…</option>
+        <option value={Priority.HIGH}>High</option>
+        <option value={Priority.MEDIUM}>Medium</option>
+        <option value={Priority.LOW}>Low</option>
+      </select>
+      <select
+        value=""
+        onChange={(e) => e.target.value && onMoveTo(e.target.value === TOP_LEVEL ? undefined : e.target.value)}
+        disabled={isEmpty || isBusy}
+        className={`${selectClass} max-w-40`}
+        aria-label="Move under another task"
+      >
+        <option value="">Move to…</option>
+        <option value={TOP_LEVEL}>Top level</option>
+        {parentOptions.map(task => (
+          <option key={task.id} value={task.id}>{task.text}</option>
+        ))}
+      </select>
+      {isBusy ? (
+        <button onClick={onCancelBreakdown} className={`${buttonClass} text-purple-700 bg-purple-50 hover:bg-purple-100`}>
+          <SparklesIcon className="w-3.5 h-3.5 animate-spin" />
+          Breaking down {breakdownProgress.done + 1} of {breakdownProgress.total}… Stop
+        </button>
+      ) : (
+        <button onClick={onBreakdown} disabled={isEmpty} className={`${buttonClass} text-purple-700 hover:bg-purple-50`}>
+          <SparklesIcon className="w-3.5 h-3.5" />
+          Break down
+        </button>
+      )}
+      <button onClick={onDelete} disabled={isEmpty || isBusy} className={`${buttonClass} text-red-600 hover:bg-red-50`}>
+        <TrashIcon className="w-3.5 h-3.5" />
+        Delete
+      </button>
+
+      <button onClick={onExit} disabled={isBusy} className={`${buttonClass} ml-auto text-slate-500 hover:bg-slate-100`}>
+        Done
+      </button>
+    </div>
+  );
+};
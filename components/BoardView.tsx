@@ -0,0 +1,320 @@
+import React, { useMemo, useState, useEffect } from 'react';
+import { Task, Priority, SortMode, TaskStatus } from '../types';
+import { buildTaskTree, computeSubtreeProgress, getSubtreeIds, SubtreeProgress } from '../services/taskTree';
+import { sortTasks } from '../services/taskOrder';
+import { BoardColumn, DEFAULT_BOARD_COLUMNS, TASK_STATUS_LABELS, getTaskStatus } from '../services/board';
+import { formatDueDate, isOverdue } from '../services/dateUtils';
+import { getOpenBlockersMap } from '../services/dependencies';
+import { CalendarIcon, LinkIcon, SettingsIcon, SparklesIcon } from './Icons';
+
+interface BoardViewProps {
+  tasks: Task[];
+  // Every task, unfiltered, so blockers outside the filter still count
+  allTasks: Task[];
+  sortMode: SortMode;
+  columns: BoardColumn[];
+  onUpdateColumns: (columns: BoardColumn[]) => void;
+  onUpdateStatus: (id: string, status: TaskStatus) => void;
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+  // Shows the task in the list view
+  onOpen: (id: string) => void;
+}
+
+const priorityConfig = {
+  [Priority.HIGH]: { color: 'bg-red-50 text-red-700 border-red-200', label: 'High' },
+  [Priority.MEDIUM]: { color: 'bg-yellow-50 text-yellow-700 border-yellow-200', label: 'Medium' },
+  [Priority.LOW]: { color: 'bg-blue-50 text-blue-700 border-blue-200', label: 'Low' },
+};
+
+const columnAccent: Record<TaskStatus, string> = {
+  [TaskStatus.TODO]: 'bg-slate-400',
+  [TaskStatus.IN_PROGRESS]: 'bg-indigo-500',
+  [TaskStatus.BLOCKED]: 'bg-amber-500',
+  [TaskStatus.DONE]: 'bg-emerald-500',
+};
+
+interface BoardCardProps {
+  task: Task;
+  progress?: SubtreeProgress;
+  openBlockers?: Task[];
+  isSelected: boolean;
+  isDragging: boolean;
+  onDragStart: (e: React.DragEvent<HTMLDivElement>) => void;
+  onDragEnd: () => void;
+  onKeyDown: (e: React.KeyboardEvent<HTMLDivElement>) => void;
+  onSelect: () => void;
+  onOpen: () => void;
+}
+
+const BoardCard: React.FC<BoardCardProps> = ({ task, progress, openBlockers, isSelected, isDragging, onDragStart, onDragEnd, onKeyDown, onSelect, onOpen }) => {
+  const percentage = progress && progress.total > 0 ? Math.round((progress.completed / progress.total) * 100) : null;
+  const overdue = isOverdue(task);
+
+  return (
+    <div
+      draggable
+      tabIndex={0}
+      data-board-card={task.id}
+      onDragStart={onDragStart}
+      onDragEnd={onDragEnd}
+      onKeyDown={onKeyDown}
+      onClick={onSelect}
+      onDoubleClick={onOpen}
+      aria-selected={isSelected}
+      title="Drag to another column, or Shift+Left/Right. Double-click to show in the list."
+      className={`
+        p-3 bg-white rounded-xl border shadow-sm cursor-grab active:cursor-grabbing flex flex-col gap-2 transition-all
+        focus:outline-none focus-visible:ring-2 focus-visible:ring-indigo-400
+        ${isSelected ? 'border-indigo-400 ring-1 ring-indigo-300' : 'border-slate-100 hover:shadow-md'}
+        ${isDragging ? 'opacity-40' : ''}
+      `}
+    >
+      <span className={`text-sm font-medium ${task.completed ? 'text-slate-500 line-through' : 'text-slate-800'}`}>{task.text}</span>
+      <div className="flex flex-wrap items-center gap-1.5">
+        <span className={`text-[10px] font-bold px-2 py-0.5 rounded-full border uppercase tracking-wider ${priorityConfig[task.priority].color}`}>
+          {priorityConfig[task.priority].label}
+        </span>
+        {task.dueAt !== undefined && (
+          <span className={`text-[10px] font-medium px-2 py-0.5 rounded-full border flex items-center gap-1 ${overdue ? 'bg-red-50 text-red-700 border-red-200' : 'bg-slate-50 text-slate-600 border-slate-200'}`}>
+            <CalendarIcon className="w-3 h-3" />
+            {formatDueDate(task.dueAt)}
+          </span>
+        )}
+        {task.tags?.map(tag => (
+          <span key={tag} className="text-[10px] text-slate-500">#{tag}</span>
+        ))}
+        {openBlockers && (
+          <span
+            className="text-[10px] font-medium px-2 py-0.5 rounded-full border flex items-center gap-1 bg-amber-50 text-amber-700 border-amber-200"
+            title={`Waiting on ${openBlockers.map(t => `"${t.text}"`).join(', ')}`}
+          >
+            <LinkIcon className="w-3 h-3" />
+            Blocked by {openBlockers.length}
+          </span>
+        )}
+        {task.isAiGenerated && <SparklesIcon className="w-3 h-3 text-purple-500" />}
+      </div>
+      {percentage !== null && progress && (
+        <div>
+          <div className="flex items-center justify-between mb-1">
+            <span className="text-[10px] font-semibold text-slate-500 uppercase tracking-wide">{progress.completed}/{progress.total} Subtasks</span>
+            <span className={`text-[10px] font-bold ${percentage === 100 ? 'text-emerald-600' : 'text-slate-600'}`}>{percentage}%</span>
+          </div>
+          <div className="h-1.5 w-full bg-slate-100 rounded-full overflow-hidden">
+            <div
+              className={`h-full transition-all duration-500 ease-out rounded-full ${percentage === 100 ? 'bg-emerald-500' : 'bg-indigo-500'}`}
+              style={{ width: `${percentage}%` }}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Top-level tasks as cards in one column per status. Subtasks count towards
+ * their card's progress rather than getting cards of their own.
+ */
+export const BoardView: React.FC<BoardViewProps> = ({
+  tasks,
+  allTasks,
+  sortMode,
+  columns,
+  onUpdateColumns,
+  onUpdateStatus,
+  selectedId,
+  onSelect,
+  onOpen
+}) => {
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropStatus, setDropStatus] = useState<TaskStatus | null>(null);
+  const [isConfiguring, setIsConfiguring] = useState(false);
+  const [focusCardId, setFocusCardId] = useState<string | null>(null);
+
+  const { cardsByStatus, progress, selectedCardId } = useMemo(() => {
+    const { roots, childrenMap } = buildTaskTree(tasks);
+    const byStatus = new Map<TaskStatus, Task[]>();
+    sortTasks(roots, sortMode).forEach(task => {
+      const status = getTaskStatus(task);
+      byStatus.set(status, [...(byStatus.get(status) || []), task]);
+    });
+    // A selected subtask shows as a selection on its card
+    const selectedCard = selectedId ? roots.find(root => getSubtreeIds(tasks, root.id).has(selectedId)) : undefined;
+    return { cardsByStatus: byStatus, progress: computeSubtreeProgress(childrenMap), selectedCardId: selectedCard?.id };
+  }, [tasks, sortMode, selectedId]);
+
+  const openBlockers = useMemo(() => getOpenBlockersMap(allTasks), [allTasks]);
+  const visibleColumns = columns.filter(c => !c.hidden);
+  const hiddenCount = columns
+    .filter(c => c.hidden)
+    .reduce((sum, c) => sum + (cardsByStatus.get(c.status)?.length ?? 0), 0);
+
+  // Keeps the selected card in view when arriving from the list; later
+  // selections are made on the board itself
+  const [initialCardId] = useState(selectedCardId);
+  useEffect(() => {
+    if (!initialCardId) return;
+    document.querySelector(`[data-board-card="${initialCardId}"]`)?.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+  }, [initialCardId]);
+
+  useEffect(() => {
+    if (!focusCardId) return;
+    document.querySelector<HTMLElement>(`[data-board-card="${focusCardId}"]`)?.focus();
+    setFocusCardId(null);
+  }, [focusCardId, tasks]);
+
+  const moveCard = (e: React.KeyboardEvent<HTMLDivElement>, task: Task) => {
+    if (e.key === 'Enter' || e.key === ' ') {
+      e.preventDefault();
+      onSelect(task.id);
+      return;
+    }
+    if (!e.shiftKey || (e.key !== 'ArrowLeft' && e.key !== 'ArrowRight')) return;
+    const index = visibleColumns.findIndex(c => c.status === getTaskStatus(task));
+    const next = visibleColumns[index + (e.key === 'ArrowLeft' ? -1 : 1)];
+    if (!next) return;
+    e.preventDefault();
+    onUpdateStatus(task.id, next.status);
+    setFocusCardId(task.id);
+  };
+
+  const updateColumn = (index: number, changes: Partial<BoardColumn>) => {
+    onUpdateColumns(columns.map((c, i) => (i === index ? { ...c, ...changes } : c)));
+  };
+
+  const shiftColumn = (index: number, by: number) => {
+    const next = [...columns];
+    const [column] = next.splice(index, 1);
+    next.splice(index + by, 0, column);
+    onUpdateColumns(next);
+  };
+
+  return (
+    <div className="pb-20">
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-xs text-slate-400">
+          {hiddenCount > 0 && `${hiddenCount} task${hiddenCount === 1 ? '' : 's'} in hidden columns`}
+        </span>
+        <div
+          className="relative"
+          onBlur={(e) => {
+            if (!e.currentTarget.contains(e.relatedTarget)) setIsConfiguring(false);
+          }}
+        >
+          <button
+            onClick={() => setIsConfiguring(!isConfiguring)}
+            className="flex items-center gap-1.5 text-xs font-medium text-slate-500 hover:text-indigo-600 px-2 py-1 rounded-md hover:bg-slate-100 transition-colors"
+          >
+            <SettingsIcon className="w-3.5 h-3.5" />
+            Columns
+          </button>
+          {isConfiguring && (
+            <div className="absolute right-0 top-full mt-1 z-20 w-72 p-3 bg-white border border-slate-200 rounded-xl shadow-lg flex flex-col gap-2">
+              {columns.map((column, index) => (
+                <div key={column.status} className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={!column.hidden}
+                    onChange={(e) => updateColumn(index, { hidden: !e.target.checked || undefined })}
+                    className="accent-indigo-600"
+                    title="Show this column"
+                  />
+                  <span className={`w-2 h-2 rounded-full shrink-0 ${columnAccent[column.status]}`} />
+                  <input
+                    type="text"
+                    value={column.label}
+                    onChange={(e) => updateColumn(index, { label: e.target.value })}
+                    onBlur={(e) => !e.target.value.trim() && updateColumn(index, { label: TASK_STATUS_LABELS[column.status] })}
+                    className="flex-1 min-w-0 text-xs px-2 py-1 bg-slate-50 border border-slate-200 rounded-md focus:outline-none focus:border-indigo-400 text-slate-700"
+                  />
+                  <button
+                    onClick={() => shiftColumn(index, -1)}
+                    disabled={index === 0}
+                    className="text-xs text-slate-400 hover:text-indigo-600 disabled:opacity-30"
+                    title="Move left"
+                  >
+                    ←
+                  </button>
+                  <button
+                    onClick={() => shiftColumn(index, 1)}
+                    disabled={index === columns.length - 1}
+                    className="text-xs text-slate-400 hover:text-indigo-600 disabled:opacity-30"
+                    title="Move right"
+                  >
+                    →
+                  </button>
+                </div>
+              ))}
+              <button
+                onClick={() => onUpdateColumns(DEFAULT_BOARD_COLUMNS)}
+                className="self-end text-xs font-medium text-slate-500 hover:text-indigo-600 transition-colors"
+              >
+                Reset columns
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="flex gap-4 overflow-x-auto pb-2">
+        {visibleColumns.map(column => {
+          const cards = cardsByStatus.get(column.status) || [];
+          return (
+            <section
+              key={column.status}
+              onDragOver={(e) => {
+                if (!draggingId) return;
+                e.preventDefault();
+                e.dataTransfer.dropEffect = 'move';
+                if (dropStatus !== column.status) setDropStatus(column.status);
+              }}
+              onDragLeave={(e) => {
+                if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDropStatus(null);
+              }}
+              onDrop={(e) => {
+                e.preventDefault();
+                if (draggingId) onUpdateStatus(draggingId, column.status);
+                setDraggingId(null);
+                setDropStatus(null);
+              }}
+              className={`w-72 shrink-0 flex flex-col gap-2 p-3 rounded-2xl border transition-colors ${dropStatus === column.status ? 'bg-indigo-50 border-indigo-200' : 'bg-slate-100/60 border-transparent'}`}
+            >
+              <h3 className="flex items-center gap-2 text-xs font-semibold text-slate-600 uppercase tracking-wide px-1">
+                <span className={`w-2 h-2 rounded-full ${columnAccent[column.status]}`} />
+                {column.label}
+                <span className="ml-auto font-medium text-slate-400">{cards.length}</span>
+              </h3>
+              {cards.map(task => (
+                <BoardCard
+                  key={task.id}
+                  task={task}
+                  progress={progress.get(task.id)}
+                  openBlockers={task.completed ? undefined : openBlockers.get(task.id)}
+                  isSelected={selectedCardId === task.id}
+                  isDragging={draggingId === task.id}
+                  onDragStart={(e) => {
+                    e.dataTransfer.effectAllowed = 'move';
+                    e.dataTransfer.setData('text/plain', task.text);
+                    setDraggingId(task.id);
+                  }}
+                  onDragEnd={() => {
+                    setDraggingId(null);
+                    setDropStatus(null);
+                  }}
+                  onKeyDown={(e) => moveCard(e, task)}
+                  onSelect={() => onSelect(task.id)}
+                  onOpen={() => onOpen(task.id)}
+                />
+              ))}
+              {cards.length === 0 && (
+                <p className="text-xs text-slate-400 text-center py-6">No tasks</p>
+              )}
+            </section>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
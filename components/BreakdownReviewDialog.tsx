@@ -0,0 +1,219 @@
+import React, { useState, useEffect } from 'react';
+import { Task, Priority, AiSuggestion } from '../types';
+import { ReviewedSuggestion, BreakdownMode } from '../services/breakdown';
+import { SparklesIcon, CheckIcon } from './Icons';
+
+interface BreakdownReviewDialogProps {
+  task: Task;
+  existing: Task[];
+  suggestions: ReviewedSuggestion[];
+  hint: string;
+  isLoading: boolean;
+  onRegenerate: (hint: string) => void;
+  onApply: (accepted: AiSuggestion[], removeIds: string[]) => void;
+  onCancel: () => void;
+}
+
+interface ItemState extends ReviewedSuggestion {
+  accepted: boolean;
+}
+
+const modeOptions: { value: BreakdownMode; label: string; description: string }[] = [
+  { value: 'append', label: 'Append', description: 'Keep every existing subtask' },
+  { value: 'replace', label: 'Replace', description: 'Remove the subtasks you tick below' },
+];
+
+export const BreakdownReviewDialog: React.FC<BreakdownReviewDialogProps> = ({
+  task,
+  existing,
+  suggestions,
+  hint,
+  isLoading,
+  onRegenerate,
+  onApply,
+  onCancel
+}) => {
+  // Suggestions that repeat an existing subtask start out rejected
+  const [items, setItems] = useState<ItemState[]>(() =>
+    suggestions.map(s => ({ ...s, accepted: !s.matchId }))
+  );
+  useEffect(() => {
+    setItems(suggestions.map(s => ({ ...s, accepted: !s.matchId })));
+  }, [suggestions]);
+  const [mode, setMode] = useState<BreakdownMode>('append');
+  const [hintDraft, setHintDraft] = useState(hint);
+  // Completed subtasks are kept by default when replacing
+  const [removeIds, setRemoveIds] = useState<Set<string>>(
+    () => new Set(existing.filter(t => !t.completed).map(t => t.id))
+  );
+
+  const updateItem = (index: number, changes: Partial<ItemState>) => {
+    setItems(prev => prev.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const toggleRemove = (id: string) => {
+    setRemoveIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const accepted = items.filter(item => item.accepted && item.text.trim());
+  const removing = mode === 'replace' ? existing.filter(t => removeIds.has(t.id)) : [];
+  const matchedText = (id?: string) => existing.find(t => t.id === id)?.text;
+
+  const apply = () => onApply(
+    accepted.map(({ text, priority }) => ({ text: text.trim(), priority })),
+    removing.map(t => t.id)
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center px-4 bg-slate-900/30 backdrop-blur-sm" onMouseDown={onCancel}>
+      <div
+        className="w-full max-w-lg max-h-[85vh] flex flex-col bg-white rounded-2xl shadow-2xl border border-slate-200"
+        onMouseDown={(e) => e.stopPropagation()}
+        onKeyDown={(e) => e.key === 'Escape' && onCancel()}
+      >
+        <div className="px-5 pt-5 pb-3 border-b border-slate-100">
+          <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <SparklesIcon className="w-4 h-4 text-indigo-500" />
+            Review breakdown
+          </h2>
+          <p className="text-xs text-slate-500 mt-0.5 truncate">{task.text}</p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-5 py-4 flex flex-col gap-4">
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              onRegenerate(hintDraft);
+            }}
+          >
+            <input
+              type="text"
+              value={hintDraft}
+              onChange={(e) => setHintDraft(e.target.value)}
+              placeholder='Add a hint, e.g. "in 2 hours" or "for a beginner"'
+              className="flex-1 text-sm px-3 py-1.5 rounded-lg border border-slate-200 focus:outline-none focus:ring-2 focus:ring-indigo-200 focus:border-indigo-300"
+            />
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="shrink-0 px-3 py-1.5 text-xs font-medium text-indigo-700 bg-indigo-50 hover:bg-indigo-100 disabled:opacity-50 rounded-lg border border-indigo-200 transition-colors"
+            >
+              {isLoading ? 'Thinking...' : 'Regenerate'}
+            </button>
+          </form>
+
+          <section className={isLoading ? 'opacity-50 pointer-events-none' : ''}>
+            <h3 className="text-[10px] font-semibold text-slate-500 uppercase tracking-wide mb-2">Suggestions</h3>
+            {items.length === 0 && (
+              <p className="text-sm text-slate-400">No new subtasks suggested. Try a hint.</p>
+            )}
+            <ul className="flex flex-col gap-1.5">
+              {items.map((item, index) => (
+                <li
+                  key={index}
+                  className={`flex items-center gap-2 p-2 rounded-lg border transition-colors ${item.accepted ? 'border-indigo-200 bg-indigo-50/40' : 'border-slate-100 opacity-60'}`}
+                >
+                  <button
+                    onClick={() => updateItem(index, { accepted: !item.accepted })}
+                    title={item.accepted ? 'Reject' : 'Accept'}
+                    className={`w-5 h-5 shrink-0 rounded-md border flex items-center justify-center transition-colors ${item.accepted ? 'bg-indigo-600 border-indigo-600 text-white' : 'border-slate-300 hover:border-indigo-400'}`}
+                  >
+                    {item.accepted && <CheckIcon className="w-3.5 h-3.5" />}
+                  </button>
+                  <div className="flex-1 min-w-0">
+                    <input
+                      type="text"
+                      value={item.text}
+                      onChange={(e) => updateItem(index, { text: e.target.value })}
+                      className="w-full text-sm bg-transparent text-slate-800 focus:outline-none focus:bg-white rounded px-1 -mx-1"
+                    />
+                    {item.matchId && (
+                      <span className="block text-[10px] text-amber-600">Similar to existing: "{matchedText(item.matchId)}"</span>
+                    )}
+                  </div>
+                  <select
+                    value={item.priority}
+                    onChange={(e) => updateItem(index, { priority: e.target.value as Priority })}
+                    className="text-xs bg-white border border-slate-200 rounded-md px-1.5 py-0.5 text-slate-600"
+                  >
+                    <option value={Priority.LOW}>Low</option>
+                    <option value={Priority.MEDIUM}>Medium</option>
+                    <option value={Priority.HIGH}>High</option>
+                  </select>
+                </li>
+              ))}
+            </ul>
+          </section>
+
+          {existing.length > 0 && (
+            <fieldset>
+              <legend className="text-[10px] font-semibold text-slate-500 uppercase tracking-wide mb-2">Existing subtasks</legend>
+              <div className="grid grid-cols-2 gap-2 mb-2">
+                {modeOptions.map(option => (
+                  <label
+                    key={option.value}
+                    className={`flex flex-col gap-0.5 p-2 rounded-lg border cursor-pointer transition-colors ${mode === option.value ? 'border-indigo-300 bg-indigo-50' : 'border-slate-200 hover:border-indigo-200'}`}
+                  >
+                    <span className="flex items-center gap-1.5 text-xs font-semibold text-slate-700">
+                      <input
+                        type="radio"
+                        name="breakdown-mode"
+                        checked={mode === option.value}
+                        onChange={() => setMode(option.value)}
+                        className="accent-indigo-600"
+                      />
+                      {option.label}
+                    </span>
+                    <span className="text-[10px] text-slate-500">{option.description}</span>
+                  </label>
+                ))}
+              </div>
+              <ul className="flex flex-col gap-1">
+                {existing.map(t => (
+                  <li key={t.id} className="flex items-center gap-2 text-xs text-slate-600">
+                    {mode === 'replace' && (
+                      <input
+                        type="checkbox"
+                        checked={removeIds.has(t.id)}
+                        onChange={() => toggleRemove(t.id)}
+                        className="accent-red-500"
+                        title="Remove this subtask"
+                      />
+                    )}
+                    <span className={`${t.completed ? 'text-slate-400' : ''} ${mode === 'replace' && removeIds.has(t.id) ? 'line-through text-red-500' : ''}`}>
+                      {t.completed ? '✓ ' : ''}{t.text}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </fieldset>
+          )}
+        </div>
+
+        <div className="px-5 py-4 border-t border-slate-100 flex items-center justify-end gap-2">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={apply}
+            disabled={isLoading || (accepted.length === 0 && removing.length === 0)}
+            className="px-4 py-2 text-sm font-medium bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white rounded-lg transition-colors"
+            autoFocus
+          >
+            {`Add ${accepted.length} subtask${accepted.length === 1 ? '' : 's'}`}
+            {removing.length > 0 && `, remove ${removing.length}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,254 @@
+import React, { useState, useMemo, useDeferredValue, useEffect, useRef } from 'react';
+import { Task, Priority } from '../types';
+import { SearchIcon, CheckIcon, SparklesIcon, TrashIcon, ChevronRightIcon } from './Icons';
+import { buildSearchIndex, searchTasks, fuzzyMatch } from '../services/search';
+
+export interface PaletteCommand {
+  id: string;
+  label: string;
+  hint?: string;
+  run: () => void;
+}
+
+interface CommandPaletteProps {
+  tasks: Task[];
+  commands: PaletteCommand[];
+  onClose: () => void;
+  onJump: (id: string) => void;
+  onToggle: (id: string) => void;
+  onDelete: (id: string) => void;
+  onUpdatePriority: (id: string, priority: Priority) => void;
+  onAiBreakdown: (id: string) => void;
+}
+
+type PaletteItem =
+  | { kind: 'command'; command: PaletteCommand; matches: number[] }
+  | { kind: 'task'; task: Task; path: string[]; matches: number[] };
+
+const RECENT_LIMIT = 8;
+
+// Renders text with the fuzzy-matched characters emphasised
+const Highlighted: React.FC<{ text: string; matches: number[] }> = ({ text, matches }) => {
+  if (matches.length === 0) return <>{text}</>;
+  const matched = new Set(matches);
+  return (
+    <>
+      {text.split('').map((char, i) => matched.has(i)
+        ? <mark key={i} className="bg-transparent text-indigo-600 font-semibold">{char}</mark>
+        : <React.Fragment key={i}>{char}</React.Fragment>
+      )}
+    </>
+  );
+};
+
+export const CommandPalette: React.FC<CommandPaletteProps> = ({
+  tasks,
+  commands,
+  onClose,
+  onJump,
+  onToggle,
+  onDelete,
+  onUpdatePriority,
+  onAiBreakdown
+}) => {
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  // When set, the palette lists actions for this task instead of results
+  const [targetTask, setTargetTask] = useState<Task | null>(null);
+  const deferredQuery = useDeferredValue(query);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const index = useMemo(() => buildSearchIndex(tasks), [tasks]);
+
+  const items = useMemo((): PaletteItem[] => {
+    const needle = deferredQuery.trim().toLowerCase();
+    const commandItems = commands.flatMap((command): PaletteItem[] => {
+      const match = fuzzyMatch(needle, command.label.toLowerCase());
+      return match ? [{ kind: 'command', command, matches: match.matches }] : [];
+    });
+
+    if (!needle) {
+      const recent = index
+        .filter(entry => !entry.task.completed)
+        .sort((a, b) => b.task.createdAt - a.task.createdAt)
+        .slice(0, RECENT_LIMIT);
+      return [
+        ...recent.map((entry): PaletteItem => ({ kind: 'task', task: entry.task, path: entry.path, matches: [] })),
+        ...commandItems
+      ];
+    }
+
+    const taskItems = searchTasks(index, needle).map((result): PaletteItem => ({
+      kind: 'task',
+      task: result.entry.task,
+      path: result.entry.path,
+      matches: result.matches
+    }));
+    return [...taskItems, ...commandItems];
+  }, [deferredQuery, index, commands]);
+
+  const taskActions = useMemo((): PaletteCommand[] => {
+    if (!targetTask) return [];
+    const id = targetTask.id;
+    return [
+      { id: 'jump', label: 'Go to task', run: () => onJump(id) },
+      { id: 'toggle', label: targetTask.completed ? 'Reopen task' : 'Mark as complete', run: () => onToggle(id) },
+      { id: 'priority-high', label: 'Set priority: High', run: () => onUpdatePriority(id, Priority.HIGH) },
+      { id: 'priority-medium', label: 'Set priority: Medium', run: () => onUpdatePriority(id, Priority.MEDIUM) },
+      { id: 'priority-low', label: 'Set priority: Low', run: () => onUpdatePriority(id, Priority.LOW) },
+      { id: 'breakdown', label: 'Break down with AI', run: () => onAiBreakdown(id) },
+      { id: 'delete', label: 'Delete task', run: () => onDelete(id) },
+    ];
+  }, [targetTask, onJump, onToggle, onUpdatePriority, onAiBreakdown, onDelete]);
+
+  const itemCount = targetTask ? taskActions.length : items.length;
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [deferredQuery, targetTask]);
+
+  // Keep the active row visible while navigating with the keyboard
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${activeIndex}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const runAction = (action: PaletteCommand) => {
+    action.run();
+    onClose();
+  };
+
+  const selectItem = (item: PaletteItem) => {
+    if (item.kind === 'command') {
+      runAction(item.command);
+    } else {
+      onJump(item.task.id);
+      onClose();
+    }
+  };
+
+  const openActions = (item: PaletteItem | undefined) => {
+    if (item?.kind === 'task') {
+      setTargetTask(item.task);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(i => itemCount === 0 ? 0 : (i + 1) % itemCount);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(i => itemCount === 0 ? 0 : (i - 1 + itemCount) % itemCount);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      if (targetTask) {
+        if (taskActions[activeIndex]) runAction(taskActions[activeIndex]);
+      } else if (items[activeIndex]) {
+        selectItem(items[activeIndex]);
+      }
+    } else if (e.key === 'Tab' || (e.key === 'ArrowRight' && !targetTask && (e.target as HTMLInputElement).selectionStart === query.length)) {
+      e.preventDefault();
+      if (!targetTask) openActions(items[activeIndex]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      if (targetTask) {
+        setTargetTask(null);
+      } else {
+        onClose();
+      }
+    } else if (e.key === 'Backspace' && targetTask && !query) {
+      setTargetTask(null);
+    }
+  };
+
+  const rowClass = (active: boolean) => `
+    w-full flex items-center gap-3 px-4 py-2.5 text-left text-sm transition-colors
+    ${active ? 'bg-indigo-50 text-indigo-900' : 'text-slate-700 hover:bg-slate-50'}
+  `;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-start justify-center pt-[15vh] px-4 bg-slate-900/30 backdrop-blur-sm"
+      onMouseDown={onClose}
+    >
+      <div
+        className="w-full max-w-xl bg-white rounded-2xl shadow-2xl border border-slate-200 overflow-hidden"
+        onMouseDown={(e) => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+      >
+        <div className="flex items-center gap-3 px-4 border-b border-slate-100">
+          <SearchIcon className="w-4 h-4 text-slate-400" />
+          {targetTask && (
+            <span className="max-w-[40%] truncate text-xs font-medium px-2 py-0.5 rounded-full bg-indigo-50 text-indigo-700 border border-indigo-200">
+              {targetTask.text}
+            </span>
+          )}
+          <input
+            type="text"
+            value={targetTask ? '' : query}
+            onChange={(e) => !targetTask && setQuery(e.target.value)}
+            placeholder={targetTask ? 'Choose an action...' : 'Search tasks or run a command...'}
+            className="flex-1 py-4 text-sm bg-transparent focus:outline-none text-slate-800 placeholder:text-slate-400"
+            autoFocus
+          />
+          <kbd className="text-[10px] font-semibold text-slate-400 border border-slate-200 rounded px-1.5 py-0.5">Esc</kbd>
+        </div>
+
+        <div ref={listRef} className="max-h-[50vh] overflow-y-auto py-2">
+          {targetTask ? (
+            taskActions.map((action, i) => (
+              <button
+                key={action.id}
+                data-index={i}
+                onClick={() => runAction(action)}
+                onMouseMove={() => setActiveIndex(i)}
+                className={rowClass(i === activeIndex)}
+              >
+                {action.id === 'toggle' && <CheckIcon className="w-3.5 h-3.5 text-emerald-500" />}
+                {action.id === 'breakdown' && <SparklesIcon className="w-3.5 h-3.5 text-purple-500" />}
+                {action.id === 'delete' && <TrashIcon className="w-3.5 h-3.5 text-red-500" />}
+                {!['toggle', 'breakdown', 'delete'].includes(action.id) && <ChevronRightIcon className="w-3.5 h-3.5 text-slate-400" />}
+                <span className={action.id === 'delete' ? 'text-red-600' : ''}>{action.label}</span>
+              </button>
+            ))
+          ) : items.length === 0 ? (
+            <p className="px-4 py-8 text-center text-sm text-slate-400">No tasks or commands match "{query}"</p>
+          ) : (
+            items.map((item, i) => item.kind === 'command' ? (
+              <button
+                key={`command-${item.command.id}`}
+                data-index={i}
+                onClick={() => selectItem(item)}
+                onMouseMove={() => setActiveIndex(i)}
+                className={rowClass(i === activeIndex)}
+              >
+                <span className="text-[10px] font-semibold text-slate-400 uppercase tracking-wide w-16">Command</span>
+                <span className="flex-1"><Highlighted text={item.command.label} matches={item.matches} /></span>
+                {item.command.hint && <span className="text-xs text-slate-400">{item.command.hint}</span>}
+              </button>
+            ) : (
+              <button
+                key={item.task.id}
+                data-index={i}
+                onClick={() => selectItem(item)}
+                onMouseMove={() => setActiveIndex(i)}
+                className={rowClass(i === activeIndex)}
+              >
+                <span className={`w-2 h-2 flex-shrink-0 rounded-full ${item.task.completed ? 'bg-emerald-400' : 'bg-slate-300'}`} />
+                <span className="flex-1 min-w-0">
+                  {item.path.length > 0 && (
+                    <span className="block text-[11px] text-slate-400 truncate">{item.path.join(' › ')}</span>
+                  )}
+                  <span className={`block truncate ${item.task.completed ? 'line-through text-slate-400' : ''}`}>
+                    <Highlighted text={item.task.text} matches={item.matches} />
+                  </span>
+                </span>
+                {i === activeIndex && <span className="text-[10px] text-slate-400">Tab for actions</span>}
+              </button>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
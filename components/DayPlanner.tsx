@@ -0,0 +1,321 @@
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import { Task } from '../types';
+import { AiProvider, describeAiError, AiError, AiErrorKind } from '../services/ai';
+import {
+  PlanBlock,
+  WorkingHours,
+  buildPlanContext,
+  normalizePlan,
+  formatClock,
+  parseClock,
+  snapMinutes,
+  loadWorkingHours,
+  saveWorkingHours,
+  SNAP_MINUTES
+} from '../services/dayPlan';
+import { CalendarIcon, SparklesIcon, CheckIcon } from './Icons';
+
+interface DayPlannerProps {
+  tasks: Task[];
+  provider: AiProvider;
+  onAccept: (blocks: PlanBlock[], date: number) => void;
+  onClose: () => void;
+}
+
+const PX_PER_MINUTE = 1.2;
+
+// What the pointer is doing to a block while a button is held
+interface DragState {
+  taskId: string;
+  mode: 'move' | 'resize';
+  pointerY: number;
+  start: number;
+  end: number;
+}
+
+export const DayPlanner: React.FC<DayPlannerProps> = ({ tasks, provider, onAccept, onClose }) => {
+  const [date] = useState(() => Date.now());
+  const [hours, setHours] = useState<WorkingHours>(loadWorkingHours);
+  const [blocks, setBlocks] = useState<PlanBlock[] | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isPlanning, setIsPlanning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const context = useMemo(() => buildPlanContext(tasks, date, hours), [tasks, date, hours]);
+  const taskText = useMemo(() => new Map(context.tasks.map(t => [t.id, t.text])), [context]);
+  const unscheduled = context.tasks.filter(t => !blocks?.some(b => b.taskId === t.id));
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const updateHours = (field: keyof WorkingHours, value: string) => {
+    const minutes = parseClock(value);
+    if (minutes === undefined) return;
+    const next = { ...hours, [field]: minutes };
+    if (next.start >= next.end) return;
+    setHours(next);
+    saveWorkingHours(next);
+  };
+
+  const generate = async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsPlanning(true);
+    setError(null);
+    try {
+      const planned = normalizePlan(await provider.planDay(context, { signal: controller.signal }), context);
+      setBlocks(planned);
+      setSelected(new Set(planned.map(b => b.taskId)));
+    } catch (err) {
+      if (!(err instanceof AiError && err.kind === AiErrorKind.ABORTED)) {
+        console.error(err);
+        setError(describeAiError(err));
+      }
+    } finally {
+      if (abortRef.current === controller) setIsPlanning(false);
+    }
+  };
+
+  const updateBlock = (taskId: string, changes: Partial<PlanBlock>) => {
+    setBlocks(prev => prev && prev.map(b => (b.taskId === taskId ? { ...b, ...changes } : b)));
+  };
+
+  // Keeps a block inside working hours and at least one snap step long
+  const clampBlock = (start: number, end: number) => {
+    const length = Math.max(SNAP_MINUTES, end - start);
+    const clampedStart = Math.min(Math.max(start, hours.start), hours.end - length);
+    return { start: clampedStart, end: Math.min(clampedStart + length, hours.end) };
+  };
+
+  const beginDrag = (e: React.PointerEvent, block: PlanBlock, mode: DragState['mode']) => {
+    e.preventDefault();
+    e.stopPropagation();
+    (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+    dragRef.current = { taskId: block.taskId, mode, pointerY: e.clientY, start: block.start, end: block.end };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const delta = snapMinutes((e.clientY - drag.pointerY) / PX_PER_MINUTE);
+    updateBlock(drag.taskId, drag.mode === 'move'
+      ? clampBlock(drag.start + delta, drag.end + delta)
+      : clampBlock(drag.start, Math.max(drag.start + SNAP_MINUTES, drag.end + delta)));
+  };
+
+  const endDrag = () => {
+    dragRef.current = null;
+  };
+
+  // Arrow keys move a block; with Shift they change its length
+  const handleBlockKeyDown = (e: React.KeyboardEvent, block: PlanBlock) => {
+    if (e.key !== 'ArrowUp' && e.key !== 'ArrowDown') return;
+    e.preventDefault();
+    const step = e.key === 'ArrowUp' ? -SNAP_MINUTES : SNAP_MINUTES;
+    updateBlock(block.taskId, e.shiftKey
+      ? clampBlock(block.start, Math.max(block.start + SNAP_MINUTES, block.end + step))
+      : clampBlock(block.start + step, block.end + step));
+  };
+
+  const toggleSelected = (taskId: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(taskId)) next.delete(taskId);
+      else next.add(taskId);
+      return next;
+    });
+  };
+
+  const removeBlock = (taskId: string) => {
+    setBlocks(prev => prev && prev.filter(b => b.taskId !== taskId));
+    setSelected(prev => {
+      const next = new Set(prev);
+      next.delete(taskId);
+      return next;
+    });
+  };
+
+  // Adds a task the plan left out, in the first gap long enough for it
+  const scheduleTask = (taskId: string) => {
+    const length = 30;
+    const taken = [...(blocks ?? [])].sort((a, b) => a.start - b.start);
+    let start = hours.start;
+    for (const block of taken) {
+      if (block.start - start >= length) break;
+      start = Math.max(start, block.end);
+    }
+    if (start + length > hours.end) {
+      setError('No free slot left today. Shorten or remove a block first.');
+      return;
+    }
+    setBlocks(prev => [...(prev ?? []), { taskId, start, end: start + length }]);
+    setSelected(prev => new Set(prev).add(taskId));
+  };
+
+  const accepted = (blocks ?? []).filter(b => selected.has(b.taskId));
+  const hourMarks: number[] = [];
+  for (let m = Math.ceil(hours.start / 60) * 60; m <= hours.end; m += 60) hourMarks.push(m);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center px-4 bg-slate-900/30 backdrop-blur-sm" onMouseDown={onClose}>
+      <div
+        className="w-full max-w-2xl max-h-[90vh] flex flex-col bg-white rounded-2xl shadow-2xl border border-slate-200"
+        onMouseDown={(e) => e.stopPropagation()}
+        onKeyDown={(e) => e.key === 'Escape' && onClose()}
+      >
+        <div className="px-5 pt-5 pb-3 border-b border-slate-100 flex flex-wrap items-end justify-between gap-3">
+          <div>
+            <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+              <CalendarIcon className="w-4 h-4 text-indigo-500" />
+              Plan my day
+            </h2>
+            <p className="text-xs text-slate-500 mt-0.5">
+              {new Date(date).toLocaleDateString(undefined, { weekday: 'long', month: 'short', day: 'numeric' })}
+              {' · '}{context.tasks.length} active task{context.tasks.length === 1 ? '' : 's'}
+            </p>
+          </div>
+          <div className="flex items-center gap-2 text-xs text-slate-600">
+            <label className="flex items-center gap-1">
+              From
+              <input
+                type="time"
+                value={formatClock(hours.start)}
+                onChange={(e) => updateHours('start', e.target.value)}
+                className="border border-slate-200 rounded-md px-1.5 py-0.5"
+              />
+            </label>
+            <label className="flex items-center gap-1">
+              to
+              <input
+                type="time"
+                value={formatClock(hours.end)}
+                onChange={(e) => updateHours('end', e.target.value)}
+                className="border border-slate-200 rounded-md px-1.5 py-0.5"
+              />
+            </label>
+            <button
+              onClick={generate}
+              disabled={isPlanning || context.tasks.length === 0}
+              className="flex items-center gap-1.5 px-3 py-1.5 font-medium text-indigo-700 bg-indigo-50 hover:bg-indigo-100 disabled:opacity-50 rounded-lg border border-indigo-200 transition-colors"
+            >
+              <SparklesIcon className={`w-3.5 h-3.5 ${isPlanning ? 'animate-spin' : ''}`} />
+              {isPlanning ? 'Planning...' : blocks ? 'Replan' : 'Plan with AI'}
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-5 py-4 flex flex-col gap-4">
+          {error && <p className="text-xs text-red-600">{error}</p>}
+
+          {!blocks && !isPlanning && (
+            <p className="text-sm text-slate-400 text-center py-10">
+              {context.tasks.length === 0
+                ? 'Nothing left to plan for today.'
+                : `${provider.label} will arrange your active tasks into time blocks between ${formatClock(hours.start)} and ${formatClock(hours.end)}.`}
+            </p>
+          )}
+
+          {blocks && (
+            <div
+              className="relative ml-12 border-l border-slate-200 select-none"
+              style={{ height: (hours.end - hours.start) * PX_PER_MINUTE }}
+              onPointerMove={handlePointerMove}
+              onPointerUp={endDrag}
+              onPointerCancel={endDrag}
+            >
+              {hourMarks.map(m => (
+                <div key={m} className="absolute left-0 right-0 border-t border-slate-100" style={{ top: (m - hours.start) * PX_PER_MINUTE }}>
+                  <span className="absolute -left-12 -top-2 w-10 text-right text-[10px] text-slate-400">{formatClock(m)}</span>
+                </div>
+              ))}
+
+              {blocks.map(block => {
+                const isSelected = selected.has(block.taskId);
+                return (
+                  <div
+                    key={block.taskId}
+                    tabIndex={0}
+                    onPointerDown={(e) => beginDrag(e, block, 'move')}
+                    onKeyDown={(e) => handleBlockKeyDown(e, block)}
+                    className={`absolute left-2 right-2 rounded-lg border px-2 py-1 overflow-hidden cursor-grab active:cursor-grabbing focus:outline-none focus:ring-2 focus:ring-indigo-300 ${isSelected ? 'bg-indigo-50 border-indigo-200' : 'bg-slate-50 border-slate-200 opacity-60'}`}
+                    style={{ top: (block.start - hours.start) * PX_PER_MINUTE, height: (block.end - block.start) * PX_PER_MINUTE - 2 }}
+                    title="Drag to move, drag the bottom edge to resize. Arrow keys move, Shift+arrows resize."
+                  >
+                    <div className="flex items-start gap-2">
+                      <button
+                        onPointerDown={(e) => e.stopPropagation()}
+                        onClick={() => toggleSelected(block.taskId)}
+                        title={isSelected ? 'Leave out when accepting' : 'Include when accepting'}
+                        className={`mt-0.5 w-4 h-4 shrink-0 rounded border flex items-center justify-center ${isSelected ? 'bg-indigo-600 border-indigo-600 text-white' : 'border-slate-300 bg-white'}`}
+                      >
+                        {isSelected && <CheckIcon className="w-3 h-3" />}
+                      </button>
+                      <div className="flex-1 min-w-0">
+                        <p className="text-xs font-medium text-slate-800 truncate">{taskText.get(block.taskId)}</p>
+                        <p className="text-[10px] text-slate-500">
+                          {formatClock(block.start)}–{formatClock(block.end)}
+                          {block.note && <span className="text-slate-400"> · {block.note}</span>}
+                        </p>
+                      </div>
+                      <button
+                        onPointerDown={(e) => e.stopPropagation()}
+                        onClick={() => removeBlock(block.taskId)}
+                        title="Remove from plan"
+                        className="text-slate-400 hover:text-red-500 text-sm leading-none"
+                      >
+                        ×
+                      </button>
+                    </div>
+                    <div
+                      onPointerDown={(e) => beginDrag(e, block, 'resize')}
+                      className="absolute left-0 right-0 bottom-0 h-1.5 cursor-ns-resize hover:bg-indigo-200"
+                    />
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {blocks && unscheduled.length > 0 && (
+            <div>
+              <h3 className="text-[10px] font-semibold text-slate-500 uppercase tracking-wide mb-2">Not scheduled</h3>
+              <div className="flex flex-wrap gap-1.5">
+                {unscheduled.map(t => (
+                  <button
+                    key={t.id}
+                    onClick={() => scheduleTask(t.id)}
+                    title="Add to the first free slot"
+                    className="text-xs px-2 py-1 rounded-full border border-slate-200 text-slate-600 hover:border-indigo-300 hover:text-indigo-700"
+                  >
+                    + {t.text}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="px-5 py-4 border-t border-slate-100 flex items-center justify-between gap-2">
+          <p className="text-[10px] text-slate-400">Accepting sets a reminder at each block's start and a due time at its end.</p>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => onAccept(accepted, date)}
+              disabled={accepted.length === 0}
+              className="px-4 py-2 text-sm font-medium bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white rounded-lg transition-colors"
+            >
+              {`Accept ${accepted.length} block${accepted.length === 1 ? '' : 's'}`}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
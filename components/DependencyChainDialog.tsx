@@ -0,0 +1,82 @@
+import React, { useMemo } from 'react';
+import { Task } from '../types';
+import { getDependencyChain, DependencyNode } from '../services/dependencies';
+import { CheckIcon } from './Icons';
+
+interface DependencyChainDialogProps {
+  task: Task;
+  tasks: Task[];
+  onJump: (id: string) => void;
+  onClose: () => void;
+}
+
+const ChainTree: React.FC<{ nodes: DependencyNode[]; onJump: (id: string) => void }> = ({ nodes, onJump }) => (
+  <ul className="flex flex-col gap-1">
+    {nodes.map(({ task, children }) => (
+      <li key={task.id}>
+        <button
+          onClick={() => onJump(task.id)}
+          className="w-full text-left flex items-center gap-2 text-sm rounded-md px-1 -mx-1 hover:bg-slate-50 transition-colors"
+        >
+          {task.completed
+            ? <CheckIcon className="w-3.5 h-3.5 shrink-0 text-emerald-500" />
+            : <span className="w-2 h-2 mx-0.5 shrink-0 rounded-full bg-amber-400" />}
+          <span className={`truncate ${task.completed ? 'text-slate-400 line-through' : 'text-slate-700'}`}>{task.text}</span>
+        </button>
+        {children.length > 0 && (
+          <div className="ml-2 pl-3 mt-1 border-l border-slate-200">
+            <ChainTree nodes={children} onJump={onJump} />
+          </div>
+        )}
+      </li>
+    ))}
+  </ul>
+);
+
+/**
+ * Everything a task waits on, however indirectly, and everything waiting on
+ * it. Open tasks are marked amber.
+ */
+export const DependencyChainDialog: React.FC<DependencyChainDialogProps> = ({ task, tasks, onJump, onClose }) => {
+  const { upstream, downstream } = useMemo(() => getDependencyChain(tasks, task.id), [tasks, task.id]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center px-4 bg-slate-900/30 backdrop-blur-sm" onMouseDown={onClose}>
+      <div
+        className="w-full max-w-lg max-h-[85vh] flex flex-col bg-white rounded-2xl shadow-2xl border border-slate-200"
+        onMouseDown={(e) => e.stopPropagation()}
+        onKeyDown={(e) => e.key === 'Escape' && onClose()}
+      >
+        <div className="px-5 pt-5 pb-3 border-b border-slate-100">
+          <h2 className="text-lg font-bold text-slate-800">Dependencies</h2>
+          <p className="text-xs text-slate-500 mt-0.5 truncate">{task.text}</p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-5 py-4 flex flex-col gap-5">
+          <section className="flex flex-col gap-2">
+            <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wide">Waits on</h3>
+            {upstream.length > 0
+              ? <ChainTree nodes={upstream} onJump={onJump} />
+              : <p className="text-sm text-slate-400">Nothing; this task can start any time.</p>}
+          </section>
+          <section className="flex flex-col gap-2">
+            <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wide">Holds up</h3>
+            {downstream.length > 0
+              ? <ChainTree nodes={downstream} onJump={onJump} />
+              : <p className="text-sm text-slate-400">No other task waits on this one.</p>}
+          </section>
+        </div>
+
+        <div className="px-5 py-4 border-t border-slate-100 flex items-center justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+            autoFocus
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,144 @@
+import React, { useState, useMemo } from 'react';
+import { Task } from '../types';
+import { findDependencyCycle } from '../services/dependencies';
+import { CheckIcon, LinkIcon } from './Icons';
+
+interface DependencyEditorProps {
+  task: Task;
+  // Every task, not just the filtered ones, so any task can be linked
+  allTasks: Task[];
+  openBlockers: Task[];
+  onAddBlocker: (id: string, blockerId: string) => void;
+  onRemoveBlocker: (id: string, blockerId: string) => void;
+  onShowDependencies: (id: string) => void;
+}
+
+const MAX_CANDIDATES = 6;
+
+export const DependencyEditor: React.FC<DependencyEditorProps> = ({
+  task,
+  allTasks,
+  openBlockers,
+  onAddBlocker,
+  onRemoveBlocker,
+  onShowDependencies
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState('');
+
+  const blockers = (task.blockedBy || [])
+    .map(id => allTasks.find(t => t.id === id))
+    .filter((t): t is Task => !!t);
+
+  const candidates = useMemo(() => {
+    if (!isOpen) return [];
+    const needle = query.trim().toLowerCase();
+    return allTasks
+      .filter(t => t.id !== task.id && !t.completed && !task.blockedBy?.includes(t.id))
+      .filter(t => !needle || t.text.toLowerCase().includes(needle))
+      .slice(0, MAX_CANDIDATES)
+      .map(t => ({ task: t, cycle: findDependencyCycle(allTasks, task.id, t.id) }));
+  }, [isOpen, query, allTasks, task]);
+
+  const handleBlur = (e: React.FocusEvent<HTMLDivElement>) => {
+    if (!e.currentTarget.contains(e.relatedTarget)) {
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative" onBlur={handleBlur}>
+      <button
+        onClick={() => {
+          setQuery('');
+          setIsOpen(!isOpen);
+        }}
+        className={`
+          text-[10px] font-medium px-2 py-0.5 rounded-full border flex items-center gap-1 transition-all
+          ${openBlockers.length > 0
+            ? 'bg-amber-50 text-amber-700 border-amber-200'
+            : blockers.length > 0
+              ? 'bg-slate-50 text-slate-600 border-slate-200'
+              : 'text-slate-400 border-transparent opacity-0 group-hover:opacity-100 hover:border-slate-200'}
+        `}
+        title={openBlockers.length > 0
+          ? `Waiting on ${openBlockers.map(t => `"${t.text}"`).join(', ')}`
+          : 'Tasks this one waits on'}
+      >
+        <LinkIcon className="w-3 h-3" />
+        {openBlockers.length > 0
+          ? `Blocked by ${openBlockers.length}`
+          : blockers.length > 0 ? 'Unblocked' : 'Depends on'}
+      </button>
+
+      {isOpen && (
+        <div
+          onKeyDown={(e) => e.key === 'Escape' && setIsOpen(false)}
+          className="absolute left-0 top-full mt-1 z-20 w-64 p-3 bg-white border border-slate-200 rounded-xl shadow-lg flex flex-col gap-3"
+        >
+          {blockers.length > 0 && (
+            <div className="flex flex-col gap-1">
+              <span className="text-[10px] font-semibold text-slate-500 uppercase tracking-wide">Waits on</span>
+              {blockers.map(blocker => (
+                <div key={blocker.id} className="group/blocker flex items-center gap-1.5 text-xs">
+                  {blocker.completed
+                    ? <CheckIcon className="w-3 h-3 shrink-0 text-emerald-500" />
+                    : <span className="w-2 h-2 mx-0.5 shrink-0 rounded-full bg-amber-400" />}
+                  <span className={`flex-1 truncate ${blocker.completed ? 'text-slate-400 line-through' : 'text-slate-700'}`}>{blocker.text}</span>
+                  <button
+                    onClick={() => onRemoveBlocker(task.id, blocker.id)}
+                    className="text-slate-400 hover:text-red-500 opacity-0 group-hover/blocker:opacity-100 focus:opacity-100 transition-opacity"
+                    title="Remove link"
+                  >
+                    ×
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <label className="flex flex-col gap-1">
+            <span className="text-[10px] font-semibold text-slate-500 uppercase tracking-wide">Add a task this waits on</span>
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search tasks"
+              className="text-xs px-2 py-1.5 bg-slate-50 border border-slate-200 rounded-md focus:outline-none focus:border-indigo-400 text-slate-700"
+              autoFocus
+            />
+          </label>
+          <ul className="flex flex-col gap-0.5 -mt-2">
+            {candidates.map(({ task: candidate, cycle }) => (
+              <li key={candidate.id}>
+                <button
+                  onClick={() => {
+                    onAddBlocker(task.id, candidate.id);
+                    setQuery('');
+                  }}
+                  disabled={!!cycle}
+                  className="w-full text-left text-xs px-1.5 py-1 rounded-md text-slate-700 hover:bg-indigo-50 disabled:text-slate-400 disabled:hover:bg-transparent transition-colors truncate"
+                  title={cycle ? `Would make a loop: ${cycle.map(t => t.text).join(' → ')}` : undefined}
+                >
+                  {candidate.text}
+                  {cycle && <span className="ml-1 text-[10px]">(waits on this)</span>}
+                </button>
+              </li>
+            ))}
+            {candidates.length === 0 && <li className="text-[10px] text-slate-400 px-1.5 py-1">No matching open tasks</li>}
+          </ul>
+
+          <button
+            onClick={() => {
+              setIsOpen(false);
+              onShowDependencies(task.id);
+            }}
+            className="self-start text-xs font-medium text-slate-500 hover:text-indigo-600 transition-colors"
+          >
+            View dependency chain
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
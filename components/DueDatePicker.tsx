@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { Task } from '../types';
+import { CalendarIcon, BellIcon } from './Icons';
+import { formatDueDate, isOverdue, toDateTimeInputValue, fromDateTimeInputValue } from '../services/dateUtils';
+import { requestNotificationPermission } from '../hooks/useReminders';
+
+interface DueDatePickerProps {
+  task: Task;
+  onUpdateDates: (id: string, dates: { dueAt?: number; remindAt?: number }) => void;
+}
+
+export const DueDatePicker: React.FC<DueDatePickerProps> = ({ task, onUpdateDates }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const overdue = isOverdue(task);
+
+  const handleBlur = (e: React.FocusEvent<HTMLDivElement>) => {
+    if (!e.currentTarget.contains(e.relatedTarget)) {
+      setIsOpen(false);
+    }
+  };
+
+  const setDueAt = (value: string) => {
+    onUpdateDates(task.id, { dueAt: fromDateTimeInputValue(value), remindAt: task.remindAt });
+  };
+
+  const setRemindAt = (value: string) => {
+    const remindAt = fromDateTimeInputValue(value);
+    if (remindAt !== undefined) requestNotificationPermission();
+    onUpdateDates(task.id, { dueAt: task.dueAt, remindAt });
+  };
+
+  const hasDates = task.dueAt !== undefined || task.remindAt !== undefined;
+
+  return (
+    <div className="relative" onBlur={handleBlur}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`
+          text-[10px] font-medium px-2 py-0.5 rounded-full border flex items-center gap-1 transition-all
+          ${overdue
+            ? 'bg-red-50 text-red-700 border-red-200'
+            : hasDates
+              ? 'bg-slate-50 text-slate-600 border-slate-200'
+              : 'text-slate-400 border-transparent opacity-0 group-hover:opacity-100 hover:border-slate-200'}
+        `}
+        title="Set due date and reminder"
+      >
+        <CalendarIcon className="w-3 h-3" />
+        {task.dueAt !== undefined ? formatDueDate(task.dueAt) : 'Due date'}
+        {task.remindAt !== undefined && <BellIcon className="w-3 h-3" />}
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 top-full mt-1 z-20 w-64 p-3 bg-white border border-slate-200 rounded-xl shadow-lg flex flex-col gap-3">
+          <label className="flex flex-col gap-1">
+            <span className="text-[10px] font-semibold text-slate-500 uppercase tracking-wide">Due</span>
+            <input
+              type="datetime-local"
+              value={toDateTimeInputValue(task.dueAt)}
+              onChange={(e) => setDueAt(e.target.value)}
+              className="text-xs px-2 py-1.5 bg-slate-50 border border-slate-200 rounded-md focus:outline-none focus:border-indigo-400 text-slate-700"
+              autoFocus
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-[10px] font-semibold text-slate-500 uppercase tracking-wide">Remind me</span>
+            <input
+              type="datetime-local"
+              value={toDateTimeInputValue(task.remindAt)}
+              onChange={(e) => setRemindAt(e.target.value)}
+              className="text-xs px-2 py-1.5 bg-slate-50 border border-slate-200 rounded-md focus:outline-none focus:border-indigo-400 text-slate-700"
+            />
+          </label>
+          {hasDates && (
+            <button
+              onClick={() => {
+                onUpdateDates(task.id, {});
+                setIsOpen(false);
+              }}
+              className="self-end text-xs font-medium text-slate-500 hover:text-red-600 transition-colors"
+            >
+              Clear dates
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
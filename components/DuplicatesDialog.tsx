@@ -0,0 +1,127 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Task } from '../types';
+import { AiProvider, describeAiError } from '../services/ai';
+import { findDuplicateGroups, findSemanticPairs } from '../services/duplicates';
+import { formatDueDate } from '../services/dateUtils';
+import { SparklesIcon } from './Icons';
+
+interface DuplicatesDialogProps {
+  tasks: Task[];
+  provider: AiProvider;
+  onMerge: (ids: string[]) => void;
+  onJump: (id: string) => void;
+  onClose: () => void;
+}
+
+const groupKey = (group: Task[]) => group.map(t => t.id).sort().join(',');
+
+/**
+ * Lists groups of open tasks that look like duplicates, found by string
+ * similarity and, when the provider has embeddings, by meaning too. Each
+ * group merges into its oldest task.
+ */
+export const DuplicatesDialog: React.FC<DuplicatesDialogProps> = ({ tasks, provider, onMerge, onJump, onClose }) => {
+  const [semanticPairs, setSemanticPairs] = useState<[string, string][]>([]);
+  const [isCheckingMeaning, setIsCheckingMeaning] = useState(!!provider.embedTexts);
+  const [embeddingError, setEmbeddingError] = useState<string | null>(null);
+  // Groups the user said are not duplicates, for as long as the dialog is open
+  const [dismissed, setDismissed] = useState<Set<string>>(() => new Set());
+
+  useEffect(() => {
+    if (!provider.embedTexts) return;
+    const controller = new AbortController();
+    setIsCheckingMeaning(true);
+    findSemanticPairs(provider, tasks, { signal: controller.signal })
+      .then(setSemanticPairs)
+      .catch(err => {
+        if (!controller.signal.aborted) setEmbeddingError(describeAiError(err));
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsCheckingMeaning(false);
+      });
+    return () => controller.abort();
+  }, [tasks, provider]);
+
+  const groups = useMemo(
+    () => findDuplicateGroups(tasks, semanticPairs).filter(group => !dismissed.has(groupKey(group))),
+    [tasks, semanticPairs, dismissed]
+  );
+
+  const parentText = (task: Task) => tasks.find(t => t.id === task.parentId)?.text;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center px-4 bg-slate-900/30 backdrop-blur-sm" onMouseDown={onClose}>
+      <div
+        className="w-full max-w-lg max-h-[85vh] flex flex-col bg-white rounded-2xl shadow-2xl border border-slate-200"
+        onMouseDown={(e) => e.stopPropagation()}
+        onKeyDown={(e) => e.key === 'Escape' && onClose()}
+      >
+        <div className="px-5 pt-5 pb-3 border-b border-slate-100">
+          <h2 className="text-lg font-bold text-slate-800">Possible duplicates</h2>
+          <p className="text-xs text-slate-500 mt-0.5 flex items-center gap-1">
+            {isCheckingMeaning && <SparklesIcon className="w-3 h-3 animate-spin text-indigo-500" />}
+            {isCheckingMeaning
+              ? `Also comparing meaning with ${provider.label}...`
+              : 'Merging keeps the oldest task, the highest priority and every subtask.'}
+          </p>
+          {embeddingError && (
+            <p className="text-[10px] text-amber-600 mt-1">Only similar wording was checked. {embeddingError}</p>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-5 py-4 flex flex-col gap-3">
+          {groups.length === 0 && (
+            <p className="text-sm text-slate-400">{isCheckingMeaning ? 'No duplicates by wording so far.' : 'No duplicates found.'}</p>
+          )}
+          {groups.map(group => (
+            <section key={groupKey(group)} className="p-3 rounded-xl border border-slate-200 flex flex-col gap-2">
+              <ul className="flex flex-col gap-1">
+                {group.map((task, i) => (
+                  <li key={task.id}>
+                    <button
+                      onClick={() => onJump(task.id)}
+                      className="w-full text-left flex items-baseline gap-2 text-sm rounded-md px-1 -mx-1 hover:bg-slate-50 transition-colors"
+                    >
+                      <span className={`flex-1 truncate ${i === 0 ? 'font-medium text-slate-800' : 'text-slate-600'}`}>{task.text}</span>
+                      <span className="shrink-0 text-[10px] text-slate-400">
+                        {[
+                          i === 0 ? 'kept' : '',
+                          parentText(task) ? `in "${parentText(task)}"` : '',
+                          task.dueAt !== undefined ? `due ${formatDueDate(task.dueAt)}` : '',
+                        ].filter(Boolean).join(' · ')}
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+              <div className="flex justify-end gap-2">
+                <button
+                  onClick={() => setDismissed(prev => new Set(prev).add(groupKey(group)))}
+                  className="px-3 py-1 text-xs font-medium text-slate-500 hover:bg-slate-100 rounded-lg transition-colors"
+                >
+                  Not duplicates
+                </button>
+                <button
+                  onClick={() => onMerge(group.map(t => t.id))}
+                  className="px-3 py-1 text-xs font-medium bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg transition-colors"
+                >
+                  Merge {group.length} tasks
+                </button>
+              </div>
+            </section>
+          ))}
+        </div>
+
+        <div className="px-5 py-4 border-t border-slate-100 flex items-center justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+            autoFocus
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
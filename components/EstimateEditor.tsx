@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { Task } from '../types';
+import { AiEstimate } from '../services/ai';
+import { formatMinutes, parseMinutes } from '../services/effort';
+import { ClockIcon, SparklesIcon } from './Icons';
+
+interface EstimateEditorProps {
+  task: Task;
+  // Sum of the subtasks' estimates, offered when the task has none of its own
+  subtaskEstimate?: number;
+  onUpdateEstimate: (id: string, minutes?: number, isAiGenerated?: boolean) => void;
+  onSuggestEstimate: (id: string) => Promise<AiEstimate | null>;
+}
+
+const PRESETS = [15, 30, 60, 120];
+
+export const EstimateEditor: React.FC<EstimateEditorProps> = ({ task, subtaskEstimate, onUpdateEstimate, onSuggestEstimate }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [isSuggesting, setIsSuggesting] = useState(false);
+  // The AI's suggestion stays marked as such unless the user changes it
+  const [suggestion, setSuggestion] = useState<AiEstimate | null>(null);
+
+  const handleBlur = (e: React.FocusEvent<HTMLDivElement>) => {
+    if (!e.currentTarget.contains(e.relatedTarget)) {
+      setIsOpen(false);
+    }
+  };
+
+  const open = () => {
+    setDraft(task.estimateMinutes ? formatMinutes(task.estimateMinutes) : '');
+    setSuggestion(null);
+    setIsOpen(!isOpen);
+  };
+
+  const commit = (minutes?: number) => {
+    onUpdateEstimate(task.id, minutes, minutes !== undefined && minutes === suggestion?.minutes);
+    setIsOpen(false);
+  };
+
+  const suggest = async () => {
+    setIsSuggesting(true);
+    const estimate = await onSuggestEstimate(task.id);
+    setIsSuggesting(false);
+    if (!estimate) return;
+    setDraft(formatMinutes(estimate.minutes));
+    setSuggestion(estimate);
+  };
+
+  const parsed = parseMinutes(draft);
+  const shown = task.estimateMinutes ?? subtaskEstimate;
+
+  return (
+    <div className="relative" onBlur={handleBlur}>
+      <button
+        onClick={open}
+        className={`
+          text-[10px] font-medium px-2 py-0.5 rounded-full border flex items-center gap-1 transition-all
+          ${task.estimateMinutes
+            ? 'bg-slate-50 text-slate-600 border-slate-200'
+            : shown
+              ? 'text-slate-500 border-dashed border-slate-200'
+              : 'text-slate-400 border-transparent opacity-0 group-hover:opacity-100 hover:border-slate-200'}
+        `}
+        title={task.estimateMinutes ? 'Estimate' : shown ? 'Estimated from subtasks' : 'Set an estimate'}
+      >
+        {task.isEstimateAiGenerated ? <SparklesIcon className="w-3 h-3 text-purple-500" /> : <ClockIcon className="w-3 h-3" />}
+        {shown ? `~${formatMinutes(shown)}` : 'Estimate'}
+      </button>
+
+      {isOpen && (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (parsed) commit(parsed);
+          }}
+          onKeyDown={(e) => e.key === 'Escape' && setIsOpen(false)}
+          className="absolute left-0 top-full mt-1 z-20 w-64 p-3 bg-white border border-slate-200 rounded-xl shadow-lg flex flex-col gap-3"
+        >
+          <label className="flex flex-col gap-1">
+            <span className="text-[10px] font-semibold text-slate-500 uppercase tracking-wide">Estimate</span>
+            <input
+              type="text"
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              placeholder='e.g. 45, 1h 30m or 2h'
+              className={`text-xs px-2 py-1.5 bg-slate-50 border rounded-md focus:outline-none focus:border-indigo-400 text-slate-700 ${draft && !parsed ? 'border-red-300' : 'border-slate-200'}`}
+              autoFocus
+            />
+          </label>
+          <div className="flex gap-1">
+            {PRESETS.map(minutes => (
+              <button
+                key={minutes}
+                type="button"
+                onClick={() => commit(minutes)}
+                className="flex-1 text-[10px] font-medium py-1 rounded-md border border-slate-200 text-slate-600 hover:border-indigo-300 hover:text-indigo-600 transition-colors"
+              >
+                {formatMinutes(minutes)}
+              </button>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={suggest}
+            disabled={isSuggesting}
+            className="flex items-center justify-center gap-1.5 text-xs font-medium py-1.5 rounded-md text-purple-700 bg-purple-50 hover:bg-purple-100 disabled:opacity-50 border border-purple-100 transition-colors"
+          >
+            <SparklesIcon className={`w-3.5 h-3.5 ${isSuggesting ? 'animate-spin' : ''}`} />
+            {isSuggesting ? 'Estimating...' : 'Suggest with AI'}
+          </button>
+          {suggestion?.rationale && <p className="text-[10px] text-slate-500">{suggestion.rationale}</p>}
+          <div className="flex items-center justify-between">
+            {task.estimateMinutes ? (
+              <button
+                type="button"
+                onClick={() => commit(undefined)}
+                className="text-xs font-medium text-slate-500 hover:text-red-600 transition-colors"
+              >
+                Clear
+              </button>
+            ) : <span />}
+            <button
+              type="submit"
+              disabled={!parsed}
+              className="px-2 py-1 bg-indigo-600 text-white text-xs font-medium rounded-md hover:bg-indigo-700 disabled:opacity-50"
+            >
+              Save
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,134 @@
+import React, { useMemo } from 'react';
+import { Task } from '../types';
+import { buildDriftReport, describeDrift, formatMinutes, DriftSummary } from '../services/effort';
+import { ChartIcon, SparklesIcon } from './Icons';
+
+interface EstimateReportProps {
+  tasks: Task[];
+  onJump: (id: string) => void;
+  onClose: () => void;
+}
+
+const MAX_ENTRIES = 10;
+
+const driftColor = (ratio: number) =>
+  ratio > 1.25 ? 'text-red-600' : ratio < 0.8 ? 'text-blue-600' : 'text-emerald-600';
+
+const SummaryTable: React.FC<{ title: string; rows: DriftSummary[] }> = ({ title, rows }) => {
+  if (rows.length === 0) return null;
+  // Bars share one scale so rows can be compared at a glance
+  const max = Math.max(...rows.flatMap(r => [r.estimateMinutes, r.actualMinutes]));
+  return (
+    <section>
+      <h3 className="text-[10px] font-semibold text-slate-500 uppercase tracking-wide mb-2">{title}</h3>
+      <ul className="flex flex-col gap-2">
+        {rows.map(row => (
+          <li key={row.label} className="text-xs">
+            <div className="flex items-center justify-between mb-1">
+              <span className="font-medium text-slate-700 capitalize">
+                {row.label} <span className="font-normal text-slate-400">({row.count})</span>
+              </span>
+              <span className={`font-semibold ${driftColor(row.ratio)}`}>{describeDrift(row.ratio)}</span>
+            </div>
+            <div className="flex flex-col gap-0.5">
+              <div className="h-1.5 rounded-full bg-slate-300" style={{ width: `${(row.estimateMinutes / max) * 100}%` }} title={`Estimated ${formatMinutes(row.estimateMinutes)}`} />
+              <div className="h-1.5 rounded-full bg-indigo-500" style={{ width: `${(row.actualMinutes / max) * 100}%` }} title={`Tracked ${formatMinutes(row.actualMinutes)}`} />
+            </div>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+};
+
+/**
+ * Where estimates drift: completed tasks that have both an estimate and
+ * tracked time, summarized overall, by who made the estimate, by priority
+ * and by tag, with the biggest misses listed.
+ */
+export const EstimateReport: React.FC<EstimateReportProps> = ({ tasks, onJump, onClose }) => {
+  const report = useMemo(() => buildDriftReport(tasks), [tasks]);
+  const { overall, entries } = report;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center px-4 bg-slate-900/30 backdrop-blur-sm" onMouseDown={onClose}>
+      <div
+        className="w-full max-w-lg max-h-[85vh] flex flex-col bg-white rounded-2xl shadow-2xl border border-slate-200"
+        onMouseDown={(e) => e.stopPropagation()}
+        onKeyDown={(e) => e.key === 'Escape' && onClose()}
+      >
+        <div className="px-5 pt-5 pb-3 border-b border-slate-100">
+          <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <ChartIcon className="w-4 h-4 text-indigo-500" />
+            Estimates vs. actual
+          </h2>
+          <p className="text-xs text-slate-500 mt-0.5">
+            {overall
+              ? `${overall.count} finished task${overall.count === 1 ? '' : 's'} with an estimate and tracked time`
+              : 'Nothing to compare yet'}
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-5 py-4 flex flex-col gap-5">
+          {!overall ? (
+            <p className="text-sm text-slate-400">
+              Give tasks an estimate, track time on them with the timer, and complete them to see how your estimates hold up.
+            </p>
+          ) : (
+            <>
+              <div className="grid grid-cols-3 gap-2 text-center">
+                <div className="p-2 rounded-lg bg-slate-50 border border-slate-100">
+                  <div className="text-[10px] font-semibold text-slate-500 uppercase tracking-wide">Estimated</div>
+                  <div className="text-sm font-bold text-slate-800">{formatMinutes(overall.estimateMinutes)}</div>
+                </div>
+                <div className="p-2 rounded-lg bg-slate-50 border border-slate-100">
+                  <div className="text-[10px] font-semibold text-slate-500 uppercase tracking-wide">Tracked</div>
+                  <div className="text-sm font-bold text-slate-800">{formatMinutes(overall.actualMinutes)}</div>
+                </div>
+                <div className="p-2 rounded-lg bg-slate-50 border border-slate-100">
+                  <div className="text-[10px] font-semibold text-slate-500 uppercase tracking-wide">Drift</div>
+                  <div className={`text-sm font-bold ${driftColor(overall.ratio)}`}>{describeDrift(overall.ratio)}</div>
+                </div>
+              </div>
+
+              <SummaryTable title="By estimate source" rows={report.bySource} />
+              <SummaryTable title="By priority" rows={report.byPriority} />
+              <SummaryTable title="By tag" rows={report.byTag} />
+
+              <section>
+                <h3 className="text-[10px] font-semibold text-slate-500 uppercase tracking-wide mb-2">Biggest misses</h3>
+                <ul className="flex flex-col gap-1">
+                  {entries.slice(0, MAX_ENTRIES).map(entry => (
+                    <li key={entry.task.id}>
+                      <button
+                        onClick={() => onJump(entry.task.id)}
+                        className="w-full flex items-center gap-2 px-2 py-1.5 rounded-lg text-left text-xs hover:bg-slate-50 transition-colors"
+                      >
+                        {entry.task.isEstimateAiGenerated && <SparklesIcon className="w-3 h-3 shrink-0 text-purple-500" />}
+                        <span className="flex-1 truncate text-slate-700">{entry.task.text}</span>
+                        <span className="shrink-0 text-slate-400 tabular-nums">
+                          {formatMinutes(entry.estimateMinutes)} → {formatMinutes(entry.actualMinutes)}
+                        </span>
+                        <span className={`shrink-0 w-20 text-right font-semibold ${driftColor(entry.ratio)}`}>{describeDrift(entry.ratio)}</span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            </>
+          )}
+        </div>
+
+        <div className="px-5 py-4 border-t border-slate-100 flex items-center justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+            autoFocus
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import { ImportPlan, ConflictPolicy, ImportEntry, countImportChanges } from '../services/importValidation';
+import { ChevronDownIcon, ChevronRightIcon } from './Icons';
+
+interface ImportPreviewDialogProps {
+  fileName: string;
+  plan: ImportPlan;
+  onConfirm: (policy: ConflictPolicy) => void;
+  onCancel: () => void;
+}
+
+const policyOptions = [
+  { value: ConflictPolicy.KEEP_MINE, label: 'Keep mine', description: 'Ignore the imported copy' },
+  { value: ConflictPolicy.TAKE_THEIRS, label: 'Take theirs', description: 'Overwrite with the imported copy' },
+  { value: ConflictPolicy.KEEP_BOTH, label: 'Keep both', description: 'Add the imported copy as a new task' },
+];
+
+interface SectionProps {
+  title: string;
+  count: number;
+  tone: string;
+  defaultOpen?: boolean;
+  children: React.ReactNode;
+}
+
+const Section: React.FC<SectionProps> = ({ title, count, tone, defaultOpen = false, children }) => {
+  const [isOpen, setIsOpen] = useState(defaultOpen);
+  if (count === 0) return null;
+
+  return (
+    <div className="border border-slate-100 rounded-xl">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center gap-2 px-3 py-2 text-sm font-medium text-slate-700"
+      >
+        {isOpen ? <ChevronDownIcon className="w-4 h-4 text-slate-400" /> : <ChevronRightIcon className="w-4 h-4 text-slate-400" />}
+        <span className="flex-1 text-left">{title}</span>
+        <span className={`text-xs font-semibold px-2 py-0.5 rounded-full border ${tone}`}>{count}</span>
+      </button>
+      {isOpen && <ul className="px-3 pb-3 flex flex-col gap-1.5 max-h-48 overflow-y-auto">{children}</ul>}
+    </div>
+  );
+};
+
+const EntryRow: React.FC<{ entry: ImportEntry; detail?: string }> = ({ entry, detail }) => (
+  <li className="text-xs text-slate-600">
+    <span className="font-medium text-slate-800">{entry.task.text}</span>
+    {detail && <span className="text-slate-400"> · {detail}</span>}
+    {entry.warnings.map(warning => (
+      <span key={warning} className="block text-amber-600">⚠ {warning}</span>
+    ))}
+  </li>
+);
+
+export const ImportPreviewDialog: React.FC<ImportPreviewDialogProps> = ({ fileName, plan, onConfirm, onCancel }) => {
+  const [policy, setPolicy] = useState<ConflictPolicy>(ConflictPolicy.KEEP_MINE);
+  const changeCount = countImportChanges(plan, policy);
+  const warningCount = [...plan.added, ...plan.changed, ...plan.conflicts]
+    .filter(entry => entry.warnings.length > 0).length;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center px-4 bg-slate-900/30 backdrop-blur-sm" onMouseDown={onCancel}>
+      <div
+        className="w-full max-w-lg max-h-[85vh] flex flex-col bg-white rounded-2xl shadow-2xl border border-slate-200"
+        onMouseDown={(e) => e.stopPropagation()}
+        onKeyDown={(e) => e.key === 'Escape' && onCancel()}
+      >
+        <div className="px-5 pt-5 pb-3 border-b border-slate-100">
+          <h2 className="text-lg font-bold text-slate-800">Import preview</h2>
+          <p className="text-xs text-slate-500 mt-0.5 truncate">{fileName}</p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-5 py-4 flex flex-col gap-2">
+          <Section title="New tasks" count={plan.added.length} tone="bg-emerald-50 text-emerald-700 border-emerald-200" defaultOpen>
+            {plan.added.map(entry => <EntryRow key={entry.task.id} entry={entry} />)}
+          </Section>
+
+          <Section title="Updated in file" count={plan.changed.length} tone="bg-indigo-50 text-indigo-700 border-indigo-200">
+            {plan.changed.map(entry => (
+              <EntryRow
+                key={entry.task.id}
+                entry={entry}
+                detail={entry.local.text !== entry.task.text ? `was "${entry.local.text}"` : 'newer copy'}
+              />
+            ))}
+          </Section>
+
+          <Section title="Conflicts" count={plan.conflicts.length} tone="bg-amber-50 text-amber-700 border-amber-200" defaultOpen>
+            {plan.conflicts.map(entry => (
+              <EntryRow
+                key={entry.task.id}
+                entry={entry}
+                detail={entry.local.text !== entry.task.text ? `mine: "${entry.local.text}"` : 'details differ'}
+              />
+            ))}
+          </Section>
+
+          <Section title="Already up to date" count={plan.unchanged.length} tone="bg-slate-50 text-slate-500 border-slate-200">
+            {plan.unchanged.map(entry => <EntryRow key={entry.task.id} entry={entry} />)}
+          </Section>
+
+          <Section title="Invalid records" count={plan.invalid.length} tone="bg-red-50 text-red-700 border-red-200" defaultOpen>
+            {plan.invalid.map(record => (
+              <li key={record.index} className="text-xs text-slate-600">
+                <span className="font-medium text-slate-800">
+                  #{record.index + 1}{record.text ? ` "${record.text}"` : record.id ? ` (${record.id})` : ''}
+                </span>
+                {record.errors.map(error => (
+                  <span key={error} className="block text-red-600">✕ {error}</span>
+                ))}
+              </li>
+            ))}
+          </Section>
+
+          {plan.conflicts.length > 0 && (
+            <fieldset className="mt-2">
+              <legend className="text-[10px] font-semibold text-slate-500 uppercase tracking-wide mb-2">When both sides changed</legend>
+              <div className="grid grid-cols-3 gap-2">
+                {policyOptions.map(option => (
+                  <label
+                    key={option.value}
+                    className={`flex flex-col gap-0.5 p-2 rounded-lg border cursor-pointer transition-colors ${policy === option.value ? 'border-indigo-300 bg-indigo-50' : 'border-slate-200 hover:border-indigo-200'}`}
+                  >
+                    <span className="flex items-center gap-1.5 text-xs font-semibold text-slate-700">
+                      <input
+                        type="radio"
+                        name="conflict-policy"
+                        checked={policy === option.value}
+                        onChange={() => setPolicy(option.value)}
+                        className="accent-indigo-600"
+                      />
+                      {option.label}
+                    </span>
+                    <span className="text-[10px] text-slate-500">{option.description}</span>
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+          )}
+
+          {warningCount > 0 && (
+            <p className="text-xs text-amber-600">{warningCount} task{warningCount === 1 ? ' was' : 's were'} repaired during import (see warnings above).</p>
+          )}
+        </div>
+
+        <div className="px-5 py-4 border-t border-slate-100 flex items-center justify-end gap-2">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onConfirm(policy)}
+            disabled={changeCount === 0}
+            className="px-4 py-2 text-sm font-medium bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white rounded-lg transition-colors"
+            autoFocus
+          >
+            {changeCount === 0 ? 'Nothing to import' : `Import ${changeCount} task${changeCount === 1 ? '' : 's'}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
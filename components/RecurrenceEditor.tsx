@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import { Task, Recurrence, RecurrenceFrequency } from '../types';
+import { RepeatIcon } from './Icons';
+import { describeRecurrence, WEEKDAY_LABELS } from '../services/recurrence';
+import { toDateTimeInputValue, fromDateTimeInputValue, endOfDay } from '../services/dateUtils';
+
+interface RecurrenceEditorProps {
+  task: Task;
+  onUpdateRecurrence: (id: string, recurrence?: Recurrence) => void;
+}
+
+type EndCondition = 'never' | 'until' | 'count';
+
+const inputClass = "text-xs px-2 py-1.5 bg-slate-50 border border-slate-200 rounded-md focus:outline-none focus:border-indigo-400 text-slate-700";
+
+export const RecurrenceEditor: React.FC<RecurrenceEditorProps> = ({ task, onUpdateRecurrence }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const { recurrence } = task;
+  const history = task.completionHistory || [];
+
+  const handleBlur = (e: React.FocusEvent<HTMLDivElement>) => {
+    if (!e.currentTarget.contains(e.relatedTarget)) {
+      setIsOpen(false);
+    }
+  };
+
+  const update = (changes: Partial<Recurrence>) => {
+    const base: Recurrence = recurrence || { frequency: RecurrenceFrequency.WEEKLY, interval: 1 };
+    onUpdateRecurrence(task.id, { ...base, ...changes });
+  };
+
+  const endCondition: EndCondition = recurrence?.count !== undefined
+    ? 'count'
+    : recurrence?.until !== undefined ? 'until' : 'never';
+
+  const setEndCondition = (value: EndCondition) => {
+    if (value === 'never') update({ count: undefined, until: undefined });
+    if (value === 'count') update({ count: 5, until: undefined });
+    if (value === 'until') update({ count: undefined, until: endOfDay(Date.now() + 30 * 24 * 60 * 60 * 1000) });
+  };
+
+  const toggleWeekday = (day: number) => {
+    const current = recurrence?.byWeekday || [];
+    const byWeekday = current.includes(day) ? current.filter(d => d !== day) : [...current, day];
+    update({ byWeekday: byWeekday.length > 0 ? byWeekday : undefined });
+  };
+
+  // Only offered on open tasks; a completed occurrence has handed its schedule on
+  if (!recurrence && (task.completed || history.length > 0)) {
+    return history.length > 0 ? (
+      <span
+        className="text-[10px] text-slate-500 bg-slate-50 px-2 py-0.5 rounded-full border border-slate-200 flex items-center gap-1"
+        title={history.map(time => new Date(time).toLocaleString()).join('\n')}
+      >
+        <RepeatIcon className="w-3 h-3" /> Done {history.length}×
+      </span>
+    ) : null;
+  }
+
+  return (
+    <div className="relative" onBlur={handleBlur}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`
+          text-[10px] font-medium px-2 py-0.5 rounded-full border flex items-center gap-1 transition-all
+          ${recurrence
+            ? 'bg-emerald-50 text-emerald-700 border-emerald-200'
+            : 'text-slate-400 border-transparent opacity-0 group-hover:opacity-100 hover:border-slate-200'}
+        `}
+        title={history.length > 0 ? `Completed ${history.length}×` : 'Repeat'}
+      >
+        <RepeatIcon className="w-3 h-3" />
+        {recurrence ? describeRecurrence(recurrence) : 'Repeat'}
+        {history.length > 0 && <span className="text-emerald-500">· {history.length}×</span>}
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 top-full mt-1 z-20 w-72 p-3 bg-white border border-slate-200 rounded-xl shadow-lg flex flex-col gap-3">
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-slate-500">Every</span>
+            <input
+              type="number"
+              min={1}
+              value={recurrence?.interval ?? 1}
+              onChange={(e) => update({ interval: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+              className={`${inputClass} w-14`}
+              autoFocus
+            />
+            <select
+              value={recurrence?.frequency ?? RecurrenceFrequency.WEEKLY}
+              onChange={(e) => update({ frequency: e.target.value as RecurrenceFrequency, byWeekday: undefined })}
+              className={`${inputClass} flex-1`}
+            >
+              <option value={RecurrenceFrequency.DAILY}>day(s)</option>
+              <option value={RecurrenceFrequency.WEEKLY}>week(s)</option>
+              <option value={RecurrenceFrequency.MONTHLY}>month(s)</option>
+              <option value={RecurrenceFrequency.YEARLY}>year(s)</option>
+            </select>
+          </div>
+
+          {(recurrence?.frequency ?? RecurrenceFrequency.WEEKLY) === RecurrenceFrequency.WEEKLY && (
+            <div className="flex gap-1">
+              {WEEKDAY_LABELS.map((label, day) => (
+                <button
+                  key={label}
+                  onClick={() => toggleWeekday(day)}
+                  className={`flex-1 text-[10px] font-semibold py-1 rounded-md border transition-colors ${recurrence?.byWeekday?.includes(day) ? 'bg-indigo-50 text-indigo-700 border-indigo-200' : 'text-slate-500 border-slate-200 hover:border-indigo-200'}`}
+                >
+                  {label.charAt(0)}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <div className="flex flex-col gap-1">
+            <span className="text-[10px] font-semibold text-slate-500 uppercase tracking-wide">Ends</span>
+            <div className="flex items-center gap-2">
+              <select
+                value={endCondition}
+                onChange={(e) => setEndCondition(e.target.value as EndCondition)}
+                className={inputClass}
+              >
+                <option value="never">Never</option>
+                <option value="until">On date</option>
+                <option value="count">After</option>
+              </select>
+              {endCondition === 'until' && (
+                <input
+                  type="date"
+                  value={toDateTimeInputValue(recurrence?.until).split('T')[0]}
+                  onChange={(e) => {
+                    const until = fromDateTimeInputValue(e.target.value ? `${e.target.value}T00:00` : '');
+                    if (until !== undefined) update({ until: endOfDay(until) });
+                  }}
+                  className={`${inputClass} flex-1`}
+                />
+              )}
+              {endCondition === 'count' && (
+                <>
+                  <input
+                    type="number"
+                    min={1}
+                    value={recurrence?.count ?? 1}
+                    onChange={(e) => update({ count: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                    className={`${inputClass} w-16`}
+                  />
+                  <span className="text-xs text-slate-500">times</span>
+                </>
+              )}
+            </div>
+          </div>
+
+          {!task.dueAt && (
+            <p className="text-[10px] text-slate-400">
+              Without a due date, the next occurrence is scheduled from the completion date.
+            </p>
+          )}
+
+          {recurrence && (
+            <button
+              onClick={() => {
+                onUpdateRecurrence(task.id, undefined);
+                setIsOpen(false);
+              }}
+              className="self-end text-xs font-medium text-slate-500 hover:text-red-600 transition-colors"
+            >
+              Stop repeating
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,86 @@
+import React from 'react';
+import { ShortcutAction, ShortcutMap } from '../types';
+import { SHORTCUT_LABELS, shortcutFromEvent } from '../services/shortcuts';
+
+interface ShortcutHelpProps {
+  shortcuts: ShortcutMap;
+  onCustomize: () => void;
+  onClose: () => void;
+}
+
+// App-wide keys that can't be remapped
+const FIXED_SHORTCUTS: [string, string][] = [
+  ['Ctrl+K', 'Search and commands'],
+  ['Ctrl+Z', 'Undo'],
+  ['Ctrl+Shift+Z', 'Redo'],
+  ['Arrows', 'Move a task by its drag handle'],
+  ['Esc', 'Close a dialog or stop editing'],
+];
+
+const Key: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <kbd className="px-1.5 py-0.5 text-[11px] font-mono font-medium text-slate-600 bg-slate-50 border border-slate-200 rounded shadow-sm">
+    {children}
+  </kbd>
+);
+
+/**
+ * Every keyboard shortcut at a glance. Task shortcuts work once a task is
+ * focused, by clicking it or pressing the "next task" key.
+ */
+export const ShortcutHelp: React.FC<ShortcutHelpProps> = ({ shortcuts, onCustomize, onClose }) => (
+  <div className="fixed inset-0 z-50 flex items-center justify-center px-4 bg-slate-900/30 backdrop-blur-sm" onMouseDown={onClose}>
+    <div
+      className="w-full max-w-lg max-h-[85vh] flex flex-col bg-white rounded-2xl shadow-2xl border border-slate-200"
+      onMouseDown={(e) => e.stopPropagation()}
+      onKeyDown={(e) => (e.key === 'Escape' || shortcutFromEvent(e) === shortcuts[ShortcutAction.HELP]) && onClose()}
+    >
+      <div className="px-5 pt-5 pb-3 border-b border-slate-100">
+        <h2 className="text-lg font-bold text-slate-800">Keyboard shortcuts</h2>
+        <p className="text-xs text-slate-500 mt-0.5">
+          Press <Key>{shortcuts[ShortcutAction.NEXT]}</Key> to start moving through your tasks
+        </p>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-5 py-4 flex flex-col gap-5">
+        <section>
+          <h3 className="text-[10px] font-semibold text-slate-500 uppercase tracking-wide mb-2">Tasks</h3>
+          <dl className="grid grid-cols-2 gap-x-4 gap-y-1.5 text-xs">
+            {(Object.values(ShortcutAction) as ShortcutAction[]).map(action => (
+              <div key={action} className="flex items-center justify-between gap-2">
+                <dt className="text-slate-600">{SHORTCUT_LABELS[action]}</dt>
+                <dd><Key>{shortcuts[action]}</Key></dd>
+              </div>
+            ))}
+          </dl>
+        </section>
+        <section>
+          <h3 className="text-[10px] font-semibold text-slate-500 uppercase tracking-wide mb-2">Everywhere</h3>
+          <dl className="grid grid-cols-2 gap-x-4 gap-y-1.5 text-xs">
+            {FIXED_SHORTCUTS.map(([key, label]) => (
+              <div key={key} className="flex items-center justify-between gap-2">
+                <dt className="text-slate-600">{label}</dt>
+                <dd><Key>{key}</Key></dd>
+              </div>
+            ))}
+          </dl>
+        </section>
+      </div>
+
+      <div className="px-5 py-4 border-t border-slate-100 flex items-center justify-between gap-2">
+        <button
+          onClick={onCustomize}
+          className="px-3 py-2 text-sm font-medium text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors"
+        >
+          Customize keys
+        </button>
+        <button
+          onClick={onClose}
+          className="px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+          autoFocus
+        >
+          Close
+        </button>
+      </div>
+    </div>
+  </div>
+);
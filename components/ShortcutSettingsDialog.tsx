@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { ShortcutAction, ShortcutMap } from '../types';
+import { DEFAULT_SHORTCUTS, SHORTCUT_LABELS, shortcutFromEvent, findShortcutAction } from '../services/shortcuts';
+
+interface ShortcutSettingsDialogProps {
+  shortcuts: ShortcutMap;
+  onSave: (shortcuts: ShortcutMap) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Remaps the task shortcuts: click a key, then press the new one. A key
+ * already in use is refused rather than silently taken from its action.
+ */
+export const ShortcutSettingsDialog: React.FC<ShortcutSettingsDialogProps> = ({ shortcuts, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<ShortcutMap>(shortcuts);
+  // The action waiting for its new key
+  const [recording, setRecording] = useState<ShortcutAction | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleRecordKey = (e: React.KeyboardEvent, action: ShortcutAction) => {
+    // Keep Escape and Tab from closing the dialog or moving focus
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.key === 'Escape') {
+      setRecording(null);
+      setMessage(null);
+      return;
+    }
+
+    const key = shortcutFromEvent(e);
+    if (key === null) {
+      if (e.ctrlKey || e.altKey || e.metaKey) setMessage('Ctrl, Alt and Cmd combinations are kept for the browser and app-wide commands.');
+      return;
+    }
+    const owner = findShortcutAction(draft, key);
+    if (owner && owner !== action) {
+      setMessage(`${key} is already used for "${SHORTCUT_LABELS[owner]}".`);
+      return;
+    }
+    setDraft(prev => ({ ...prev, [action]: key }));
+    setRecording(null);
+    setMessage(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center px-4 bg-slate-900/30 backdrop-blur-sm" onMouseDown={onCancel}>
+      <div
+        className="w-full max-w-lg max-h-[85vh] flex flex-col bg-white rounded-2xl shadow-2xl border border-slate-200"
+        onMouseDown={(e) => e.stopPropagation()}
+        onKeyDown={(e) => e.key === 'Escape' && onCancel()}
+      >
+        <div className="px-5 pt-5 pb-3 border-b border-slate-100">
+          <h2 className="text-lg font-bold text-slate-800">Customize shortcuts</h2>
+          <p className="text-xs text-slate-500 mt-0.5">Click a key, then press the one you want instead. Esc cancels.</p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-5 py-4">
+          <ul className="flex flex-col gap-1">
+            {(Object.values(ShortcutAction) as ShortcutAction[]).map(action => (
+              <li key={action} className="flex items-center justify-between gap-3 py-1 text-sm">
+                <span className="text-slate-700">{SHORTCUT_LABELS[action]}</span>
+                <button
+                  onClick={() => {
+                    setRecording(recording === action ? null : action);
+                    setMessage(null);
+                  }}
+                  onKeyDown={(e) => recording === action && handleRecordKey(e, action)}
+                  onBlur={() => recording === action && setRecording(null)}
+                  className={`min-w-24 px-2 py-1 text-xs font-mono font-medium rounded-md border transition-colors ${
+                    recording === action
+                      ? 'bg-indigo-50 border-indigo-300 text-indigo-700'
+                      : draft[action] !== DEFAULT_SHORTCUTS[action]
+                        ? 'bg-white border-indigo-200 text-indigo-700 hover:border-indigo-300'
+                        : 'bg-slate-50 border-slate-200 text-slate-600 hover:border-slate-300'
+                  }`}
+                  aria-label={`Shortcut for ${SHORTCUT_LABELS[action]}: ${draft[action]}`}
+                >
+                  {recording === action ? 'Press a key…' : draft[action]}
+                </button>
+              </li>
+            ))}
+          </ul>
+          {message && <p className="mt-3 text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-lg px-3 py-2">{message}</p>}
+        </div>
+
+        <div className="px-5 py-4 border-t border-slate-100 flex items-center justify-between gap-2">
+          <button
+            onClick={() => {
+              setDraft(DEFAULT_SHORTCUTS);
+              setMessage(null);
+            }}
+            className="px-3 py-2 text-sm font-medium text-slate-500 hover:bg-slate-100 rounded-lg transition-colors"
+          >
+            Reset to defaults
+          </button>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={onCancel}
+              className="px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => onSave(draft)}
+              className="px-4 py-2 text-sm font-medium bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg transition-colors"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { Task, Project, TaskFilter } from '../types';
+import { PlusIcon, TrashIcon } from './Icons';
+import { collectTags } from '../services/taskFilter';
+
+interface SidebarProps {
+  tasks: Task[];
+  projects: Project[];
+  filter: TaskFilter;
+  onSelectProject: (projectId: string | null) => void;
+  onToggleTag: (tag: string) => void;
+  onAddProject: (name: string) => void;
+  onDeleteProject: (id: string) => void;
+}
+
+export const PROJECT_COLORS = ['#6366f1', '#ec4899', '#f59e0b', '#10b981', '#0ea5e9', '#8b5cf6', '#ef4444', '#64748b'];
+
+export const Sidebar: React.FC<SidebarProps> = ({
+  tasks,
+  projects,
+  filter,
+  onSelectProject,
+  onToggleTag,
+  onAddProject,
+  onDeleteProject
+}) => {
+  const [isAdding, setIsAdding] = useState(false);
+  const [newProjectName, setNewProjectName] = useState('');
+
+  const tags = collectTags(tasks);
+  const activeCount = (projectId: string | null) =>
+    tasks.filter(t => !t.completed && (projectId === null || t.projectId === projectId)).length;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newProjectName.trim()) {
+      onAddProject(newProjectName.trim());
+      setNewProjectName('');
+      setIsAdding(false);
+    }
+  };
+
+  const itemClass = (selected: boolean) => `
+    group w-full flex items-center gap-2 px-3 py-2 text-sm rounded-lg transition-colors
+    ${selected ? 'bg-indigo-50 text-indigo-700 font-semibold' : 'text-slate-600 hover:bg-white hover:text-slate-800'}
+  `;
+
+  return (
+    <aside className="md:w-56 flex-shrink-0 flex flex-col gap-6">
+      <div>
+        <div className="flex items-center justify-between px-3 mb-2">
+          <h3 className="text-[10px] font-semibold text-slate-500 uppercase tracking-wide">Projects</h3>
+          <button
+            onClick={() => setIsAdding(!isAdding)}
+            className="p-1 text-slate-400 hover:text-indigo-600 rounded transition-colors"
+            title="New project"
+          >
+            <PlusIcon className="w-3.5 h-3.5" />
+          </button>
+        </div>
+
+        <nav className="flex flex-col gap-0.5">
+          <button onClick={() => onSelectProject(null)} className={itemClass(filter.projectId === null)}>
+            <span className="w-2 h-2 rounded-full bg-slate-300" />
+            <span className="flex-1 text-left truncate">All tasks</span>
+            <span className="text-xs text-slate-400">{activeCount(null)}</span>
+          </button>
+
+          {projects.map(project => (
+            <div key={project.id} className={itemClass(filter.projectId === project.id)}>
+              <button
+                onClick={() => onSelectProject(project.id)}
+                className="flex-1 min-w-0 flex items-center gap-2 text-left"
+              >
+                <span className="w-2 h-2 flex-shrink-0 rounded-full" style={{ backgroundColor: project.color }} />
+                <span className="truncate">{project.name}</span>
+              </button>
+              <button
+                onClick={() => onDeleteProject(project.id)}
+                className="hidden group-hover:block p-0.5 text-slate-400 hover:text-red-500 transition-colors"
+                title="Delete project"
+              >
+                <TrashIcon className="w-3 h-3" />
+              </button>
+              <span className="text-xs text-slate-400 group-hover:hidden">{activeCount(project.id)}</span>
+            </div>
+          ))}
+        </nav>
+
+        {isAdding && (
+          <form onSubmit={handleSubmit} className="mt-2 px-1 flex gap-2">
+            <input
+              type="text"
+              value={newProjectName}
+              onChange={(e) => setNewProjectName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Escape' && setIsAdding(false)}
+              placeholder="Project name..."
+              className="flex-1 min-w-0 text-xs px-2 py-1.5 bg-white border border-slate-200 rounded-md focus:outline-none focus:border-indigo-400 text-slate-700 placeholder:text-slate-400"
+              autoFocus
+            />
+            <button
+              type="submit"
+              disabled={!newProjectName.trim()}
+              className="px-2 py-1 bg-indigo-600 text-white text-xs font-medium rounded-md hover:bg-indigo-700 disabled:opacity-50"
+            >
+              Add
+            </button>
+          </form>
+        )}
+      </div>
+
+      {tags.length > 0 && (
+        <div>
+          <h3 className="px-3 mb-2 text-[10px] font-semibold text-slate-500 uppercase tracking-wide">Tags</h3>
+          <div className="px-2 flex flex-wrap gap-1.5">
+            {tags.map(({ tag, count }) => {
+              const selected = filter.tags.includes(tag);
+              return (
+                <button
+                  key={tag}
+                  onClick={() => onToggleTag(tag)}
+                  className={`text-xs font-medium px-2 py-0.5 rounded-full border transition-colors ${selected ? 'bg-indigo-50 text-indigo-700 border-indigo-200' : 'bg-white text-slate-600 border-slate-200 hover:border-indigo-200'}`}
+                >
+                  #{tag} <span className="text-slate-400">{count}</span>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </aside>
+  );
+};
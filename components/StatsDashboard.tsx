@@ -0,0 +1,172 @@
+import React, { useMemo } from 'react';
+import { Task, ActivityEvent, ActivityType, Priority } from '../types';
+import { buildProductivityStats } from '../services/stats';
+import { ActivityIcon, SparklesIcon } from './Icons';
+
+interface StatsDashboardProps {
+  tasks: Task[];
+  events: ActivityEvent[];
+  onJump: (id: string) => void;
+  onClose: () => void;
+}
+
+const MAX_RECENT = 15;
+
+const ACTIVITY_LABELS: Record<ActivityType, string> = {
+  [ActivityType.CREATED]: 'Added',
+  [ActivityType.COMPLETED]: 'Completed',
+  [ActivityType.REOPENED]: 'Reopened',
+  [ActivityType.DELETED]: 'Deleted',
+  [ActivityType.BROKEN_DOWN]: 'Broke down',
+  [ActivityType.ARCHIVED]: 'Archived',
+  [ActivityType.RESTORED]: 'Restored',
+};
+
+const priorityColor: Record<Priority, string> = {
+  [Priority.HIGH]: 'bg-red-400',
+  [Priority.MEDIUM]: 'bg-yellow-400',
+  [Priority.LOW]: 'bg-blue-400',
+};
+
+const dayLabel = (day: number) => new Date(day).toLocaleDateString(undefined, { weekday: 'narrow' });
+
+const timeAgo = (at: number, now: number) => {
+  const minutes = Math.round((now - at) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 24 * 60) return `${Math.round(minutes / 60)}h ago`;
+  return new Date(at).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+};
+
+const StatCard: React.FC<{ label: string; value: string | number }> = ({ label, value }) => (
+  <div className="p-2 rounded-lg bg-slate-50 border border-slate-100">
+    <div className="text-[10px] font-semibold text-slate-500 uppercase tracking-wide">{label}</div>
+    <div className="text-sm font-bold text-slate-800">{value}</div>
+  </div>
+);
+
+/**
+ * What got done and when: completions per day, streaks, and how finished
+ * work splits by priority and by who wrote the task, with the latest
+ * entries from the activity log.
+ */
+export const StatsDashboard: React.FC<StatsDashboardProps> = ({ tasks, events, onJump, onClose }) => {
+  const now = Date.now();
+  const stats = useMemo(() => buildProductivityStats(tasks, events), [tasks, events]);
+  const recent = useMemo(() => [...events].sort((a, b) => b.at - a.at).slice(0, MAX_RECENT), [events]);
+  const maxPerDay = Math.max(1, ...stats.perDay.map(d => d.count));
+  const maxPriority = Math.max(1, ...stats.byPriority.map(p => p.completed + p.open));
+  const existingIds = useMemo(() => new Set(tasks.map(t => t.id)), [tasks]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center px-4 bg-slate-900/30 backdrop-blur-sm" onMouseDown={onClose}>
+      <div
+        className="w-full max-w-lg max-h-[85vh] flex flex-col bg-white rounded-2xl shadow-2xl border border-slate-200"
+        onMouseDown={(e) => e.stopPropagation()}
+        onKeyDown={(e) => e.key === 'Escape' && onClose()}
+      >
+        <div className="px-5 pt-5 pb-3 border-b border-slate-100">
+          <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <ActivityIcon className="w-4 h-4 text-indigo-500" />
+            Productivity
+          </h2>
+          <p className="text-xs text-slate-500 mt-0.5">Counted from when tasks were actually completed</p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-5 py-4 flex flex-col gap-5">
+          <div className="grid grid-cols-4 gap-2 text-center">
+            <StatCard label="Today" value={stats.today} />
+            <StatCard label="7 days" value={stats.thisWeek} />
+            <StatCard label="Streak" value={`${stats.currentStreak}d`} />
+            <StatCard label="Best" value={`${stats.longestStreak}d`} />
+          </div>
+
+          <section>
+            <h3 className="text-[10px] font-semibold text-slate-500 uppercase tracking-wide mb-2">Completed per day</h3>
+            <div className="flex items-end gap-1 h-24">
+              {stats.perDay.map(({ day, count }) => (
+                <div key={day} className="flex-1 h-full flex flex-col justify-end items-center gap-1" title={`${new Date(day).toLocaleDateString()}: ${count}`}>
+                  <div
+                    className={`w-full rounded-t ${count > 0 ? 'bg-indigo-500' : 'bg-slate-100'}`}
+                    style={{ height: count > 0 ? `${(count / maxPerDay) * 100}%` : '2px' }}
+                  />
+                  <span className="text-[9px] text-slate-400">{dayLabel(day)}</span>
+                </div>
+              ))}
+            </div>
+          </section>
+
+          <section>
+            <h3 className="text-[10px] font-semibold text-slate-500 uppercase tracking-wide mb-2">By priority</h3>
+            <ul className="flex flex-col gap-2">
+              {stats.byPriority.map(({ priority, completed, open }) => (
+                <li key={priority} className="text-xs">
+                  <div className="flex items-center justify-between mb-1">
+                    <span className="font-medium text-slate-700 capitalize">{priority}</span>
+                    <span className="text-slate-400">{completed} done · {open} open</span>
+                  </div>
+                  <div className="flex h-1.5 rounded-full overflow-hidden bg-slate-100" style={{ width: `${((completed + open) / maxPriority) * 100}%` }}>
+                    <div className={priorityColor[priority]} style={{ width: `${(completed / Math.max(1, completed + open)) * 100}%` }} />
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </section>
+
+          <section>
+            <h3 className="text-[10px] font-semibold text-slate-500 uppercase tracking-wide mb-2">AI-generated vs. manual</h3>
+            <div className="grid grid-cols-2 gap-2">
+              {stats.bySource.map(({ label, total, completed }) => (
+                <div key={label} className="p-2 rounded-lg border border-slate-100 text-xs">
+                  <div className="flex items-center gap-1 font-medium text-slate-700">
+                    {label === 'AI-generated' && <SparklesIcon className="w-3 h-3 text-purple-500" />}
+                    {label}
+                  </div>
+                  <div className="text-slate-500 mt-0.5">
+                    {completed} of {total} done{total > 0 && ` (${Math.round((completed / total) * 100)}%)`}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </section>
+
+          <section>
+            <h3 className="text-[10px] font-semibold text-slate-500 uppercase tracking-wide mb-2">Recent activity</h3>
+            {recent.length === 0 ? (
+              <p className="text-sm text-slate-400">Nothing logged yet. Changes you make from now on show up here.</p>
+            ) : (
+              <ul className="flex flex-col gap-0.5">
+                {recent.map((event, i) => (
+                  <li key={`${event.taskId}-${event.at}-${i}`}>
+                    <button
+                      onClick={() => onJump(event.taskId)}
+                      disabled={!existingIds.has(event.taskId)}
+                      className="w-full flex items-center gap-2 px-2 py-1 rounded-lg text-left text-xs enabled:hover:bg-slate-50 transition-colors"
+                    >
+                      <span className="shrink-0 w-20 font-medium text-slate-500">{ACTIVITY_LABELS[event.type]}</span>
+                      <span className="flex-1 truncate text-slate-700">
+                        {event.text}
+                        {event.count !== undefined && <span className="text-slate-400"> into {event.count} subtasks</span>}
+                      </span>
+                      <span className="shrink-0 text-slate-400">{timeAgo(event.at, now)}</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </div>
+
+        <div className="px-5 py-4 border-t border-slate-100 flex items-center justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+            autoFocus
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
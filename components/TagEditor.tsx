@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { Task } from '../types';
+import { normalizeTag } from '../services/taskFilter';
+
+interface TagEditorProps {
+  task: Task;
+  activeTags: string[];
+  onTagClick: (tag: string) => void;
+  onUpdateTags: (id: string, tags: string[]) => void;
+}
+
+export const TagEditor: React.FC<TagEditorProps> = ({ task, activeTags, onTagClick, onUpdateTags }) => {
+  const [isAdding, setIsAdding] = useState(false);
+  const [newTag, setNewTag] = useState('');
+  const tags = task.tags || [];
+
+  const addTag = () => {
+    const tag = normalizeTag(newTag);
+    if (tag && !tags.includes(tag)) {
+      onUpdateTags(task.id, [...tags, tag]);
+    }
+    setNewTag('');
+    setIsAdding(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      addTag();
+    } else if (e.key === 'Escape') {
+      setNewTag('');
+      setIsAdding(false);
+    }
+  };
+
+  return (
+    <>
+      {tags.map(tag => (
+        <span
+          key={tag}
+          className={`group/tag text-[10px] font-medium pl-2 pr-1 py-0.5 rounded-full border flex items-center gap-0.5 ${activeTags.includes(tag) ? 'bg-indigo-50 text-indigo-700 border-indigo-200' : 'bg-slate-50 text-slate-600 border-slate-200'}`}
+        >
+          <button onClick={() => onTagClick(tag)} title={`Filter by #${tag}`} className="hover:underline">
+            #{tag}
+          </button>
+          <button
+            onClick={() => onUpdateTags(task.id, tags.filter(t => t !== tag))}
+            className="w-3 opacity-0 group-hover/tag:opacity-100 text-slate-400 hover:text-red-500 transition-opacity"
+            title="Remove tag"
+          >
+            ×
+          </button>
+        </span>
+      ))}
+
+      {isAdding ? (
+        <input
+          type="text"
+          value={newTag}
+          onChange={(e) => setNewTag(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onBlur={() => setIsAdding(false)}
+          placeholder="tag"
+          className="w-20 text-[10px] px-2 py-0.5 bg-white border border-indigo-300 rounded-full focus:outline-none text-slate-700"
+          autoFocus
+        />
+      ) : (
+        <button
+          onClick={() => setIsAdding(true)}
+          className="text-[10px] font-medium text-slate-400 px-2 py-0.5 rounded-full border border-transparent opacity-0 group-hover:opacity-100 hover:border-slate-200 transition-all"
+          title="Add tag"
+        >
+          #
+        </button>
+      )}
+    </>
+  );
+};
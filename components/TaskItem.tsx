@@ -1,18 +1,65 @@
-import React, { useState } from 'react';
-import { Task, Priority } from '../types';
-import { TrashIcon, CheckIcon, SparklesIcon, ChevronDownIcon, ChevronRightIcon, PlusIcon } from './Icons';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { Task, Priority, Recurrence, Project, TaskStatus, ShortcutAction, ShortcutMap } from '../types';
+import { DueDatePicker } from './DueDatePicker';
+import { RecurrenceEditor } from './RecurrenceEditor';
+import { TagEditor } from './TagEditor';
+import { EstimateEditor } from './EstimateEditor';
+import { TaskTimer } from './TaskTimer';
+import { DependencyEditor } from './DependencyEditor';
+import { SubtreeProgress } from '../services/taskTree';
+import { TASK_STATUS_LABELS, getTaskStatus } from '../services/board';
+import { getOpenBlockers } from '../services/dependencies';
+import { AiEstimate } from '../services/ai';
+import { formatMinutes, describeDrift } from '../services/effort';
+import { shortcutFromEvent, findShortcutAction } from '../services/shortcuts';
+import { TrashIcon, CheckIcon, SparklesIcon, ChevronDownIcon, ChevronRightIcon, PlusIcon, PencilIcon, ArchiveIcon, ClockIcon } from './Icons';
 
 interface TaskItemProps {
   task: Task;
+  // Every task, for dependency links to tasks outside the current filter
+  allTasks: Task[];
   level?: number;
-  subtaskProgress?: { completed: number; total: number };
+  // Rendered first among the actions; the list owns dragging and moving
+  dragHandle?: React.ReactNode;
+  subtaskProgress?: SubtreeProgress;
   onToggle: (id: string) => void;
   onDelete: (id: string) => void;
+  onArchive: (id: string) => void;
   onUpdatePriority: (id: string, priority: Priority) => void;
+  onUpdateStatus: (id: string, status: TaskStatus) => void;
+  onUpdateText: (id: string, text: string) => void;
+  onUpdateDates: (id: string, dates: { dueAt?: number; remindAt?: number }) => void;
+  onUpdateRecurrence: (id: string, recurrence?: Recurrence) => void;
+  onUpdateTags: (id: string, tags: string[]) => void;
+  onUpdateProject: (id: string, projectId?: string) => void;
+  onUpdateEstimate: (id: string, minutes?: number, isAiGenerated?: boolean) => void;
+  onSuggestEstimate: (id: string) => Promise<AiEstimate | null>;
+  onToggleTimer: (id: string) => void;
+  onAddBlocker: (id: string, blockerId: string) => void;
+  onRemoveBlocker: (id: string, blockerId: string) => void;
+  onShowDependencies: (id: string) => void;
+  onTagClick: (tag: string) => void;
+  projects: Project[];
+  activeTags: string[];
   onAiBreakdown: (id: string) => void;
-  onToggleExpansion: (id: string) => void;
+  onCancelBreakdown: () => void;
+  onToggleExpansion: (id: string, recursive?: boolean) => void;
   onAddSubtask: (parentId: string, text: string) => void;
   isBreakingDown: boolean;
+  // Asked for offline; runs once the connection is back
+  isBreakdownQueued?: boolean;
+  onCancelQueuedBreakdown?: (id: string) => void;
+  isHighlighted?: boolean;
+  isSelected?: boolean;
+  onSelect?: (id: string) => void;
+  // Checkbox mode for batch actions; `range` is set for Shift-clicks
+  isChecked?: boolean;
+  onCheck?: (id: string, range: boolean) => void;
+  // Keys for the focused task; moving focus and nesting are up to the list
+  shortcuts?: ShortcutMap;
+  // Returns false when the key has nothing to do, e.g. Tab on the first task,
+  // so the browser can handle it as usual
+  onNavigate?: (id: string, action: ShortcutAction) => boolean;
 }
 
 const priorityConfig = {
@@ -23,20 +70,65 @@ const priorityConfig = {
 
 export const TaskItem: React.FC<TaskItemProps> = ({ 
   task, 
+  allTasks,
   level = 0,
+  dragHandle,
   subtaskProgress,
   onToggle, 
   onDelete, 
+  onArchive,
   onUpdatePriority,
+  onUpdateStatus,
+  onUpdateText,
+  onUpdateDates,
+  onUpdateRecurrence,
+  onUpdateTags,
+  onUpdateProject,
+  onUpdateEstimate,
+  onSuggestEstimate,
+  onToggleTimer,
+  onAddBlocker,
+  onRemoveBlocker,
+  onShowDependencies,
+  onTagClick,
+  projects,
+  activeTags,
   onAiBreakdown,
+  onCancelBreakdown,
   onToggleExpansion,
   onAddSubtask,
-  isBreakingDown 
+  isBreakingDown,
+  isBreakdownQueued = false,
+  onCancelQueuedBreakdown,
+  isHighlighted = false,
+  isSelected = false,
+  onSelect,
+  isChecked = false,
+  onCheck,
+  shortcuts,
+  onNavigate
 }) => {
   const [isAddingSubtask, setIsAddingSubtask] = useState(false);
   const [newSubtaskText, setNewSubtaskText] = useState('');
+  const [isEditing, setIsEditing] = useState(false);
+  const [editText, setEditText] = useState(task.text);
+  // Closing the editor unmounts the input, which can fire a trailing blur;
+  // this guards against saving twice (or saving after Escape)
+  const editClosedRef = useRef(false);
+
+  const itemRef = useRef<HTMLDivElement>(null);
+
+  // Bring the task into view when it's the target of a search jump
+  useEffect(() => {
+    if (isHighlighted) {
+      itemRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }
+  }, [isHighlighted]);
 
   const isSubtask = level > 0;
+  const status = getTaskStatus(task);
+  const openBlockers = useMemo(() => getOpenBlockers(allTasks, task), [allTasks, task]);
+  const project = projects.find(p => p.id === task.projectId);
   const hasSubtasks = subtaskProgress && subtaskProgress.total > 0;
   const isExpanded = task.isExpanded ?? true;
   
@@ -45,12 +137,18 @@ export const TaskItem: React.FC<TaskItemProps> = ({
     ? Math.round((subtaskProgress.completed / subtaskProgress.total) * 100) 
     : 0;
 
+  // Roll-up of the whole subtree: the subtasks' estimates (or the task's own
+  // when they have none) against the time tracked on the task and below it
+  const rolledEstimate = hasSubtasks ? subtaskProgress.estimateMinutes || task.estimateMinutes || 0 : 0;
+  const rolledTracked = hasSubtasks ? Math.round((subtaskProgress.trackedMs + (task.trackedMs ?? 0)) / 60000) : 0;
+
   const handleManualSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (newSubtaskText.trim()) {
       onAddSubtask(task.id, newSubtaskText.trim());
       setNewSubtaskText('');
       setIsAddingSubtask(false);
+      itemRef.current?.focus();
     }
   };
 
@@ -64,44 +162,143 @@ export const TaskItem: React.FC<TaskItemProps> = ({
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Escape') {
       setIsAddingSubtask(false);
+      itemRef.current?.focus();
+    }
+  };
+
+  // Shortcuts apply only while the task itself has focus, not one of its
+  // buttons or fields
+  const handleShortcut = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (!shortcuts || e.target !== e.currentTarget) return;
+    const action = findShortcutAction(shortcuts, shortcutFromEvent(e));
+    switch (action) {
+      case ShortcutAction.TOGGLE:
+        onToggle(task.id);
+        break;
+      case ShortcutAction.EDIT:
+        startEditing();
+        break;
+      case ShortcutAction.PRIORITY_HIGH:
+        onUpdatePriority(task.id, Priority.HIGH);
+        break;
+      case ShortcutAction.PRIORITY_MEDIUM:
+        onUpdatePriority(task.id, Priority.MEDIUM);
+        break;
+      case ShortcutAction.PRIORITY_LOW:
+        onUpdatePriority(task.id, Priority.LOW);
+        break;
+      case ShortcutAction.BREAKDOWN:
+        if (task.completed || isBreakingDown) return;
+        onAiBreakdown(task.id);
+        break;
+      case ShortcutAction.ADD_SUBTASK:
+        if (task.completed) return;
+        setIsAddingSubtask(true);
+        break;
+      case ShortcutAction.EXPAND:
+        onToggleExpansion(task.id);
+        break;
+      case ShortcutAction.NEXT:
+      case ShortcutAction.PREVIOUS:
+      case ShortcutAction.INDENT:
+      case ShortcutAction.OUTDENT:
+        if (!onNavigate?.(task.id, action)) return;
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  };
+
+  const startEditing = () => {
+    setEditText(task.text);
+    editClosedRef.current = false;
+    setIsEditing(true);
+  };
+
+  const commitEdit = () => {
+    if (editClosedRef.current) return;
+    editClosedRef.current = true;
+    const trimmed = editText.trim();
+    if (trimmed && trimmed !== task.text) {
+      onUpdateText(task.id, trimmed);
+    }
+    setIsEditing(false);
+  };
+
+  const handleEditKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      commitEdit();
+      itemRef.current?.focus();
+    } else if (e.key === 'Escape') {
+      editClosedRef.current = true;
+      setIsEditing(false);
+      itemRef.current?.focus();
     }
   };
 
   return (
     <div 
+      ref={itemRef}
+      data-task-item={task.id}
+      tabIndex={isSelected ? 0 : -1}
+      onClick={() => onSelect?.(task.id)}
+      onFocus={(e) => e.target === e.currentTarget && !isSelected && onSelect?.(task.id)}
+      onKeyDown={handleShortcut}
+      aria-selected={isSelected}
       className={`
-        group relative flex flex-col p-3 rounded-xl border transition-all duration-300
-        ${isSubtask ? 'ml-8 bg-slate-50/50 border-slate-100' : 'bg-white border-slate-100 shadow-sm hover:shadow-md'}
+        group relative flex flex-col p-3 rounded-xl border transition-all duration-300 focus:outline-none focus-visible:ring-2 focus-visible:ring-indigo-300
+        ${isChecked ? 'bg-indigo-50/40' : isSubtask ? 'bg-slate-50/50' : 'bg-white'}
+        ${isSubtask ? '' : 'shadow-sm hover:shadow-md'}
+        ${isSelected || isChecked ? 'border-indigo-300' : 'border-slate-100'}
         ${task.completed ? 'opacity-60' : ''}
         ${isBreakingDown ? 'animate-pulse' : ''}
+        ${isHighlighted ? 'ring-2 ring-indigo-400 ring-offset-2' : ''}
       `}
     >
       <div className="flex items-start gap-3">
-        {/* Expand/Collapse Toggle or Subtask Connector */}
-        {!isSubtask ? (
-          <button 
-            onClick={() => onToggleExpansion(task.id)}
-            className={`mt-1 text-slate-400 hover:text-indigo-600 transition-colors ${!hasSubtasks && !isAddingSubtask ? 'opacity-0 hover:opacity-100' : ''}`}
-            title={isExpanded ? "Collapse" : "Expand"}
-          >
-            {isExpanded ? <ChevronDownIcon className="w-4 h-4" /> : <ChevronRightIcon className="w-4 h-4" />}
-          </button>
-        ) : (
-          <div className="absolute -left-5 top-5 w-4 h-px bg-slate-300" />
+        {onCheck && (
+          <input
+            type="checkbox"
+            checked={isChecked}
+            onChange={() => {}}
+            onClick={(e) => {
+              e.stopPropagation();
+              onCheck(task.id, e.shiftKey);
+            }}
+            className="mt-1 w-4 h-4 shrink-0 accent-indigo-600 cursor-pointer"
+            title="Select (Shift+click selects a range)"
+            aria-label={`Select "${task.text}"`}
+          />
         )}
-        
+
+        {/* Expand/Collapse Toggle (Shift/Alt-click applies to the whole subtree) */}
+        <button 
+          onClick={(e) => onToggleExpansion(task.id, e.shiftKey || e.altKey)}
+          className={`mt-1 text-slate-400 hover:text-indigo-600 transition-colors ${!hasSubtasks && !isAddingSubtask ? 'opacity-0 hover:opacity-100' : ''}`}
+          title={isExpanded ? "Collapse (Shift+click: collapse all)" : "Expand (Shift+click: expand all)"}
+        >
+          {isExpanded ? <ChevronDownIcon className="w-4 h-4" /> : <ChevronRightIcon className="w-4 h-4" />}
+        </button>
+
+        {/* Subtask Connector */}
         {isSubtask && (
-          <div className="absolute -left-5 top-0 bottom-1/2 w-px bg-slate-300" />
+          <>
+            <div className="absolute -left-5 top-5 w-4 h-px bg-slate-300" />
+            <div className="absolute -left-5 top-0 bottom-1/2 w-px bg-slate-300" />
+          </>
         )}
 
         {/* Checkbox */}
         <button
           onClick={() => onToggle(task.id)}
+          title={openBlockers.length > 0 && !task.completed ? `Still waiting on ${openBlockers.map(t => `"${t.text}"`).join(', ')}` : undefined}
           className={`
             mt-0.5 flex-shrink-0 w-5 h-5 rounded-full border-2 flex items-center justify-center transition-colors duration-200
             ${task.completed 
               ? 'bg-emerald-500 border-emerald-500' 
-              : 'border-slate-300 hover:border-emerald-400'}
+              : openBlockers.length > 0 ? 'border-amber-300 border-dashed hover:border-amber-400' : 'border-slate-300 hover:border-emerald-400'}
           `}
         >
           {task.completed && <CheckIcon className="w-3 h-3 text-white" />}
@@ -109,16 +306,30 @@ export const TaskItem: React.FC<TaskItemProps> = ({
 
         {/* Content */}
         <div className="flex-1 min-w-0 flex flex-col gap-1">
-          <span 
-            className={`
-              text-sm font-medium transition-all duration-200
-              ${task.completed ? 'text-slate-500 line-through' : 'text-slate-800'}
-            `}
-          >
-            {task.text}
-          </span>
+          {isEditing ? (
+            <input
+              type="text"
+              value={editText}
+              onChange={(e) => setEditText(e.target.value)}
+              onKeyDown={handleEditKeyDown}
+              onBlur={commitEdit}
+              className="text-sm font-medium px-1.5 py-0.5 -mx-1.5 -my-0.5 bg-white border border-indigo-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500/20 text-slate-800"
+              autoFocus
+            />
+          ) : (
+            <span 
+              onDoubleClick={startEditing}
+              className={`
+                text-sm font-medium transition-all duration-200 cursor-text
+                ${task.completed ? 'text-slate-500 line-through' : 'text-slate-800'}
+              `}
+              title="Double-click to edit"
+            >
+              {task.text}
+            </span>
+          )}
           
-          <div className="flex items-center gap-2">
+          <div className="flex flex-wrap items-center gap-2">
             {/* Priority Selector */}
             <div className="relative group/priority">
               <select
@@ -137,6 +348,62 @@ export const TaskItem: React.FC<TaskItemProps> = ({
               </select>
             </div>
 
+            {!task.completed && (
+              <select
+                value={status}
+                onChange={(e) => onUpdateStatus(task.id, e.target.value as TaskStatus)}
+                className={`
+                  appearance-none cursor-pointer text-[10px] font-medium px-2 py-0.5 rounded-full border outline-none transition-all
+                  ${status === TaskStatus.IN_PROGRESS ? 'bg-indigo-50 text-indigo-700 border-indigo-200' : ''}
+                  ${status === TaskStatus.BLOCKED ? 'bg-amber-50 text-amber-700 border-amber-200' : ''}
+                  ${status === TaskStatus.TODO ? 'text-slate-400 border-transparent opacity-0 group-hover:opacity-100 focus:opacity-100 hover:border-slate-200' : ''}
+                `}
+                title="Status"
+              >
+                {(Object.values(TaskStatus) as TaskStatus[]).map(s => (
+                  <option key={s} value={s}>{TASK_STATUS_LABELS[s]}</option>
+                ))}
+              </select>
+            )}
+
+            <DueDatePicker task={task} onUpdateDates={onUpdateDates} />
+            <RecurrenceEditor task={task} onUpdateRecurrence={onUpdateRecurrence} />
+            <EstimateEditor
+              task={task}
+              subtaskEstimate={subtaskProgress?.estimateMinutes || undefined}
+              onUpdateEstimate={onUpdateEstimate}
+              onSuggestEstimate={onSuggestEstimate}
+            />
+            <TaskTimer task={task} onToggleTimer={onToggleTimer} />
+            <DependencyEditor
+              task={task}
+              allTasks={allTasks}
+              openBlockers={openBlockers}
+              onAddBlocker={onAddBlocker}
+              onRemoveBlocker={onRemoveBlocker}
+              onShowDependencies={onShowDependencies}
+            />
+
+            {!task.parentId && projects.length > 0 && (
+              <select
+                value={task.projectId ?? ''}
+                onChange={(e) => onUpdateProject(task.id, e.target.value || undefined)}
+                className={`
+                  appearance-none cursor-pointer text-[10px] font-medium px-2 py-0.5 rounded-full border outline-none transition-all
+                  ${project ? 'bg-white text-slate-600 border-slate-200' : 'text-slate-400 border-transparent opacity-0 group-hover:opacity-100 hover:border-slate-200'}
+                `}
+                style={project ? { borderColor: project.color, color: project.color } : undefined}
+                title="Move to project"
+              >
+                <option value="">No project</option>
+                {projects.map(p => (
+                  <option key={p.id} value={p.id}>{p.name}</option>
+                ))}
+              </select>
+            )}
+
+            <TagEditor task={task} activeTags={activeTags} onTagClick={onTagClick} onUpdateTags={onUpdateTags} />
+
             {task.isAiGenerated && (
               <span className="text-[10px] text-purple-600 bg-purple-50 px-2 py-0.5 rounded-full border border-purple-100 flex items-center gap-1">
                 <SparklesIcon className="w-3 h-3" /> AI
@@ -146,8 +413,9 @@ export const TaskItem: React.FC<TaskItemProps> = ({
         </div>
 
         {/* Actions */}
-        <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity duration-200">
-          {!task.completed && !isSubtask && (
+        <div className={`flex items-center gap-1 transition-opacity duration-200 ${isBreakingDown || isBreakdownQueued ? 'opacity-100' : 'opacity-0 group-hover:opacity-100 focus-within:opacity-100'}`}>
+          {dragHandle}
+          {!task.completed && (
             <>
               <button
                 onClick={() => setIsAddingSubtask(!isAddingSubtask)}
@@ -156,16 +424,51 @@ export const TaskItem: React.FC<TaskItemProps> = ({
               >
                 <PlusIcon className="w-3.5 h-3.5" />
               </button>
-              <button
-                onClick={() => onAiBreakdown(task.id)}
-                disabled={isBreakingDown}
-                className="p-1.5 text-purple-500 hover:bg-purple-50 rounded-lg transition-colors tooltip-trigger relative"
-                title="Regenerate subtasks with AI"
-              >
-                <SparklesIcon className={`w-3.5 h-3.5 ${isBreakingDown ? 'animate-spin' : ''}`} />
-              </button>
+              {isBreakingDown ? (
+                <button
+                  onClick={onCancelBreakdown}
+                  className="flex items-center gap-1 px-1.5 py-1 text-xs font-medium text-purple-600 bg-purple-50 hover:bg-red-50 hover:text-red-600 rounded-lg transition-colors"
+                  title="Stop generating subtasks"
+                >
+                  <SparklesIcon className="w-3.5 h-3.5 animate-spin" />
+                  Stop
+                </button>
+              ) : isBreakdownQueued ? (
+                <button
+                  onClick={() => onCancelQueuedBreakdown?.(task.id)}
+                  className="flex items-center gap-1 px-1.5 py-1 text-xs font-medium text-amber-700 bg-amber-50 hover:bg-red-50 hover:text-red-600 rounded-lg transition-colors"
+                  title="Waiting to break this task down until you're back online. Click to cancel."
+                >
+                  <ClockIcon className="w-3.5 h-3.5" />
+                  Queued
+                </button>
+              ) : (
+                <button
+                  onClick={() => onAiBreakdown(task.id)}
+                  className="p-1.5 text-purple-500 hover:bg-purple-50 rounded-lg transition-colors tooltip-trigger relative"
+                  title="Regenerate subtasks with AI"
+                >
+                  <SparklesIcon className="w-3.5 h-3.5" />
+                </button>
+              )}
             </>
           )}
+          <button
+            onClick={startEditing}
+            className="p-1.5 text-slate-400 hover:text-indigo-600 hover:bg-slate-100 rounded-lg transition-colors"
+            title="Edit task"
+          >
+            <PencilIcon className="w-3.5 h-3.5" />
+          </button>
+          {task.completed && (!subtaskProgress || subtaskProgress.completed === subtaskProgress.total) && (
+            <button
+              onClick={() => onArchive(task.id)}
+              className="p-1.5 text-slate-400 hover:text-indigo-600 hover:bg-slate-100 rounded-lg transition-colors"
+              title="Move to the archive"
+            >
+              <ArchiveIcon className="w-3.5 h-3.5" />
+            </button>
+          )}
           <button
             onClick={() => onDelete(task.id)}
             className="p-1.5 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors"
@@ -218,6 +521,19 @@ export const TaskItem: React.FC<TaskItemProps> = ({
               style={{ width: `${percentage}%` }}
             />
           </div>
+          {(rolledEstimate > 0 || rolledTracked > 0) && (
+            <div className="mt-1.5 flex items-center justify-between text-[10px] text-slate-500">
+              <span>
+                {rolledTracked > 0 ? `${formatMinutes(rolledTracked)} tracked` : 'Nothing tracked'}
+                {rolledEstimate > 0 && ` of ~${formatMinutes(rolledEstimate)} estimated`}
+              </span>
+              {rolledEstimate > 0 && rolledTracked > 0 && (
+                <span className={rolledTracked > rolledEstimate ? 'font-semibold text-amber-600' : ''}>
+                  {rolledTracked > rolledEstimate ? describeDrift(rolledTracked / rolledEstimate) : `${formatMinutes(rolledEstimate - rolledTracked)} left`}
+                </span>
+              )}
+            </div>
+          )}
         </div>
       )}
     </div>
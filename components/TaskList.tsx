@@ -1,80 +1,376 @@
-import React, { useMemo } from 'react';
-import { Task, Priority } from '../types';
+import React, { useMemo, useState, useEffect, useRef } from 'react';
+import { Task, Priority, Recurrence, Project, AiSuggestion, SortMode, TaskStatus, ShortcutAction, ShortcutMap } from '../types';
 import { TaskItem } from './TaskItem';
+import { SparklesIcon, GripIcon } from './Icons';
+import { buildTaskTree, computeSubtreeProgress, getSubtreeIds } from '../services/taskTree';
+import { sortTasks } from '../services/taskOrder';
+import { selectRange } from '../services/batch';
+import { shortcutFromEvent, findShortcutAction } from '../services/shortcuts';
+import { AiEstimate } from '../services/ai';
 
 interface TaskListProps {
   tasks: Task[];
+  // Every task, unfiltered, for dependency links
+  allTasks: Task[];
+  sortMode: SortMode;
+  // Places `id` under `parentId` (top level when undefined), before `beforeId` or last
+  onMove: (id: string, parentId: string | undefined, beforeId?: string) => void;
   onToggle: (id: string) => void;
   onDelete: (id: string) => void;
+  onArchive: (id: string) => void;
   onUpdatePriority: (id: string, priority: Priority) => void;
+  onUpdateStatus: (id: string, status: TaskStatus) => void;
+  onUpdateText: (id: string, text: string) => void;
+  onUpdateDates: (id: string, dates: { dueAt?: number; remindAt?: number }) => void;
+  onUpdateRecurrence: (id: string, recurrence?: Recurrence) => void;
+  onUpdateTags: (id: string, tags: string[]) => void;
+  onUpdateProject: (id: string, projectId?: string) => void;
+  onUpdateEstimate: (id: string, minutes?: number, isAiGenerated?: boolean) => void;
+  onSuggestEstimate: (id: string) => Promise<AiEstimate | null>;
+  onToggleTimer: (id: string) => void;
+  onAddBlocker: (id: string, blockerId: string) => void;
+  onRemoveBlocker: (id: string, blockerId: string) => void;
+  onShowDependencies: (id: string) => void;
+  onTagClick: (tag: string) => void;
+  projects: Project[];
+  activeTags: string[];
   onAiBreakdown: (id: string) => void;
-  onToggleExpansion: (id: string) => void;
+  onCancelBreakdown: () => void;
+  // Subtasks streaming in from the AI, shown as placeholders under their parent
+  streamingSuggestions?: { parentId: string; suggestions: AiSuggestion[] } | null;
+  onToggleExpansion: (id: string, recursive?: boolean) => void;
   onAddSubtask: (parentId: string, text: string) => void;
   breakingDownId: string | null;
+  // Breakdowns waiting for the connection to come back
+  queuedBreakdownIds: Set<string>;
+  onCancelQueuedBreakdown: (id: string) => void;
+  highlightedId?: string | null;
+  selectedId?: string | null;
+  onSelect?: (id: string) => void;
+  // Set while selecting tasks for a batch action
+  checkedIds?: Set<string> | null;
+  onCheck?: (ids: string[], checked: boolean) => void;
+  shortcuts: ShortcutMap;
 }
 
-// Priority weights for sorting: High > Medium > Low
-const priorityWeight = {
-  [Priority.HIGH]: 3,
-  [Priority.MEDIUM]: 2,
-  [Priority.LOW]: 1,
+type DropPosition = 'before' | 'after' | 'inside';
+
+// The top and bottom quarters of a row drop beside it, the middle drops into it
+const dropPositionAt = (e: React.DragEvent<HTMLElement>): DropPosition => {
+  const rect = e.currentTarget.getBoundingClientRect();
+  const y = (e.clientY - rect.top) / rect.height;
+  return y < 0.25 ? 'before' : y > 0.75 ? 'after' : 'inside';
 };
 
 export const TaskList: React.FC<TaskListProps> = ({ 
   tasks, 
+  allTasks,
+  sortMode,
+  onMove,
   onToggle, 
   onDelete,
+  onArchive,
   onUpdatePriority,
+  onUpdateStatus,
+  onUpdateText,
+  onUpdateDates,
+  onUpdateRecurrence,
+  onUpdateTags,
+  onUpdateProject,
+  onUpdateEstimate,
+  onSuggestEstimate,
+  onToggleTimer,
+  onAddBlocker,
+  onRemoveBlocker,
+  onShowDependencies,
+  onTagClick,
+  projects,
+  activeTags,
   onAiBreakdown,
+  onCancelBreakdown,
+  streamingSuggestions,
   onToggleExpansion,
   onAddSubtask,
-  breakingDownId
+  breakingDownId,
+  queuedBreakdownIds,
+  onCancelQueuedBreakdown,
+  highlightedId,
+  selectedId,
+  onSelect,
+  checkedIds,
+  onCheck,
+  shortcuts
 }) => {
   
   // Build hierarchy and sort
   const sortedTree = useMemo(() => {
-    // 1. Separation
-    const roots: Task[] = [];
-    const childrenMap = new Map<string, Task[]>();
-    const taskIds = new Set(tasks.map(t => t.id));
-
-    tasks.forEach(task => {
-      // It is a root if it has no parent OR its parent is not in the current list (orphaned by filter)
-      const isRoot = !task.parentId || !taskIds.has(task.parentId);
-
-      if (isRoot) {
-        roots.push(task);
-      } else if (task.parentId) {
-        // It is a valid child of an existing parent
-        if (!childrenMap.has(task.parentId)) {
-          childrenMap.set(task.parentId, []);
-        }
-        childrenMap.get(task.parentId)!.push(task);
-      }
+    const { roots, childrenMap } = buildTaskTree(tasks);
+
+    const now = Date.now();
+    const sortedRoots = sortTasks(roots, sortMode, now);
+    childrenMap.forEach((list, parentId) => {
+      childrenMap.set(parentId, sortTasks(list, sortMode, now));
     });
 
-    // 2. Sorting Function
-    const sortTasks = (taskList: Task[]) => {
-      return [...taskList].sort((a, b) => {
-        // Priority: High to Low
-        const pDiff = priorityWeight[b.priority] - priorityWeight[a.priority];
-        if (pDiff !== 0) return pDiff;
-        
-        // Time: Newest first
-        return b.createdAt - a.createdAt;
-      });
-    };
+    return { sortedRoots, childrenMap, progress: computeSubtreeProgress(childrenMap) };
+  }, [tasks, sortMode]);
 
-    // 3. Sort roots
-    const sortedRoots = sortTasks(roots);
+  const [dragging, setDragging] = useState<{ id: string; subtree: Set<string> } | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ id: string; position: DropPosition } | null>(null);
+  // A task moved with the keyboard is re-rendered elsewhere, so focus follows
+  // it: the selector of the element to focus once it's back
+  const [pendingFocus, setPendingFocus] = useState<string | null>(null);
+  const [announcement, setAnnouncement] = useState('');
+  // Where a Shift-click range starts
+  const checkAnchorRef = useRef<string | null>(null);
 
-    // 4. Sort children for each root
-    childrenMap.forEach((list, parentId) => {
-      childrenMap.set(parentId, sortTasks(list));
+  useEffect(() => {
+    if (!pendingFocus) return;
+    document.querySelector<HTMLElement>(pendingFocus)?.focus();
+    setPendingFocus(null);
+  }, [pendingFocus, tasks]);
+
+  // Keeps the selection in view when arriving from the board; later
+  // selections are made by clicking (or moving to) the task itself
+  const [initialSelectedId] = useState(selectedId);
+  useEffect(() => {
+    if (!initialSelectedId) return;
+    document.querySelector(`[data-task-item="${initialSelectedId}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [initialSelectedId]);
+
+  const byId = useMemo(() => new Map(tasks.map(t => [t.id, t])), [tasks]);
+  const visibleParentId = (task: Task) => (task.parentId && byId.has(task.parentId) ? task.parentId : undefined);
+  const siblingsOf = (task: Task) => {
+    const parentId = visibleParentId(task);
+    return parentId ? sortedTree.childrenMap.get(parentId) || [] : sortedTree.sortedRoots;
+  };
+
+  // Where a drop beside or into `target` lands, in `onMove` terms
+  const resolveDrop = (target: Task, position: DropPosition): [string | undefined, string | undefined] => {
+    if (position === 'inside') return [target.id, undefined];
+    if (position === 'before') return [target.parentId, target.id];
+    const siblings = siblingsOf(target);
+    return [target.parentId, siblings[siblings.indexOf(target) + 1]?.id];
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>, target: Task) => {
+    if (!dragging || dragging.subtree.has(target.id)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    const position = dropPositionAt(e);
+    if (dropTarget?.id !== target.id || dropTarget.position !== position) {
+      setDropTarget({ id: target.id, position });
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>, target: Task) => {
+    if (!dragging || dragging.subtree.has(target.id)) return;
+    e.preventDefault();
+    const [parentId, beforeId] = resolveDrop(target, dropPositionAt(e));
+    onMove(dragging.id, parentId, beforeId);
+    setDragging(null);
+    setDropTarget(null);
+  };
+
+  /**
+   * Moves a task one step: up and down within its level, in under the task
+   * above it, or out of its parent. Returns false when it can't go that way.
+   */
+  const moveStep = (task: Task, direction: 'up' | 'down' | 'in' | 'out'): boolean => {
+    const siblings = siblingsOf(task);
+    const index = siblings.indexOf(task);
+    const parent = task.parentId ? byId.get(task.parentId) : undefined;
+    let move: [string | undefined, string | undefined] | null = null;
+    let description = '';
+
+    if (direction === 'up' && index > 0) {
+      move = [task.parentId, siblings[index - 1].id];
+      description = `Moved up to position ${index} of ${siblings.length}`;
+    } else if (direction === 'down' && index < siblings.length - 1) {
+      move = [task.parentId, siblings[index + 2]?.id];
+      description = `Moved down to position ${index + 2} of ${siblings.length}`;
+    } else if (direction === 'in' && index > 0) {
+      move = [siblings[index - 1].id, undefined];
+      description = `Moved into "${siblings[index - 1].text}"`;
+    } else if (direction === 'out' && parent) {
+      const parentSiblings = siblingsOf(parent);
+      move = [parent.parentId, parentSiblings[parentSiblings.indexOf(parent) + 1]?.id];
+      description = `Moved out of "${parent.text}"`;
+    }
+    if (!move) return false;
+
+    onMove(task.id, move[0], move[1]);
+    setAnnouncement(`${description}: ${task.text}`);
+    return true;
+  };
+
+  // Arrow keys on a drag handle
+  const handleMoveKey = (e: React.KeyboardEvent<HTMLButtonElement>, task: Task) => {
+    const direction = ({ ArrowUp: 'up', ArrowDown: 'down', ArrowRight: 'in', ArrowLeft: 'out' } as const)[e.key as string];
+    if (!direction || !moveStep(task, direction)) return;
+    e.preventDefault();
+    setPendingFocus(`[data-drag-handle="${task.id}"]`);
+  };
+
+  // Tasks in the order they're shown, skipping collapsed subtrees
+  const visibleIds = useMemo(() => {
+    const ids: string[] = [];
+    const walk = (list: Task[]) => list.forEach(task => {
+      ids.push(task.id);
+      if (task.isExpanded ?? true) walk(sortedTree.childrenMap.get(task.id) || []);
     });
+    walk(sortedTree.sortedRoots);
+    return ids;
+  }, [sortedTree]);
+
+  const focusTask = (id: string | undefined): boolean => {
+    if (!id) return false;
+    document.querySelector<HTMLElement>(`[data-task-item="${id}"]`)?.focus();
+    onSelect?.(id);
+    return true;
+  };
 
-    return { sortedRoots, childrenMap };
-  }, [tasks]);
+  // Shortcuts a focused task hands over: moving focus and nesting
+  const handleNavigate = (id: string, action: ShortcutAction): boolean => {
+    const index = visibleIds.indexOf(id);
+    const task = byId.get(id);
+    if (action === ShortcutAction.NEXT) return focusTask(visibleIds[index + 1]);
+    if (action === ShortcutAction.PREVIOUS) return focusTask(visibleIds[index - 1]);
+    if (!task || !moveStep(task, action === ShortcutAction.INDENT ? 'in' : 'out')) return false;
+    setPendingFocus(`[data-task-item="${id}"]`);
+    return true;
+  };
+
+  // With nothing focused, the next/previous keys pick up at the selected task
+  // (or the first or last one)
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented || e.target !== document.body) return;
+      const action = findShortcutAction(shortcuts, shortcutFromEvent(e));
+      if (action !== ShortcutAction.NEXT && action !== ShortcutAction.PREVIOUS) return;
+      e.preventDefault();
+      focusTask(selectedId && visibleIds.includes(selectedId)
+        ? selectedId
+        : visibleIds[action === ShortcutAction.NEXT ? 0 : visibleIds.length - 1]);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [shortcuts, selectedId, visibleIds, onSelect]);
+
+  const handleCheck = (id: string, range: boolean) => {
+    if (!onCheck || !checkedIds) return;
+    const checked = !checkedIds.has(id);
+    onCheck(range ? selectRange(visibleIds, checkAnchorRef.current, id) : [id], checked);
+    checkAnchorRef.current = id;
+  };
+
+  // Renders a task and, when expanded, its subtasks at any depth
+  const renderNode = (task: Task, level: number): React.ReactNode => {
+    const subtasks = sortedTree.childrenMap.get(task.id) || [];
+    const isExpanded = task.isExpanded ?? true;
+    const progress = sortedTree.progress.get(task.id);
+    const streamed = streamingSuggestions?.parentId === task.id ? streamingSuggestions.suggestions : [];
+
+    const drop = dropTarget?.id === task.id ? dropTarget.position : null;
+
+    return (
+      <div key={task.id} className="flex flex-col gap-2 transition-all">
+        <div
+          data-task-row={task.id}
+          onDragOver={(e) => handleDragOver(e, task)}
+          onDragLeave={(e) => {
+            if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDropTarget(null);
+          }}
+          onDrop={(e) => handleDrop(e, task)}
+          className={`relative rounded-xl transition-opacity ${dragging?.id === task.id ? 'opacity-40' : ''} ${drop === 'inside' ? 'ring-2 ring-indigo-400' : ''}`}
+        >
+          {drop === 'before' && <div className="absolute -top-1.5 left-2 right-2 h-0.5 bg-indigo-500 rounded-full pointer-events-none" />}
+          {drop === 'after' && <div className="absolute -bottom-1.5 left-2 right-2 h-0.5 bg-indigo-500 rounded-full pointer-events-none" />}
+          <TaskItem 
+            task={task} 
+            allTasks={allTasks}
+            level={level}
+            dragHandle={
+              <button
+                draggable
+                data-drag-handle={task.id}
+                onDragStart={(e) => {
+                  e.dataTransfer.effectAllowed = 'move';
+                  e.dataTransfer.setData('text/plain', task.text);
+                  const row = e.currentTarget.closest('[data-task-row]');
+                  if (row) e.dataTransfer.setDragImage(row, 16, 16);
+                  setDragging({ id: task.id, subtree: getSubtreeIds(tasks, task.id) });
+                }}
+                onDragEnd={() => {
+                  setDragging(null);
+                  setDropTarget(null);
+                }}
+                onKeyDown={(e) => handleMoveKey(e, task)}
+                className="p-1.5 text-slate-400 hover:text-indigo-600 hover:bg-slate-100 rounded-lg transition-colors cursor-grab active:cursor-grabbing"
+                title="Drag to move. Arrow keys: up/down to reorder, right to nest, left to un-nest"
+                aria-label={`Move "${task.text}"`}
+              >
+                <GripIcon className="w-3.5 h-3.5" />
+              </button>
+            }
+            subtaskProgress={progress && progress.total > 0 ? progress : undefined}
+            onToggle={onToggle} 
+            onDelete={onDelete}
+            onArchive={onArchive}
+            onUpdatePriority={onUpdatePriority}
+            onUpdateStatus={onUpdateStatus}
+            onUpdateText={onUpdateText}
+            onUpdateDates={onUpdateDates}
+            onUpdateRecurrence={onUpdateRecurrence}
+            onUpdateTags={onUpdateTags}
+            onUpdateProject={onUpdateProject}
+            onUpdateEstimate={onUpdateEstimate}
+            onSuggestEstimate={onSuggestEstimate}
+            onToggleTimer={onToggleTimer}
+            onAddBlocker={onAddBlocker}
+            onRemoveBlocker={onRemoveBlocker}
+            onShowDependencies={onShowDependencies}
+            onTagClick={onTagClick}
+            projects={projects}
+            activeTags={activeTags}
+            onAiBreakdown={onAiBreakdown}
+            onCancelBreakdown={onCancelBreakdown}
+            onToggleExpansion={onToggleExpansion}
+            onAddSubtask={onAddSubtask}
+            isBreakingDown={breakingDownId === task.id}
+            isBreakdownQueued={queuedBreakdownIds.has(task.id)}
+            onCancelQueuedBreakdown={onCancelQueuedBreakdown}
+            isHighlighted={highlightedId === task.id}
+            isSelected={selectedId === task.id}
+            onSelect={onSelect}
+            isChecked={!!checkedIds?.has(task.id)}
+            onCheck={checkedIds ? handleCheck : undefined}
+            shortcuts={shortcuts}
+            onNavigate={handleNavigate}
+          />
+        </div>
+        
+        {((isExpanded && subtasks.length > 0) || streamed.length > 0) && (
+          <div className="ml-8 flex flex-col gap-2 relative transition-all duration-300 ease-in-out">
+            {/* Visual connector line for the group */}
+            <div className="absolute -left-5 top-0 bottom-4 w-px bg-slate-200 -z-10" />
+
+            {isExpanded && subtasks.map(child => renderNode(child, level + 1))}
+            {streamed.map((suggestion, i) => (
+              <div
+                key={i}
+                className="flex items-center gap-3 px-4 py-2.5 rounded-xl border border-dashed border-purple-200 bg-purple-50/40 text-sm text-slate-600 animate-pulse"
+              >
+                <SparklesIcon className="w-3.5 h-3.5 text-purple-400 shrink-0" />
+                <span className="flex-1 truncate">{suggestion.text}</span>
+                <span className="text-[10px] uppercase font-semibold text-purple-400">{suggestion.priority}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
 
   if (tasks.length === 0) {
     return (
@@ -92,55 +388,24 @@ export const TaskList: React.FC<TaskListProps> = ({
 
   return (
     <div className="space-y-3 pb-20">
-      {sortedTree.sortedRoots.map(root => {
-        const subtasks = sortedTree.childrenMap.get(root.id) || [];
-        const isExpanded = root.isExpanded ?? true;
-        
-        // Calculate progress stats
-        const subtaskStats = subtasks.length > 0 ? {
-          total: subtasks.length,
-          completed: subtasks.filter(t => t.completed).length
-        } : undefined;
-        
-        return (
-          <div key={root.id} className="flex flex-col gap-2 transition-all">
-            <TaskItem 
-              task={root} 
-              subtaskProgress={subtaskStats}
-              onToggle={onToggle} 
-              onDelete={onDelete}
-              onUpdatePriority={onUpdatePriority}
-              onAiBreakdown={onAiBreakdown}
-              onToggleExpansion={onToggleExpansion}
-              onAddSubtask={onAddSubtask}
-              isBreakingDown={breakingDownId === root.id}
-            />
-            
-            {/* Render subtasks if Expanded */}
-            {isExpanded && subtasks.length > 0 && (
-              <div className="flex flex-col gap-2 relative transition-all duration-300 ease-in-out">
-                 {/* Visual connector line for the group */}
-                 <div className="absolute left-6 top-0 bottom-4 w-px bg-slate-200 -z-10" />
-                 
-                 {subtasks.map(child => (
-                   <TaskItem 
-                     key={child.id} 
-                     task={child} 
-                     level={1}
-                     onToggle={onToggle} 
-                     onDelete={onDelete}
-                     onUpdatePriority={onUpdatePriority}
-                     onAiBreakdown={onAiBreakdown}
-                     onToggleExpansion={onToggleExpansion}
-                     onAddSubtask={onAddSubtask}
-                     isBreakingDown={breakingDownId === child.id}
-                   />
-                 ))}
-              </div>
-            )}
-          </div>
-        );
-      })}
+      {sortedTree.sortedRoots.map(root => renderNode(root, 0))}
+      {dragging && (
+        <div
+          onDragOver={(e) => {
+            e.preventDefault();
+            setDropTarget(null);
+          }}
+          onDrop={(e) => {
+            e.preventDefault();
+            onMove(dragging.id, undefined);
+            setDragging(null);
+          }}
+          className="py-3 text-center text-xs text-slate-400 border-2 border-dashed border-slate-200 rounded-xl"
+        >
+          Drop here to move to the end of the top level
+        </div>
+      )}
+      <span className="sr-only" aria-live="polite">{announcement}</span>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,61 @@
+import React, { useState, useEffect } from 'react';
+import { Task } from '../types';
+import { getTrackedMs, formatElapsed, formatMinutes } from '../services/effort';
+import { PlayIcon, StopIcon } from './Icons';
+
+interface TaskTimerProps {
+  task: Task;
+  onToggleTimer: (id: string) => void;
+}
+
+/**
+ * Start/stop chip for time tracking. While running it ticks every second;
+ * otherwise it shows the total tracked so far, turning amber once that
+ * passes the estimate.
+ */
+export const TaskTimer: React.FC<TaskTimerProps> = ({ task, onToggleTimer }) => {
+  const isRunning = task.timerStartedAt !== undefined;
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!isRunning) return;
+    setNow(Date.now());
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, [isRunning]);
+
+  const trackedMs = getTrackedMs(task, now);
+  const trackedMinutes = trackedMs / 60000;
+  const overEstimate = task.estimateMinutes !== undefined && trackedMinutes > task.estimateMinutes;
+
+  if (task.completed && trackedMs === 0) return null;
+
+  return (
+    <button
+      onClick={() => onToggleTimer(task.id)}
+      disabled={task.completed}
+      className={`
+        text-[10px] font-medium px-2 py-0.5 rounded-full border flex items-center gap-1 transition-all tabular-nums
+        ${isRunning
+          ? 'bg-red-50 text-red-700 border-red-200'
+          : trackedMs > 0
+            ? overEstimate ? 'bg-amber-50 text-amber-700 border-amber-200' : 'bg-slate-50 text-slate-600 border-slate-200'
+            : 'text-slate-400 border-transparent opacity-0 group-hover:opacity-100 hover:border-slate-200'}
+      `}
+      title={isRunning ? 'Stop timer' : task.completed ? 'Time tracked' : 'Start timer'}
+    >
+      {isRunning ? (
+        <>
+          <span className="w-1.5 h-1.5 rounded-full bg-red-500 animate-pulse" />
+          {formatElapsed(trackedMs)}
+          <StopIcon className="w-3 h-3" />
+        </>
+      ) : (
+        <>
+          {!task.completed && <PlayIcon className="w-3 h-3" />}
+          {trackedMs > 0 ? `${formatMinutes(Math.max(1, trackedMinutes))} tracked` : 'Track time'}
+        </>
+      )}
+    </button>
+  );
+};
@@ -0,0 +1,45 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Task } from '../types';
+import { AiProvider } from '../services/ai';
+import { findSimilarTasks, findSemanticMatches, DuplicateMatch } from '../services/duplicates';
+
+const EMBEDDING_DELAY_MS = 500;
+// Shorter drafts are still being typed and match too much
+const MIN_EMBEDDING_LENGTH = 6;
+
+/**
+ * Open tasks that look like `text`: string similarity on every keystroke,
+ * joined by embedding matches once typing pauses, when the provider has
+ * embeddings. A failed embedding request only loses the extra matches.
+ */
+export const useDuplicateCheck = (tasks: Task[], text: string, provider?: AiProvider): DuplicateMatch[] => {
+  const local = useMemo(() => (text.trim() ? findSimilarTasks(tasks, text) : []), [tasks, text]);
+  const [semantic, setSemantic] = useState<{ text: string; matches: DuplicateMatch[] }>({ text: '', matches: [] });
+
+  useEffect(() => {
+    if (!provider?.embedTexts || text.trim().length < MIN_EMBEDDING_LENGTH) return;
+    const controller = new AbortController();
+    const timer = window.setTimeout(() => {
+      findSemanticMatches(provider, tasks, text.trim(), { signal: controller.signal })
+        .then(matches => setSemantic({ text, matches }))
+        .catch(err => {
+          if (!controller.signal.aborted) console.warn('Duplicate check by embeddings failed', err);
+        });
+    }, EMBEDDING_DELAY_MS);
+    return () => {
+      window.clearTimeout(timer);
+      controller.abort();
+    };
+  }, [tasks, text, provider]);
+
+  return useMemo(() => {
+    // Matches for an older draft are stale
+    const extra = semantic.text === text ? semantic.matches : [];
+    const best = new Map<string, DuplicateMatch>();
+    [...local, ...extra].forEach(match => {
+      const current = best.get(match.task.id);
+      if (!current || match.score > current.score) best.set(match.task.id, match);
+    });
+    return [...best.values()].sort((a, b) => b.score - a.score).slice(0, 3);
+  }, [local, semantic, text]);
+};
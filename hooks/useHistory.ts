@@ -0,0 +1,100 @@
+import { useState, useCallback, useRef, SetStateAction } from 'react';
+
+interface HistoryState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  // Label of the most recent change, used to offer an "Undo" for it. Cleared
+  // by any later change so the offer never undoes something else.
+  lastLabel?: string;
+}
+
+const MAX_HISTORY = 100;
+
+/**
+ * useState with an undo/redo stack. Every call to `set` records the previous
+ * value, unless the updater returns the same reference (a no-op).
+ *
+ * `onTransition` runs on every recorded change, undo and redo, and may
+ * rewrite the incoming value (e.g. to stamp versions on what changed).
+ */
+export const useHistory = <T,>(initial: T | (() => T), onTransition?: (prev: T, next: T) => T) => {
+  const transitionRef = useRef(onTransition);
+  transitionRef.current = onTransition;
+  const transition = (prev: T, next: T) => transitionRef.current ? transitionRef.current(prev, next) : next;
+
+  const [history, setHistory] = useState<HistoryState<T>>(() => ({
+    past: [],
+    present: typeof initial === 'function' ? (initial as () => T)() : initial,
+    future: [],
+  }));
+
+  const set = useCallback((action: SetStateAction<T>, label?: string) => {
+    setHistory(h => {
+      const next = typeof action === 'function' ? (action as (prev: T) => T)(h.present) : action;
+      if (next === h.present) return h;
+      return {
+        past: [...h.past, h.present].slice(-MAX_HISTORY),
+        present: transition(h.present, next),
+        future: [],
+        lastLabel: label,
+      };
+    });
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory(h => {
+      if (h.past.length === 0) return h;
+      return {
+        past: h.past.slice(0, -1),
+        present: transition(h.present, h.past[h.past.length - 1]),
+        future: [h.present, ...h.future],
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(h => {
+      if (h.future.length === 0) return h;
+      return {
+        past: [...h.past, h.present],
+        present: transition(h.present, h.future[0]),
+        future: h.future.slice(1),
+      };
+    });
+  }, []);
+
+  // Changes the value in place without recording it or running
+  // `onTransition`, e.g. for updates that arrive from elsewhere. The undo
+  // and redo snapshots get the same update, so stepping through history
+  // can't bring back what the update replaced.
+  const patch = useCallback((updater: (prev: T) => T) => {
+    setHistory(h => {
+      const next = updater(h.present);
+      if (next === h.present) return h;
+      return { ...h, past: h.past.map(updater), present: next, future: h.future.map(updater) };
+    });
+  }, []);
+
+  // Replaces the value without recording it, e.g. once data has loaded
+  const reset = useCallback((value: T) => {
+    setHistory({ past: [], present: value, future: [] });
+  }, []);
+
+  const dismissLabel = useCallback(() => {
+    setHistory(h => h.lastLabel ? { ...h, lastLabel: undefined } : h);
+  }, []);
+
+  return {
+    state: history.present,
+    set,
+    reset,
+    patch,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    lastLabel: history.lastLabel,
+    dismissLabel,
+  };
+};
@@ -0,0 +1,67 @@
+import { useEffect, useRef } from 'react';
+import { Task } from '../types';
+
+const FIRED_KEY = 'gemini-todo-reminders-fired';
+const CHECK_INTERVAL_MS = 30 * 1000;
+
+// Reminders already shown, keyed by `${id}:${remindAt}` so that moving a
+// reminder to a new time makes it fire again.
+const loadFired = (): Set<string> => {
+  try {
+    return new Set(JSON.parse(localStorage.getItem(FIRED_KEY) || '[]'));
+  } catch {
+    return new Set();
+  }
+};
+
+/**
+ * Asks for Notification permission if it hasn't been decided yet. Reminders
+ * still show in-app when it's denied.
+ */
+export const requestNotificationPermission = () => {
+  if ('Notification' in window && Notification.permission === 'default') {
+    Notification.requestPermission().catch(() => {});
+  }
+};
+
+/**
+ * Fires `onRemind` (and a system notification when permitted) for every
+ * open task whose reminder time has passed, while the tab is open.
+ */
+export const useReminders = (tasks: Task[], onRemind: (task: Task) => void) => {
+  const firedRef = useRef<Set<string>>(loadFired());
+  const onRemindRef = useRef(onRemind);
+  onRemindRef.current = onRemind;
+
+  useEffect(() => {
+    const check = () => {
+      const now = Date.now();
+      const fired = firedRef.current;
+      let changed = false;
+
+      tasks.forEach(task => {
+        if (task.completed || task.remindAt === undefined || task.remindAt > now) return;
+        const key = `${task.id}:${task.remindAt}`;
+        if (fired.has(key)) return;
+
+        fired.add(key);
+        changed = true;
+        onRemindRef.current(task);
+
+        if ('Notification' in window && Notification.permission === 'granted') {
+          new Notification('Gemini TaskFlow reminder', { body: task.text, tag: key });
+        }
+      });
+
+      if (changed) {
+        // Drop entries for tasks that no longer exist to keep the list small
+        const liveKeys = new Set(tasks.map(t => `${t.id}:${t.remindAt}`));
+        localStorage.setItem(FIRED_KEY, JSON.stringify([...fired].filter(k => liveKeys.has(k))));
+      }
+    };
+
+    check();
+    const timer = setInterval(check, CHECK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [tasks]);
+};
@@ -0,0 +1,147 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Task } from '../types';
+import { openTaskStorage, diffTasks, TaskStorage, LoadResult } from '../services/storage';
+import { openSyncChannel, mergeRemoteChanges, SyncChannel, SyncMessage } from '../services/sync';
+import { describeChanges } from '../services/activity';
+
+// Opened once per page, so StrictMode's double effects can't race the
+// one-time localStorage migration
+let initialLoad: Promise<{ storage: TaskStorage; result: LoadResult }> | null = null;
+
+const loadOnce = () => (initialLoad ??= openTaskStorage().then(async storage => ({
+  storage,
+  result: await storage.load(),
+})));
+
+/**
+ * Loads tasks from persistent storage once, then writes back only the tasks
+ * that changed on every update. Writes are applied in order, recorded in
+ * the activity log and announced to other open tabs, whose changes are
+ * merged in through `applyRemote` (and logged by the tab that made them).
+ * Archive reads and writes go through the same queue.
+ */
+export const useTaskStorage = (
+  tasks: Task[],
+  onLoaded: (result: LoadResult) => void,
+  onError: (message: string) => void,
+  applyRemote: (merge: (prev: Task[]) => Task[]) => void
+) => {
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [lastRemoteChangeAt, setLastRemoteChangeAt] = useState<number | null>(null);
+  const storageRef = useRef<TaskStorage | null>(null);
+  const channelRef = useRef<SyncChannel | null>(null);
+  const persistedRef = useRef<Task[]>([]);
+  const tasksRef = useRef(tasks);
+  tasksRef.current = tasks;
+  // Changes received from another tab: already stored and already known to
+  // the other tabs, so they must not be written or broadcast again
+  const remoteRef = useRef({ put: new Set<Task>(), removed: new Set<string>() });
+  const writeQueueRef = useRef<Promise<void>>(Promise.resolve());
+  // What's in the archive, so removals can be logged as archived, not deleted
+  const archivedIdsRef = useRef(new Set<string>());
+  const callbacksRef = useRef({ onLoaded, onError, applyRemote });
+  callbacksRef.current = { onLoaded, onError, applyRemote };
+
+  useEffect(() => {
+    let cancelled = false;
+    loadOnce()
+      .then(({ storage, result }) => {
+        if (cancelled) return;
+        storageRef.current = storage;
+        persistedRef.current = result.tasks;
+        archivedIdsRef.current = new Set(result.archivedIds);
+        callbacksRef.current.onLoaded(result);
+        setIsLoaded(true);
+      })
+      .catch(err => {
+        console.error("Failed to load tasks:", err);
+        if (!cancelled) {
+          callbacksRef.current.onError("Failed to load your saved tasks.");
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!isLoaded) return;
+
+    const handleMessage = (message: SyncMessage) => {
+      // Work out what the merge will change so those exact objects can be
+      // recognised (and skipped) by the persistence effect below
+      const current = tasksRef.current;
+      const merged = mergeRemoteChanges(current, message);
+      if (merged === current) return;
+
+      const currentSet = new Set(current);
+      const mergedIds = new Set(merged.map(t => t.id));
+      merged.forEach(t => !currentSet.has(t) && remoteRef.current.put.add(t));
+      current.forEach(t => !mergedIds.has(t.id) && remoteRef.current.removed.add(t.id));
+
+      callbacksRef.current.applyRemote(prev => mergeRemoteChanges(prev, message));
+      setLastRemoteChangeAt(Date.now());
+    };
+
+    const channel = openSyncChannel(handleMessage);
+    channelRef.current = channel;
+    return () => {
+      channel.close();
+      channelRef.current = null;
+    };
+  }, [isLoaded]);
+
+  useEffect(() => {
+    const storage = storageRef.current;
+    if (!isLoaded || !storage || persistedRef.current === tasks) return;
+
+    const previous = persistedRef.current;
+    const { put, remove } = diffTasks(previous, tasks);
+    persistedRef.current = tasks;
+
+    const remote = remoteRef.current;
+    remoteRef.current = { put: new Set(), removed: new Set() };
+    const changes = {
+      put: put.filter(t => !remote.put.has(t)),
+      remove: remove.filter(id => !remote.removed.has(id)),
+    };
+    if (changes.put.length === 0 && changes.remove.length === 0) return;
+
+    const events = describeChanges(previous, changes, Date.now(), archivedIdsRef.current);
+    writeQueueRef.current = writeQueueRef.current
+      .then(() => storage.applyChanges(changes))
+      .then(() => {
+        channelRef.current?.post(changes, previous);
+        // Losing a log entry shouldn't fail the save
+        return storage.appendActivity(events).catch(err => console.error("Failed to record activity:", err));
+      })
+      .catch(err => {
+        console.error("Failed to save tasks:", err);
+        callbacksRef.current.onError("Failed to save your latest changes.");
+      });
+  }, [tasks, isLoaded]);
+
+  // Runs after the writes already queued, so a read sees them and writes land in order
+  const enqueue = useCallback(<T,>(run: (storage: TaskStorage) => Promise<T>): Promise<T> => {
+    const result = writeQueueRef.current.then(loadOnce).then(({ storage }) => run(storage));
+    writeQueueRef.current = result.then(() => undefined, () => undefined);
+    return result;
+  }, []);
+
+  const loadArchive = useCallback(() => enqueue(storage => storage.loadArchive()), [enqueue]);
+  const loadActivity = useCallback(() => enqueue(storage => storage.loadActivity()), [enqueue]);
+
+  // Stores the entries in the archive and removes them from the stored list
+  // at once; callers drop them from `tasks` once this resolves
+  const archiveTasks = useCallback(async (entries: Task[]) => {
+    await enqueue(storage => storage.archiveTasks(entries));
+    entries.forEach(t => archivedIdsRef.current.add(t.id));
+  }, [enqueue]);
+
+  const deleteArchived = useCallback(async (ids: string[]) => {
+    await enqueue(storage => storage.deleteArchived(ids));
+    ids.forEach(id => archivedIdsRef.current.delete(id));
+  }, [enqueue]);
+
+  return { isLoaded, lastRemoteChangeAt, loadArchive, archiveTasks, deleteArchived, loadActivity };
+};
@@ -0,0 +1,66 @@
+import { Task, ActivityEvent, ActivityType } from "../types";
+import { TaskChanges } from "./storage";
+
+// The oldest entries go once the log is this long, to stay within storage limits
+export const MAX_ACTIVITY_EVENTS = 10000;
+const TYPES = new Set<string>(Object.values(ActivityType));
+
+const eventFor = (type: ActivityType, task: Task, at: number, count?: number): ActivityEvent => ({
+  type,
+  at,
+  taskId: task.id,
+  text: task.text,
+  priority: task.priority,
+  isAiGenerated: task.isAiGenerated || undefined,
+  count,
+});
+
+/**
+ * What a write to storage did, as log entries: tasks created, completed,
+ * reopened and deleted, plus one breakdown entry per task that gained
+ * AI-generated subtasks. Tasks that left for or came back from the archive
+ * (`archivedIds`) are logged as archived and restored instead.
+ */
+export const describeChanges = (
+  previous: Task[],
+  { put, remove }: TaskChanges,
+  now: number = Date.now(),
+  archivedIds: ReadonlySet<string> = new Set()
+): ActivityEvent[] => {
+  const previousById = new Map(previous.map(t => [t.id, t]));
+  const events: ActivityEvent[] = [];
+  const aiSubtasks = new Map<string, number>();
+
+  put.forEach(task => {
+    const before = previousById.get(task.id);
+    if (!before && archivedIds.has(task.id)) {
+      events.push(eventFor(ActivityType.RESTORED, task, now));
+    } else if (!before) {
+      events.push(eventFor(ActivityType.CREATED, task, now));
+      if (task.isAiGenerated && task.parentId && previousById.has(task.parentId)) {
+        aiSubtasks.set(task.parentId, (aiSubtasks.get(task.parentId) || 0) + 1);
+      }
+    } else if (task.completed !== before.completed) {
+      events.push(eventFor(task.completed ? ActivityType.COMPLETED : ActivityType.REOPENED, task, task.completedAt ?? now));
+    }
+  });
+
+  aiSubtasks.forEach((count, parentId) => {
+    const parent = put.find(t => t.id === parentId) ?? previousById.get(parentId)!;
+    events.push(eventFor(ActivityType.BROKEN_DOWN, parent, now, count));
+  });
+
+  remove.forEach(id => {
+    const task = previousById.get(id);
+    if (task) events.push(eventFor(archivedIds.has(id) ? ActivityType.ARCHIVED : ActivityType.DELETED, task, now));
+  });
+
+  return events;
+};
+
+// Stored entries that can be read back, in the order they were written
+export const sanitizeActivity = (records: unknown[]): ActivityEvent[] =>
+  records.filter((e): e is ActivityEvent => {
+    const event = e as Partial<ActivityEvent> | null;
+    return !!event && typeof event.at === 'number' && typeof event.taskId === 'string' && TYPES.has(event.type as string);
+  });
@@ -0,0 +1,85 @@
+export enum AiErrorKind {
+  RATE_LIMIT = 'rate-limit',
+  AUTH = 'auth',
+  PARSE = 'parse',
+  NETWORK = 'network',
+  SERVER = 'server',
+  ABORTED = 'aborted',
+  UNKNOWN = 'unknown'
+}
+
+// Kinds worth another attempt after a pause
+const TRANSIENT_KINDS = new Set([AiErrorKind.RATE_LIMIT, AiErrorKind.NETWORK, AiErrorKind.SERVER]);
+
+/**
+ * An AI failure sorted into a kind the UI can explain. `retryAfterMs` comes
+ * from the server's Retry-After header when it sent one.
+ */
+export class AiError extends Error {
+  constructor(
+    message: string,
+    public readonly kind: AiErrorKind,
+    public readonly status?: number,
+    public readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'AiError';
+  }
+
+  get isTransient(): boolean {
+    return TRANSIENT_KINDS.has(this.kind);
+  }
+}
+
+export const kindForStatus = (status: number): AiErrorKind => {
+  if (status === 429) return AiErrorKind.RATE_LIMIT;
+  if (status === 401 || status === 403) return AiErrorKind.AUTH;
+  if (status === 408 || status >= 500) return AiErrorKind.SERVER;
+  return AiErrorKind.UNKNOWN;
+};
+
+/**
+ * Turns whatever a provider threw into an AiError. Errors with an HTTP
+ * `status` (such as the Gemini SDK's ApiError) are classified by it, JSON
+ * failures count as unreadable replies and fetch TypeErrors as network
+ * failures.
+ */
+export const toAiError = (err: unknown): AiError => {
+  if (err instanceof AiError) return err;
+  const message = err instanceof Error ? err.message : String(err);
+
+  if (err instanceof DOMException && err.name === 'AbortError') {
+    return new AiError('Request cancelled.', AiErrorKind.ABORTED);
+  }
+  if (err instanceof SyntaxError) return new AiError(message, AiErrorKind.PARSE);
+  if (err instanceof TypeError && /fetch|network/i.test(message)) return new AiError(message, AiErrorKind.NETWORK);
+
+  const status = (err as { status?: unknown })?.status;
+  if (typeof status === 'number') return new AiError(message, kindForStatus(status), status);
+
+  // The Gemini SDK puts the status in the message for some failures
+  if (/\b429\b|RESOURCE_EXHAUSTED|quota/i.test(message)) return new AiError(message, AiErrorKind.RATE_LIMIT);
+  if (/API key|PERMISSION_DENIED|UNAUTHENTICATED/i.test(message)) return new AiError(message, AiErrorKind.AUTH);
+  return new AiError(message, AiErrorKind.UNKNOWN);
+};
+
+/**
+ * The message shown to the user for a failed AI request.
+ */
+export const describeAiError = (err: unknown): string => {
+  const error = toAiError(err);
+  switch (error.kind) {
+    case AiErrorKind.RATE_LIMIT:
+      return 'The AI provider is rate limiting requests or your quota is used up. Wait a minute and try again, or switch provider in AI settings.';
+    case AiErrorKind.AUTH:
+      return 'The AI provider rejected the API key. Check it in AI settings.';
+    case AiErrorKind.PARSE:
+      return "The AI's reply could not be read. Try again, or choose a different model in AI settings.";
+    case AiErrorKind.NETWORK:
+      return 'Could not reach the AI provider. Check your connection or the server URL in AI settings.';
+    case AiErrorKind.SERVER:
+      return 'The AI provider is having trouble right now. Please try again shortly.';
+    default:
+      return error.message || 'Something went wrong. Please try again.';
+  }
+};
@@ -0,0 +1,144 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import { AiProvider, AiProviderId, AiSettings } from "./types";
+import { breakdownPrompt, insightPrompt, planPrompt, parsePlan, estimatePrompt, parseEstimate, createSuggestionStream } from "./prompts";
+import { AiError, AiErrorKind } from "./errors";
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-3-flash-preview';
+export const GEMINI_EMBEDDING_MODEL = 'gemini-embedding-001';
+// Plenty to tell near-identical tasks apart, at a fraction of the full size
+const EMBEDDING_DIMENSIONS = 256;
+const EMBEDDING_BATCH_SIZE = 100;
+
+export const createGeminiProvider = (settings: AiSettings): AiProvider => {
+  const model = settings.model || DEFAULT_GEMINI_MODEL;
+  let ai: GoogleGenAI | null = null;
+
+  // Created lazily so a missing key only fails the request that needs it
+  const getClient = () => {
+    if (!settings.apiKey) throw new AiError("Add a Gemini API key in AI settings.", AiErrorKind.AUTH);
+    return (ai ??= new GoogleGenAI({ apiKey: settings.apiKey }));
+  };
+
+  return {
+    id: AiProviderId.GEMINI,
+    label: 'Gemini',
+
+    async breakDownTask(context, { signal, onSuggestion } = {}) {
+      const stream = createSuggestionStream(suggestion => onSuggestion?.(suggestion));
+      const response = await getClient().models.generateContentStream({
+        model,
+        contents: breakdownPrompt(context),
+        config: {
+          abortSignal: signal,
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                text: {
+                  type: Type.STRING,
+                  description: "The description of the subtask"
+                },
+                priority: {
+                  type: Type.STRING,
+                  enum: ["low", "medium", "high"],
+                  description: "The priority of the subtask"
+                }
+              },
+              required: ["text", "priority"]
+            }
+          }
+        }
+      });
+
+      for await (const chunk of response) {
+        stream.push(chunk.text ?? '');
+      }
+      return stream.finish();
+    },
+
+    async getProductivityInsight(stats, { signal } = {}) {
+      const response = await getClient().models.generateContent({
+        model,
+        contents: insightPrompt(stats),
+        config: { abortSignal: signal },
+      });
+      return response.text || "Keep moving forward!";
+    },
+
+    async planDay(context, { signal } = {}) {
+      const response = await getClient().models.generateContent({
+        model,
+        contents: planPrompt(context),
+        config: {
+          abortSignal: signal,
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+              blocks: {
+                type: Type.ARRAY,
+                items: {
+                  type: Type.OBJECT,
+                  properties: {
+                    task: { type: Type.STRING, description: "The task ref, e.g. t1" },
+                    start: { type: Type.STRING, description: "Start time as HH:MM" },
+                    end: { type: Type.STRING, description: "End time as HH:MM" },
+                    note: { type: Type.STRING, description: "Optional short tip for this block" }
+                  },
+                  required: ["task", "start", "end"]
+                }
+              }
+            },
+            required: ["blocks"]
+          }
+        }
+      });
+      return parsePlan(response.text ?? '', context);
+    },
+
+    async estimateTask(context, { signal } = {}) {
+      const response = await getClient().models.generateContent({
+        model,
+        contents: estimatePrompt(context),
+        config: {
+          abortSignal: signal,
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+              minutes: {
+                type: Type.INTEGER,
+                description: "Estimated minutes of focused work"
+              },
+              rationale: {
+                type: Type.STRING,
+                description: "One short sentence explaining the estimate"
+              }
+            },
+            required: ["minutes"]
+          }
+        }
+      });
+      return parseEstimate(response.text ?? '');
+    },
+
+    async embedTexts(texts, { signal } = {}) {
+      const vectors: number[][] = [];
+      for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+        const response = await getClient().models.embedContent({
+          model: GEMINI_EMBEDDING_MODEL,
+          contents: texts.slice(i, i + EMBEDDING_BATCH_SIZE),
+          config: {
+            abortSignal: signal,
+            taskType: "SEMANTIC_SIMILARITY",
+            outputDimensionality: EMBEDDING_DIMENSIONS,
+          }
+        });
+        vectors.push(...(response.embeddings ?? []).map(e => e.values ?? []));
+      }
+      return vectors;
+    },
+  };
+};
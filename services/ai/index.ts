@@ -0,0 +1,91 @@
+import { AiProvider, AiProviderId, AiSettings } from "./types";
+import { createGeminiProvider, DEFAULT_GEMINI_MODEL } from "./geminiProvider";
+import { createOpenAiCompatibleProvider, DEFAULT_OPENAI_BASE_URL, DEFAULT_OPENAI_MODEL } from "./openAiProvider";
+import { createRuleBasedProvider } from "./ruleBasedProvider";
+import { withRetry } from "./retry";
+
+export type { AiProvider, AiSettings, BreakdownContext, EstimateContext, AiEstimate, InsightStats, AiRequestOptions } from "./types";
+export { AiProviderId } from "./types";
+export { AiError, AiErrorKind, describeAiError } from "./errors";
+
+const SETTINGS_KEY = 'gemini-todo-ai-settings';
+
+// Shown as placeholders in the settings panel and used when a field is empty
+export const PROVIDER_DEFAULTS: Record<AiProviderId, { model: string; baseUrl: string }> = {
+  [AiProviderId.GEMINI]: { model: DEFAULT_GEMINI_MODEL, baseUrl: '' },
+  [AiProviderId.OPENAI_COMPATIBLE]: { model: DEFAULT_OPENAI_MODEL, baseUrl: DEFAULT_OPENAI_BASE_URL },
+  [AiProviderId.RULE_BASED]: { model: '', baseUrl: '' },
+};
+
+// A key supplied at build time still works as the initial Gemini key
+const envApiKey = (): string => import.meta.env?.VITE_GEMINI_API_KEY ?? '';
+
+export const getDefaultAiSettings = (): AiSettings => {
+  const apiKey = envApiKey();
+  return {
+    providerId: apiKey ? AiProviderId.GEMINI : AiProviderId.RULE_BASED,
+    model: '',
+    apiKey,
+    baseUrl: '',
+  };
+};
+
+export const loadAiSettings = (): AiSettings => {
+  const defaults = getDefaultAiSettings();
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) || 'null');
+    if (!saved || !Object.values(AiProviderId).includes(saved.providerId)) return defaults;
+    return { ...defaults, ...saved };
+  } catch (err) {
+    console.error(err);
+    return defaults;
+  }
+};
+
+export const saveAiSettings = (settings: AiSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+const createBaseProvider = (settings: AiSettings): AiProvider => {
+  switch (settings.providerId) {
+    case AiProviderId.GEMINI:
+      return createGeminiProvider(settings);
+    case AiProviderId.OPENAI_COMPATIBLE:
+      return createOpenAiCompatibleProvider(settings);
+    default:
+      return createRuleBasedProvider();
+  }
+};
+
+/**
+ * The provider for `settings`, with retries for transient failures. A
+ * breakdown is only retried while nothing has streamed in yet, so
+ * suggestions already shown are never repeated.
+ */
+export const createAiProvider = (settings: AiSettings): AiProvider => {
+  const provider = createBaseProvider(settings);
+  return {
+    ...provider,
+    breakDownTask: (context, options = {}) => {
+      let streamed = false;
+      return withRetry(
+        () => provider.breakDownTask(context, {
+          ...options,
+          onSuggestion: suggestion => {
+            streamed = true;
+            options.onSuggestion?.(suggestion);
+          },
+        }),
+        { signal: options.signal, canRetry: () => !streamed }
+      );
+    },
+    getProductivityInsight: (stats, options = {}) =>
+      withRetry(() => provider.getProductivityInsight(stats, options), { signal: options.signal }),
+    planDay: (context, options = {}) =>
+      withRetry(() => provider.planDay(context, options), { signal: options.signal }),
+    estimateTask: (context, options = {}) =>
+      withRetry(() => provider.estimateTask(context, options), { signal: options.signal }),
+    embedTexts: provider.embedTexts && ((texts, options = {}) =>
+      withRetry(() => provider.embedTexts!(texts, options), { signal: options.signal })),
+  };
+};
@@ -0,0 +1,138 @@
+import { AiProvider, AiProviderId, AiSettings } from "./types";
+import { breakdownPrompt, insightPrompt, planPrompt, parsePlan, estimatePrompt, parseEstimate, createSuggestionStream } from "./prompts";
+import { AiError, AiErrorKind, kindForStatus } from "./errors";
+
+export const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1';
+export const DEFAULT_OPENAI_MODEL = 'llama3.2';
+
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string }; message?: { content?: string } }[];
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/**
+ * Yields the text of each server-sent event's `data:` line until `[DONE]`.
+ * Servers that ignore `stream: true` send one plain JSON body instead, which
+ * is yielded as a single chunk.
+ */
+async function* readEventStream(response: Response): AsyncGenerator<string> {
+  if (!response.body || !response.headers.get('content-type')?.includes('text/event-stream')) {
+    yield await response.text();
+    return;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let pending = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    pending += decoder.decode(value, { stream: true });
+    const lines = pending.split('\n');
+    pending = lines.pop() ?? '';
+    for (const line of lines) {
+      const data = line.replace(/^data:\s?/, '').trim();
+      if (!line.startsWith('data:') || !data) continue;
+      if (data === '[DONE]') return;
+      yield data;
+    }
+  }
+}
+
+/**
+ * Talks to any server implementing the OpenAI chat completions API, such as
+ * Ollama, llama.cpp's server or LM Studio. The key is optional because local
+ * servers usually don't need one.
+ */
+export const createOpenAiCompatibleProvider = (settings: AiSettings): AiProvider => {
+  const baseUrl = (settings.baseUrl || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, '');
+  const model = settings.model || DEFAULT_OPENAI_MODEL;
+
+  // Streams the reply, calling `onText` with each new piece
+  const complete = async (prompt: string, json: boolean, signal: AbortSignal | undefined, onText: (text: string) => void) => {
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model,
+          stream: true,
+          messages: [{ role: 'user', content: prompt }],
+          ...(json ? { response_format: { type: 'json_object' } } : {}),
+        }),
+        signal,
+      });
+    } catch (err) {
+      if (signal?.aborted) throw err;
+      throw new AiError(`Could not reach the AI server at ${baseUrl}.`, AiErrorKind.NETWORK);
+    }
+
+    if (!response.ok) {
+      throw new AiError(
+        `The AI server responded with ${response.status} ${response.statusText}`.trim() + '.',
+        kindForStatus(response.status),
+        response.status,
+        parseRetryAfter(response.headers.get('retry-after'))
+      );
+    }
+
+    for await (const data of readEventStream(response)) {
+      const chunk = JSON.parse(data) as ChatCompletionChunk;
+      const choice = chunk.choices?.[0];
+      const text = choice?.delta?.content ?? choice?.message?.content;
+      if (text) onText(text);
+    }
+  };
+
+  return {
+    id: AiProviderId.OPENAI_COMPATIBLE,
+    label: model,
+
+    async breakDownTask(context, { signal, onSuggestion } = {}) {
+      const stream = createSuggestionStream(suggestion => onSuggestion?.(suggestion));
+      // JSON mode needs an object at the top level, so ask for a wrapper
+      await complete(
+        `${breakdownPrompt(context)}\nRespond only with JSON of the form {"subtasks": [{"text": string, "priority": "low" | "medium" | "high"}]}.`,
+        true,
+        signal,
+        text => stream.push(text)
+      );
+      return stream.finish();
+    },
+
+    async getProductivityInsight(stats, { signal } = {}) {
+      let reply = '';
+      await complete(insightPrompt(stats), false, signal, text => { reply += text; });
+      return reply.trim() || "Keep moving forward!";
+    },
+
+    async planDay(context, { signal } = {}) {
+      let reply = '';
+      await complete(planPrompt(context), true, signal, text => { reply += text; });
+      return parsePlan(reply, context);
+    },
+
+    async estimateTask(context, { signal } = {}) {
+      let reply = '';
+      await complete(
+        `${estimatePrompt(context)}\nRespond only with JSON of the form {"minutes": number, "rationale": string}.`,
+        true,
+        signal,
+        text => { reply += text; }
+      );
+      return parseEstimate(reply);
+    },
+  };
+};
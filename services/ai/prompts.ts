@@ -0,0 +1,178 @@
+import { Priority, AiSuggestion } from "../../types";
+import { BreakdownContext, EstimateContext, AiEstimate, InsightStats } from "./types";
+import { PlanContext, PlanBlock, formatClock, parseClock } from "../dayPlan";
+import { toDateTimeInputValue } from "../dateUtils";
+import { AiError, AiErrorKind } from "./errors";
+
+// Shared by the model-backed providers so they behave the same
+
+export const breakdownPrompt = ({ taskText, ancestors, existingSubtasks, hint }: BreakdownContext) => {
+  const lines = [
+    `Break down the following task into 3 to 5 smaller, actionable subtasks. Assign a priority level (low, medium, high) to each. Task: "${taskText}"`,
+  ];
+  if (ancestors.length > 0) {
+    lines.push(`It is part of: ${ancestors.map(text => `"${text}"`).join(' > ')}.`);
+  }
+  if (existingSubtasks.length > 0) {
+    lines.push(
+      'It already has these subtasks:',
+      ...existingSubtasks.map(st => `- [${st.completed ? 'done' : 'open'}] ${st.text} (${st.priority})`),
+      'Suggest only what is still missing. Do not repeat or reword the existing subtasks.'
+    );
+  }
+  if (hint?.trim()) lines.push(`Keep this in mind: ${hint.trim()}`);
+  return lines.join('\n');
+};
+
+export const insightPrompt = ({ openCount, completedToday, completedThisWeek, completedPerDay, streakDays }: InsightStats) => `
+      I have a todo list with ${openCount} open tasks. I completed ${completedToday} tasks today and ${completedThisWeek} in the last 7 days (per day, oldest first: ${completedPerDay.join(', ')}).
+      ${streakDays > 0 ? `I have finished at least one task a day for ${streakDays} days in a row.` : 'I have no current streak of daily completions.'}
+      Give me a very short, punchy, 1-sentence motivational quote or productivity tip relevant to this context.
+      Do not use quotes characters.
+    `;
+
+/**
+ * Tasks are listed under short refs (t1, t2, ...) rather than their UUIDs,
+ * which models tend to mangle; `parsePlan` maps them back.
+ */
+export const planPrompt = ({ hours, tasks }: PlanContext) => [
+  `Plan my working day from ${formatClock(hours.start)} to ${formatClock(hours.end)} as a schedule of time blocks.`,
+  'Put urgent and high-priority work first, give each task a realistic duration, leave short breaks, and leave out tasks that do not fit.',
+  'Tasks:',
+  ...tasks.map((task, i) => {
+    const details = [
+      `priority ${task.priority}`,
+      task.overdue ? 'overdue' : task.dueAt !== undefined ? `due ${toDateTimeInputValue(task.dueAt).replace('T', ' ')}` : '',
+      task.estimateMinutes ? `estimate ${task.estimateMinutes} min` : '',
+      task.subtasks.length > 0 ? `subtasks: ${task.subtasks.join('; ')}` : '',
+    ].filter(Boolean);
+    return `- t${i + 1}: ${task.text} (${details.join(', ')})`;
+  }),
+  'Respond only with JSON of the form {"blocks": [{"task": "t1", "start": "HH:MM", "end": "HH:MM", "note": string}]}.',
+].join('\n');
+
+export const parsePlan = (reply: string, context: PlanContext): PlanBlock[] => {
+  const json = reply.trim().replace(/^```(?:json)?\s*/i, '').replace(/```$/, '');
+  const parsed = JSON.parse(json || '{}');
+  const items: unknown = Array.isArray(parsed) ? parsed : parsed?.blocks;
+  if (!Array.isArray(items)) throw new AiError("The AI reply did not contain a schedule.", AiErrorKind.PARSE);
+
+  return items.flatMap(item => {
+    const { task, start, end, note } = (item ?? {}) as Record<string, unknown>;
+    const index = typeof task === 'string' ? parseInt(task.replace(/^t/i, ''), 10) - 1 : -1;
+    const planned = context.tasks[index];
+    const from = typeof start === 'string' ? parseClock(start) : undefined;
+    const to = typeof end === 'string' ? parseClock(end) : undefined;
+    if (!planned || from === undefined || to === undefined) return [];
+    return [{ taskId: planned.id, start: from, end: to, note: typeof note === 'string' && note.trim() ? note.trim() : undefined }];
+  });
+};
+
+export const estimatePrompt = (context: EstimateContext) => {
+  const lines = [
+    `Estimate how many minutes of focused work the following task will take, including any open subtasks. Task: "${context.taskText}"`,
+  ];
+  if (context.ancestors.length > 0) {
+    lines.push(`It is part of: ${context.ancestors.map(text => `"${text}"`).join(' > ')}.`);
+  }
+  const open = context.existingSubtasks.filter(st => !st.completed);
+  if (open.length > 0) {
+    lines.push('Its open subtasks are:', ...open.map(st => `- ${st.text}`));
+  }
+  if (context.history.length > 0) {
+    lines.push(
+      'For calibration, here is how long some of my recent tasks really took:',
+      ...context.history.map(h => `- ${h.text}: estimated ${h.estimateMinutes} min, took ${h.actualMinutes} min`)
+    );
+  }
+  if (context.hint?.trim()) lines.push(`Keep this in mind: ${context.hint.trim()}`);
+  return lines.join('\n');
+};
+
+/**
+ * Reads `{"minutes": n, "rationale": "..."}` from a reply, rounding to whole
+ * minutes. Anything that isn't a positive number of minutes is a parse error.
+ */
+export const parseEstimate = (reply: string): AiEstimate => {
+  const json = reply.trim().replace(/^```(?:json)?\s*/i, '').replace(/```$/, '');
+  const parsed = JSON.parse(json || '{}');
+  const minutes = Math.round(Number(parsed?.minutes));
+  if (!Number.isFinite(minutes) || minutes <= 0) {
+    throw new AiError("The AI reply did not contain an estimate.", AiErrorKind.PARSE);
+  }
+  const rationale = typeof parsed.rationale === 'string' && parsed.rationale.trim() ? parsed.rationale.trim() : undefined;
+  return { minutes, rationale };
+};
+
+const PRIORITIES = new Set<string>(Object.values(Priority));
+
+/**
+ * Reads subtasks from a model's JSON reply. Accepts a bare array or an
+ * object wrapping one (e.g. `{"subtasks": [...]}`), with or without a
+ * Markdown code fence, and drops items without text.
+ */
+export const parseSuggestions = (reply: string): AiSuggestion[] => {
+  const json = reply.trim().replace(/^```(?:json)?\s*/i, '').replace(/```$/, '');
+  if (!json) return [];
+
+  const parsed = JSON.parse(json);
+  const items: unknown = Array.isArray(parsed)
+    ? parsed
+    : Object.values(parsed ?? {}).find(Array.isArray);
+  if (!Array.isArray(items)) throw new AiError("The AI reply did not contain a list of subtasks.", AiErrorKind.PARSE);
+
+  return items.flatMap(item => {
+    const suggestion = toSuggestion(item);
+    return suggestion ? [suggestion] : [];
+  });
+};
+
+const toSuggestion = (item: unknown): AiSuggestion | null => {
+  const { text, priority } = (item ?? {}) as { text?: unknown; priority?: unknown };
+  if (typeof text !== 'string' || !text.trim()) return null;
+  const level = typeof priority === 'string' ? priority.toLowerCase() : '';
+  return { text: text.trim(), priority: PRIORITIES.has(level) ? level as Priority : Priority.MEDIUM };
+};
+
+/**
+ * Reads subtasks out of a reply as it streams in: every object that closes
+ * directly inside an array is handed to `onSuggestion` straight away.
+ * `finish` parses the whole reply, which stays the authoritative result.
+ */
+export const createSuggestionStream = (onSuggestion: (suggestion: AiSuggestion) => void) => {
+  let buffer = '';
+  let scanned = 0;
+  let inString = false;
+  let escaped = false;
+  // Open brackets with where they started
+  const stack: { char: string; start: number }[] = [];
+
+  return {
+    push(chunk: string) {
+      buffer += chunk;
+      for (; scanned < buffer.length; scanned++) {
+        const char = buffer[scanned];
+        if (inString) {
+          if (escaped) escaped = false;
+          else if (char === '\\') escaped = true;
+          else if (char === '"') inString = false;
+          continue;
+        }
+        if (char === '"') inString = true;
+        else if (char === '{' || char === '[') stack.push({ char, start: scanned });
+        else if (char === '}' || char === ']') {
+          const open = stack.pop();
+          if (char === '}' && open && stack[stack.length - 1]?.char === '[') {
+            try {
+              const suggestion = toSuggestion(JSON.parse(buffer.slice(open.start, scanned + 1)));
+              if (suggestion) onSuggestion(suggestion);
+            } catch {
+              // Malformed item; `finish` reports the reply as a whole
+            }
+          }
+        }
+      }
+    },
+    finish: () => parseSuggestions(buffer),
+  };
+};
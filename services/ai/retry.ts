@@ -0,0 +1,52 @@
+import { AiError, AiErrorKind, toAiError } from "./errors";
+
+export interface RetryOptions {
+  signal?: AbortSignal;
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  // Checked before each retry, e.g. to stop once a stream has produced output
+  canRetry?: () => boolean;
+}
+
+const abortError = () => new AiError('Request cancelled.', AiErrorKind.ABORTED);
+
+// Resolves after `ms`, or rejects as soon as the signal aborts
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Runs `attempt` and retries transient failures (rate limits, network and
+ * server errors) with exponential backoff plus jitter. A server-sent
+ * Retry-After wins over the computed delay. Network errors while the browser
+ * is offline are rethrown at once, so the caller can queue the request
+ * instead. Every failure is rethrown as an AiError.
+ */
+export const withRetry = async <T,>(attempt: () => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const { signal, retries = 3, baseDelayMs = 800, maxDelayMs = 10_000, canRetry = () => true } = options;
+
+  for (let tries = 0; ; tries++) {
+    if (signal?.aborted) throw abortError();
+    try {
+      return await attempt();
+    } catch (err) {
+      const error = signal?.aborted ? abortError() : toAiError(err);
+      if (!error.isTransient || tries >= retries || !canRetry()) throw error;
+      if (error.kind === AiErrorKind.NETWORK && globalThis.navigator?.onLine === false) throw error;
+
+      const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** tries);
+      await sleep(error.retryAfterMs ?? backoff / 2 + Math.random() * backoff / 2, signal);
+    }
+  }
+};
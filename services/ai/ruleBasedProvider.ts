@@ -0,0 +1,156 @@
+import { Priority, AiSuggestion } from "../../types";
+import { AiProvider, AiProviderId, AiEstimate, BreakdownContext, EstimateContext, InsightStats } from "./types";
+import { isSimilarText } from "../breakdown";
+import { ruleBasedPlan } from "../dayPlan";
+
+// Step templates for common kinds of task, matched on the leading verb, with
+// a typical duration for the whole task
+const TEMPLATES: { pattern: RegExp; minutes: number; steps: [string, Priority][] }[] = [
+  {
+    pattern: /^(write|draft|prepare|create)\b/i,
+    minutes: 90,
+    steps: [['Outline the key points', Priority.HIGH], ['Write a first draft', Priority.HIGH], ['Review and revise', Priority.MEDIUM], ['Share or submit it', Priority.MEDIUM]],
+  },
+  {
+    pattern: /^(plan|organi[sz]e|schedule|arrange)\b/i,
+    minutes: 45,
+    steps: [['Decide on the goal and date', Priority.HIGH], ['List what is needed', Priority.MEDIUM], ['Book or confirm the details', Priority.MEDIUM], ['Let everyone involved know', Priority.LOW]],
+  },
+  {
+    pattern: /^(fix|debug|repair|solve|investigate)\b/i,
+    minutes: 60,
+    steps: [['Reproduce the problem', Priority.HIGH], ['Find the cause', Priority.HIGH], ['Apply and test a fix', Priority.MEDIUM], ['Note what was changed', Priority.LOW]],
+  },
+  {
+    pattern: /^(buy|shop|order|get)\b/i,
+    minutes: 30,
+    steps: [['Check what is already at hand', Priority.LOW], ['Write the shopping list', Priority.MEDIUM], ['Compare options and prices', Priority.LOW], ['Buy it', Priority.HIGH]],
+  },
+  {
+    pattern: /^(clean|tidy|declutter|sort)\b/i,
+    minutes: 45,
+    steps: [['Clear away what does not belong', Priority.MEDIUM], ['Clean the surfaces', Priority.MEDIUM], ['Put everything back in place', Priority.LOW]],
+  },
+  {
+    pattern: /^(learn|study|read|research)\b/i,
+    minutes: 60,
+    steps: [['Gather the material', Priority.MEDIUM], ['Work through it in short sessions', Priority.HIGH], ['Take notes on the main ideas', Priority.MEDIUM], ['Summarize what you learned', Priority.LOW]],
+  },
+];
+
+const GENERIC_STEPS: [string, Priority][] = [
+  ['Define what done looks like', Priority.HIGH],
+  ['List the steps and anything needed', Priority.MEDIUM],
+  ['Do the first step', Priority.HIGH],
+  ['Review and wrap up', Priority.LOW],
+];
+const GENERIC_MINUTES = 30;
+const MINUTES_PER_SUBTASK = 25;
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+/**
+ * Splits a task that already lists its parts ("buy milk, eggs and bread",
+ * "call the bank; then pay rent") into those parts, in order.
+ */
+const splitListedParts = (text: string): string[] => {
+  const parts = text
+    .split(/\s*(?:[,;]|\band then\b|\bthen\b|\band\b)\s*/i)
+    .map(part => part.trim())
+    .filter(part => part.length > 0);
+  return parts.length >= 2 ? parts : [];
+};
+
+const suggestSteps = (taskText: string): AiSuggestion[] => {
+  const text = taskText.trim();
+  const parts = splitListedParts(text);
+  if (parts.length >= 2 && parts.length <= 8) {
+    // A leading verb carries over to bare nouns: "buy milk, eggs" -> "Buy eggs"
+    const verb = parts[0].match(/^(\w+)\s+\S/)?.[1];
+    return parts.map((part, i) => ({
+      text: capitalize(i > 0 && verb && !/\s/.test(part) ? `${verb.toLowerCase()} ${part}` : part),
+      priority: i === 0 ? Priority.HIGH : Priority.MEDIUM,
+    }));
+  }
+
+  const template = TEMPLATES.find(t => t.pattern.test(text));
+  const subject = text.replace(/[.!?]+$/, '');
+  return (template?.steps ?? GENERIC_STEPS).map(([step, priority]) => ({
+    text: `${step}: ${subject}`,
+    priority,
+  }));
+};
+
+// Leaves out steps the task already has
+export const ruleBasedBreakdown = ({ taskText, existingSubtasks }: BreakdownContext): AiSuggestion[] =>
+  suggestSteps(taskText).filter(step => !existingSubtasks.some(st => isSimilarText(st.text, step.text)));
+
+// "in 2 hours", "45 min", "1.5h" -> minutes
+const durationInHint = (hint?: string): number | undefined => {
+  const match = hint?.match(/(\d+(?:\.\d+)?)\s*(h|hrs?|hours?|m|mins?|minutes?)\b/i);
+  if (!match) return undefined;
+  const amount = Number(match[1]);
+  return Math.round(match[2].toLowerCase().startsWith('h') ? amount * 60 : amount) || undefined;
+};
+
+// Nearest 5 minutes up to an hour, nearest 15 after that
+const roundEstimate = (minutes: number): number => {
+  const step = minutes > 60 ? 15 : 5;
+  return Math.max(step, Math.round(minutes / step) * step);
+};
+
+/**
+ * A duration from the kind of task or the number of open subtasks, scaled by
+ * how far past estimates were off. A duration in the hint wins outright.
+ */
+export const ruleBasedEstimate = (context: EstimateContext): AiEstimate => {
+  const fromHint = durationInHint(context.hint);
+  if (fromHint) return { minutes: fromHint, rationale: 'Taken from your hint.' };
+
+  const template = TEMPLATES.find(t => t.pattern.test(context.taskText.trim()));
+  const open = context.existingSubtasks.filter(st => !st.completed).length;
+  const typical = template?.minutes ?? GENERIC_MINUTES;
+  const base = Math.max(typical, open * MINUTES_PER_SUBTASK);
+  const reasons = [base > typical ? `${open} open subtasks` : template ? 'similar tasks' : 'a typical task'];
+
+  const estimated = context.history.reduce((sum, h) => sum + h.estimateMinutes, 0);
+  const actual = context.history.reduce((sum, h) => sum + h.actualMinutes, 0);
+  // Clamped so one runaway task can't skew every later estimate
+  const drift = estimated > 0 ? Math.min(2, Math.max(0.5, actual / estimated)) : 1;
+  if (Math.abs(drift - 1) >= 0.1) {
+    reasons.push(`past tasks took ${drift > 1 ? 'longer' : 'less time'} than estimated`);
+  }
+
+  return { minutes: roundEstimate(base * drift), rationale: `Based on ${reasons.join(', adjusted because ')}.` };
+};
+
+export const ruleBasedInsight = ({ openCount, completedToday, completedThisWeek, streakDays }: InsightStats): string => {
+  if (openCount === 0 && completedThisWeek === 0) return 'A clear list is a clear mind. Add the one thing that matters most today.';
+  if (openCount === 0) return `All done, with ${completedThisWeek} finished this week. Rest counts as productivity too.`;
+  if (completedToday > 0 && streakDays >= 3) return `${streakDays} days in a row. Keep the streak alive tomorrow.`;
+  if (completedToday === 0 && streakDays >= 2) return `Your ${streakDays}-day streak is waiting: finish one task today to keep it.`;
+  if (completedToday > 0) return `${completedToday} down today, ${openCount} to go. Keep the momentum going.`;
+  if (completedThisWeek > 0) return `${completedThisWeek} finished this week. Start today with the smallest open task.`;
+  return openCount > 5
+    ? `${openCount} tasks waiting: pick the smallest one and start there.`
+    : 'The first finished task makes the rest easier. Start with one.';
+};
+
+/**
+ * Works offline with no model at all: splits tasks that list their own parts,
+ * otherwise fills in a step template, picks an insight from recent progress and
+ * sizes estimates from the kind of task.
+ * The same input always gives the same output.
+ */
+export const createRuleBasedProvider = (): AiProvider => ({
+  id: AiProviderId.RULE_BASED,
+  label: 'TaskFlow',
+  breakDownTask: async (context, { onSuggestion } = {}) => {
+    const suggestions = ruleBasedBreakdown(context);
+    suggestions.forEach(suggestion => onSuggestion?.(suggestion));
+    return suggestions;
+  },
+  getProductivityInsight: async (stats) => ruleBasedInsight(stats),
+  planDay: async (context) => ruleBasedPlan(context),
+  estimateTask: async (context) => ruleBasedEstimate(context),
+});
@@ -0,0 +1,80 @@
+import { AiSuggestion, Priority } from "../../types";
+import { PlanContext, PlanBlock } from "../dayPlan";
+
+export enum AiProviderId {
+  GEMINI = 'gemini',
+  OPENAI_COMPATIBLE = 'openai-compatible',
+  RULE_BASED = 'rule-based'
+}
+
+/**
+ * Chosen in the AI settings panel and kept in localStorage. `baseUrl` is only
+ * used by the OpenAI-compatible provider; `apiKey` is optional there.
+ */
+export interface AiSettings {
+  providerId: AiProviderId;
+  model: string;
+  apiKey: string;
+  baseUrl: string;
+}
+
+/**
+ * What a breakdown request knows about the task: where it sits in the tree,
+ * the subtasks it already has, and an optional steer from the user such as
+ * "in 2 hours" or "for a beginner".
+ */
+export interface BreakdownContext {
+  taskText: string;
+  ancestors: string[];
+  existingSubtasks: { text: string; completed: boolean; priority: Priority }[];
+  hint?: string;
+}
+
+/**
+ * An estimate request: the task as for a breakdown, plus recently finished
+ * tasks with their estimate and actual minutes to calibrate against.
+ */
+export interface EstimateContext extends BreakdownContext {
+  history: { text: string; estimateMinutes: number; actualMinutes: number }[];
+}
+
+export interface AiEstimate {
+  minutes: number;
+  rationale?: string;
+}
+
+/**
+ * Real progress numbers for the productivity insight, counted from
+ * completion times rather than the current state of the list.
+ */
+export interface InsightStats {
+  openCount: number;
+  completedToday: number;
+  completedThisWeek: number;
+  // The last 7 days, oldest first, today last
+  completedPerDay: number[];
+  // Days in a row with at least one task finished
+  streakDays: number;
+}
+
+export interface AiRequestOptions {
+  signal?: AbortSignal;
+  // Called for each subtask as soon as it has streamed in
+  onSuggestion?: (suggestion: AiSuggestion) => void;
+}
+
+/**
+ * A backend for the app's AI features. Providers made by `createAiProvider`
+ * retry transient failures and reject with an AiError.
+ */
+export interface AiProvider {
+  id: AiProviderId;
+  label: string;
+  breakDownTask(context: BreakdownContext, options?: AiRequestOptions): Promise<AiSuggestion[]>;
+  getProductivityInsight(stats: InsightStats, options?: AiRequestOptions): Promise<string>;
+  // Raw blocks; callers run them through `normalizePlan`
+  planDay(context: PlanContext, options?: AiRequestOptions): Promise<PlanBlock[]>;
+  estimateTask(context: EstimateContext, options?: AiRequestOptions): Promise<AiEstimate>;
+  // One vector per text, in order; only providers with an embedding model
+  embedTexts?(texts: string[], options?: AiRequestOptions): Promise<number[][]>;
+}
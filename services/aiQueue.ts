@@ -0,0 +1,66 @@
+import { AiSettings, AiProviderId, AiError, AiErrorKind } from "./ai";
+
+const QUEUE_KEY = 'gemini-todo-ai-queue';
+
+// A breakdown asked for while offline, run once the connection is back
+export interface QueuedBreakdown {
+  taskId: string;
+  hint: string;
+  queuedAt: number;
+}
+
+const LOCAL_HOSTS = /^(localhost|127\.\d+\.\d+\.\d+|\[::1\])$/;
+
+/**
+ * Whether the provider has to reach the internet. The built-in rules never
+ * do, and neither does an OpenAI-compatible server on this machine.
+ */
+export const needsConnection = (settings: AiSettings): boolean => {
+  if (settings.providerId === AiProviderId.RULE_BASED) return false;
+  if (settings.providerId === AiProviderId.OPENAI_COMPATIBLE) {
+    try {
+      return !LOCAL_HOSTS.test(new URL(settings.baseUrl).hostname);
+    } catch {
+      return true;
+    }
+  }
+  return true;
+};
+
+/**
+ * Whether a request should wait for the connection instead of failing:
+ * the browser is offline, either already or by the time the request failed.
+ */
+export const shouldQueue = (settings: AiSettings, err?: unknown): boolean => {
+  if (!needsConnection(settings) || navigator.onLine) return false;
+  return err === undefined || (err instanceof AiError && err.kind === AiErrorKind.NETWORK);
+};
+
+export const loadAiQueue = (): QueuedBreakdown[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(QUEUE_KEY) || '[]');
+    return Array.isArray(saved)
+      ? saved.filter(q => q && typeof q.taskId === 'string' && typeof q.hint === 'string' && typeof q.queuedAt === 'number')
+      : [];
+  } catch (err) {
+    console.error(err);
+    return [];
+  }
+};
+
+export const saveAiQueue = (queue: QueuedBreakdown[]) => {
+  if (queue.length === 0) {
+    localStorage.removeItem(QUEUE_KEY);
+  } else {
+    localStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+  }
+};
+
+/**
+ * Adds a breakdown to the end of the queue. Asking again for a task that's
+ * already waiting only updates its hint.
+ */
+export const enqueueBreakdown = (queue: QueuedBreakdown[], taskId: string, hint: string, now: number = Date.now()): QueuedBreakdown[] =>
+  queue.some(q => q.taskId === taskId)
+    ? queue.map(q => (q.taskId === taskId ? { ...q, hint } : q))
+    : [...queue, { taskId, hint, queuedAt: now }];
@@ -0,0 +1,89 @@
+import { Task } from "../types";
+import { buildTaskTree, getSubtreeIds, getAncestors } from "./taskTree";
+import { addDays } from "./dateUtils";
+
+const AUTO_ARCHIVE_KEY = 'gemini-todo-auto-archive-days';
+
+export const AUTO_ARCHIVE_OPTIONS = [1, 7, 14, 30, 90];
+
+/**
+ * Whether `id` and everything below it is completed, so the tree can be
+ * archived as a whole.
+ */
+export const isTreeCompleted = (tasks: Task[], id: string): boolean => {
+  const byId = new Map(tasks.map(t => [t.id, t]));
+  return [...getSubtreeIds(tasks, id)].every(taskId => byId.get(taskId)?.completed);
+};
+
+/**
+ * Top-level tasks that are done along with all their subtasks. Completed
+ * subtasks of open tasks stay, so their parent's progress still adds up.
+ */
+export const findCompletedTrees = (tasks: Task[]): string[] =>
+  buildTaskTree(tasks).roots.filter(root => isTreeCompleted(tasks, root.id)).map(root => root.id);
+
+/**
+ * Completed trees whose last completion was at least `days` ago. Trees
+ * finished before completion times were recorded are left alone.
+ */
+export const findStaleTrees = (tasks: Task[], days: number, now: number = Date.now()): string[] => {
+  const byId = new Map(tasks.map(t => [t.id, t]));
+  const cutoff = addDays(now, -days);
+  return findCompletedTrees(tasks).filter(id =>
+    [...getSubtreeIds(tasks, id)].every(taskId => {
+      const completedAt = byId.get(taskId)?.completedAt;
+      return completedAt !== undefined && completedAt <= cutoff;
+    })
+  );
+};
+
+/**
+ * Copies of the given trees as archive entries.
+ */
+export const toArchiveEntries = (tasks: Task[], rootIds: string[], now: number = Date.now()): Task[] => {
+  const ids = new Set(rootIds.flatMap(id => [...getSubtreeIds(tasks, id)]));
+  return tasks.filter(t => ids.has(t.id)).map(t => ({ ...t, archivedAt: now }));
+};
+
+/**
+ * The archived tree `id` belongs to, from its topmost archived ancestor
+ * down, so a subtask is never restored without its archived parent.
+ */
+export const getArchivedTree = (archive: Task[], id: string): Task[] => {
+  const rootId = getAncestors(archive, id)[0]?.id ?? id;
+  const ids = getSubtreeIds(archive, rootId);
+  return archive.filter(t => ids.has(t.id));
+};
+
+/**
+ * Archive entries ready to go back into `tasks`. A subtask whose parent is
+ * gone comes back at the top level, and links to tasks that no longer
+ * exist are dropped.
+ */
+export const restoreEntries = (tasks: Task[], entries: Task[]): Task[] => {
+  const liveIds = new Set(tasks.map(t => t.id));
+  const restoring = entries.filter(t => !liveIds.has(t.id));
+  const ids = new Set([...liveIds, ...restoring.map(t => t.id)]);
+
+  return restoring.map(({ archivedAt, ...task }) => {
+    const blockedBy = task.blockedBy?.filter(id => ids.has(id));
+    return {
+      ...task,
+      parentId: task.parentId && ids.has(task.parentId) ? task.parentId : undefined,
+      blockedBy: blockedBy?.length ? blockedBy : undefined,
+    };
+  });
+};
+
+export const loadAutoArchiveDays = (): number | null => {
+  const days = Number(localStorage.getItem(AUTO_ARCHIVE_KEY));
+  return Number.isInteger(days) && days > 0 ? days : null;
+};
+
+export const saveAutoArchiveDays = (days: number | null) => {
+  if (days === null) {
+    localStorage.removeItem(AUTO_ARCHIVE_KEY);
+  } else {
+    localStorage.setItem(AUTO_ARCHIVE_KEY, String(days));
+  }
+};
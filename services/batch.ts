@@ -0,0 +1,49 @@
+import { Task, Priority, AiSuggestion } from "../types";
+import { getAncestors, getSubtreeIds } from "./taskTree";
+import { removeDependencyLinks } from "./dependencies";
+import { moveTask } from "./taskOrder";
+import { applyBreakdown } from "./breakdown";
+
+/**
+ * The selected tasks that aren't inside another selected task, for actions
+ * that already carry a task's subtree along.
+ */
+export const getTopmostIds = (tasks: Task[], ids: Set<string>): string[] =>
+  tasks
+    .filter(t => ids.has(t.id) && !getAncestors(tasks, t.id).some(a => ids.has(a.id)))
+    .map(t => t.id);
+
+export const deleteTasks = (tasks: Task[], ids: Set<string>): Task[] => {
+  const removed = new Set<string>();
+  ids.forEach(id => getSubtreeIds(tasks, id).forEach(r => removed.add(r)));
+  if (removed.size === 0) return tasks;
+  return removeDependencyLinks(tasks.filter(t => !removed.has(t.id)), removed);
+};
+
+export const setPriority = (tasks: Task[], ids: Set<string>, priority: Priority): Task[] =>
+  tasks.map(t => (ids.has(t.id) && t.priority !== priority ? { ...t, priority } : t));
+
+/**
+ * Moves the selection, subtrees included, to the end of `parentId`'s
+ * subtasks (the top level when undefined). Tasks that can't go there (the
+ * parent itself or its ancestors) stay put.
+ */
+export const moveTasksTo = (tasks: Task[], ids: Set<string>, parentId: string | undefined): Task[] =>
+  getTopmostIds(tasks, ids).reduce((acc, id) => moveTask(acc, id, parentId), tasks);
+
+/**
+ * Adds the subtasks suggested for each task in one go.
+ */
+export const applyBreakdowns = (tasks: Task[], suggestions: Map<string, AiSuggestion[]>, now: number = Date.now()): Task[] =>
+  [...suggestions].reduce((acc, [parentId, accepted]) => applyBreakdown(acc, parentId, accepted, [], now), tasks);
+
+/**
+ * Ids from `anchorId` to `id` inclusive, in the order given, or just `id`
+ * when the anchor isn't in `orderedIds`.
+ */
+export const selectRange = (orderedIds: string[], anchorId: string | null, id: string): string[] => {
+  const from = anchorId ? orderedIds.indexOf(anchorId) : -1;
+  const to = orderedIds.indexOf(id);
+  if (from === -1 || to === -1) return [id];
+  return orderedIds.slice(Math.min(from, to), Math.max(from, to) + 1);
+};
@@ -0,0 +1,62 @@
+import { Task, TaskStatus, ViewMode } from "../types";
+
+const COLUMNS_KEY = 'gemini-todo-board-columns';
+const VIEW_KEY = 'gemini-todo-view';
+
+export const TASK_STATUS_LABELS: Record<TaskStatus, string> = {
+  [TaskStatus.TODO]: 'To do',
+  [TaskStatus.IN_PROGRESS]: 'In progress',
+  [TaskStatus.BLOCKED]: 'Blocked',
+  [TaskStatus.DONE]: 'Done',
+};
+
+/**
+ * A task's status, with `completed` taking precedence so data saved before
+ * statuses existed (or edited elsewhere) still lands in the right column.
+ */
+export const getTaskStatus = (task: Task): TaskStatus => {
+  if (task.completed) return TaskStatus.DONE;
+  return task.status && task.status !== TaskStatus.DONE ? task.status : TaskStatus.TODO;
+};
+
+export interface BoardColumn {
+  status: TaskStatus;
+  label: string;
+  hidden?: boolean;
+}
+
+export const DEFAULT_BOARD_COLUMNS: BoardColumn[] = (Object.values(TaskStatus) as TaskStatus[])
+  .map(status => ({ status, label: TASK_STATUS_LABELS[status] }));
+
+/**
+ * Saved columns in their saved order. Unknown statuses are dropped and
+ * missing ones are added at the end, so every status has one column.
+ */
+export const loadBoardColumns = (): BoardColumn[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(COLUMNS_KEY) || '[]');
+    if (!Array.isArray(saved)) return DEFAULT_BOARD_COLUMNS;
+    const columns = saved.filter((c, i) =>
+      c && DEFAULT_BOARD_COLUMNS.some(d => d.status === c.status) && saved.findIndex(o => o?.status === c.status) === i
+    ).map(c => ({
+      status: c.status as TaskStatus,
+      label: typeof c.label === 'string' && c.label.trim() ? c.label.trim() : TASK_STATUS_LABELS[c.status as TaskStatus],
+      hidden: c.hidden === true || undefined,
+    }));
+    return [...columns, ...DEFAULT_BOARD_COLUMNS.filter(d => !columns.some(c => c.status === d.status))];
+  } catch (err) {
+    console.error(err);
+    return DEFAULT_BOARD_COLUMNS;
+  }
+};
+
+export const saveBoardColumns = (columns: BoardColumn[]) => {
+  localStorage.setItem(COLUMNS_KEY, JSON.stringify(columns));
+};
+
+export const loadViewMode = (): ViewMode =>
+  localStorage.getItem(VIEW_KEY) === ViewMode.BOARD ? ViewMode.BOARD : ViewMode.LIST;
+
+export const saveViewMode = (view: ViewMode) => {
+  localStorage.setItem(VIEW_KEY, view);
+};
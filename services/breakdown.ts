@@ -0,0 +1,84 @@
+import { Task, AiSuggestion } from "../types";
+import { BreakdownContext } from "./ai";
+import { getAncestors, getSubtreeIds } from "./taskTree";
+
+export type BreakdownMode = 'append' | 'replace';
+
+export interface ReviewedSuggestion extends AiSuggestion {
+  // The existing subtask this suggestion looks like, if any
+  matchId?: string;
+}
+
+const words = (text: string): Set<string> =>
+  new Set(text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, ' ').split(/\s+/).filter(Boolean));
+
+/**
+ * Loose text equality: the same words, or at least 70% overlap between the
+ * two word sets.
+ */
+export const isSimilarText = (a: string, b: string): boolean => {
+  const left = words(a);
+  const right = words(b);
+  if (left.size === 0 || right.size === 0) return false;
+  const shared = [...left].filter(word => right.has(word)).length;
+  return shared / new Set([...left, ...right]).size >= 0.7;
+};
+
+export const getDirectSubtasks = (tasks: Task[], id: string): Task[] =>
+  tasks.filter(t => t.parentId === id).sort((a, b) => a.createdAt - b.createdAt);
+
+export const buildBreakdownContext = (tasks: Task[], id: string, hint?: string): BreakdownContext | null => {
+  const task = tasks.find(t => t.id === id);
+  if (!task) return null;
+  return {
+    taskText: task.text,
+    ancestors: getAncestors(tasks, id).map(t => t.text),
+    existingSubtasks: getDirectSubtasks(tasks, id).map(({ text, completed, priority }) => ({ text, completed, priority })),
+    hint: hint?.trim() || undefined,
+  };
+};
+
+/**
+ * Pairs each suggestion with the existing subtask it duplicates, so the
+ * review can show it as already covered rather than new.
+ */
+export const diffSuggestions = (suggestions: AiSuggestion[], existing: Task[]): ReviewedSuggestion[] =>
+  suggestions.map(suggestion => {
+    const match = existing.find(t => isSimilarText(t.text, suggestion.text));
+    return match ? { ...suggestion, matchId: match.id } : suggestion;
+  });
+
+/**
+ * Adds the accepted suggestions under `parentId`, after removing the
+ * subtasks (with their own subtrees) listed in `removeIds`.
+ */
+export const applyBreakdown = (
+  tasks: Task[],
+  parentId: string,
+  accepted: AiSuggestion[],
+  removeIds: string[],
+  now: number = Date.now()
+): Task[] => {
+  const parent = tasks.find(t => t.id === parentId);
+  if (!parent) return tasks;
+
+  const removed = new Set<string>();
+  removeIds.forEach(id => getSubtreeIds(tasks, id).forEach(r => removed.add(r)));
+
+  const added: Task[] = accepted.map(suggestion => ({
+    id: crypto.randomUUID(),
+    text: suggestion.text,
+    completed: false,
+    priority: suggestion.priority,
+    createdAt: now,
+    isAiGenerated: true,
+    parentId,
+    projectId: parent.projectId,
+    isExpanded: true,
+  }));
+
+  return tasks
+    .filter(t => !removed.has(t.id))
+    .map(t => (t.id === parentId ? { ...t, isExpanded: true } : t))
+    .concat(added);
+};
@@ -0,0 +1,68 @@
+import { Task } from "../types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const startOfDay = (time: number): number => {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+export const endOfDay = (time: number): number => startOfDay(time) + DAY_MS - 1;
+
+export const addDays = (time: number, days: number): number => {
+  const date = new Date(time);
+  date.setDate(date.getDate() + days);
+  return date.getTime();
+};
+
+export const isOverdue = (task: Task, now: number = Date.now()): boolean =>
+  !task.completed && task.dueAt !== undefined && task.dueAt < now;
+
+export const isDueToday = (task: Task, now: number = Date.now()): boolean =>
+  !task.completed && task.dueAt !== undefined &&
+  task.dueAt >= startOfDay(now) && task.dueAt <= endOfDay(now);
+
+export const isUpcoming = (task: Task, now: number = Date.now()): boolean =>
+  !task.completed && task.dueAt !== undefined && task.dueAt > endOfDay(now);
+
+/**
+ * Human-friendly due date label, e.g. "Today 14:00", "Tomorrow", "Mon, Oct 20".
+ */
+export const formatDueDate = (time: number, now: number = Date.now()): string => {
+  const date = new Date(time);
+  const hasTime = date.getHours() !== 0 || date.getMinutes() !== 0;
+  const timeLabel = hasTime
+    ? ` ${date.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })}`
+    : '';
+
+  const dayDiff = Math.round((startOfDay(time) - startOfDay(now)) / DAY_MS);
+  if (dayDiff === 0) return `Today${timeLabel}`;
+  if (dayDiff === 1) return `Tomorrow${timeLabel}`;
+  if (dayDiff === -1) return `Yesterday${timeLabel}`;
+
+  const sameYear = date.getFullYear() === new Date(now).getFullYear();
+  return date.toLocaleDateString(undefined, {
+    weekday: Math.abs(dayDiff) < 7 ? 'short' : undefined,
+    month: 'short',
+    day: 'numeric',
+    year: sameYear ? undefined : 'numeric',
+  }) + timeLabel;
+};
+
+/**
+ * Converts a timestamp to the local "YYYY-MM-DDTHH:mm" format used by
+ * `<input type="datetime-local">`.
+ */
+export const toDateTimeInputValue = (time?: number): string => {
+  if (time === undefined) return '';
+  const date = new Date(time);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+export const fromDateTimeInputValue = (value: string): number | undefined => {
+  if (!value) return undefined;
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? undefined : time;
+};
@@ -0,0 +1,181 @@
+import { Task, Priority } from "../types";
+import { buildTaskTree, computeSubtreeProgress } from "./taskTree";
+import { startOfDay, endOfDay, isOverdue } from "./dateUtils";
+
+/**
+ * Working hours as minutes after midnight, e.g. 9:00-17:00 is 540-1020.
+ */
+export interface WorkingHours {
+  start: number;
+  end: number;
+}
+
+export const DEFAULT_WORKING_HOURS: WorkingHours = { start: 9 * 60, end: 17 * 60 };
+export const SNAP_MINUTES = 15;
+
+export interface PlanTask {
+  id: string;
+  text: string;
+  priority: Priority;
+  dueAt?: number;
+  overdue: boolean;
+  subtasks: string[];
+  estimateMinutes?: number;
+}
+
+export interface PlanContext {
+  date: number;
+  hours: WorkingHours;
+  tasks: PlanTask[];
+}
+
+// A scheduled stretch of the day, in minutes after midnight
+export interface PlanBlock {
+  taskId: string;
+  start: number;
+  end: number;
+  note?: string;
+}
+
+const WORKING_HOURS_KEY = 'gemini-todo-working-hours';
+
+export const loadWorkingHours = (): WorkingHours => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(WORKING_HOURS_KEY) || 'null');
+    if (saved && typeof saved.start === 'number' && typeof saved.end === 'number' && saved.start < saved.end) {
+      return saved;
+    }
+  } catch (err) {
+    console.error(err);
+  }
+  return DEFAULT_WORKING_HOURS;
+};
+
+export const saveWorkingHours = (hours: WorkingHours) => {
+  localStorage.setItem(WORKING_HOURS_KEY, JSON.stringify(hours));
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// 570 -> "09:30"
+export const formatClock = (minutes: number): string => `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+
+// "9:30" or "09:30" -> 570
+export const parseClock = (value: string): number | undefined => {
+  const match = value.trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return undefined;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  return hours < 24 && minutes < 60 ? hours * 60 + minutes : undefined;
+};
+
+export const snapMinutes = (minutes: number): number => Math.round(minutes / SNAP_MINUTES) * SNAP_MINUTES;
+
+/**
+ * The active top-level tasks worth planning, with their open subtasks.
+ * Completed work and tasks due after `date` are left out. A task's estimate
+ * is its own, or else the sum of its open subtasks' estimates.
+ */
+export const buildPlanContext = (tasks: Task[], date: number, hours: WorkingHours): PlanContext => {
+  const { roots, childrenMap } = buildTaskTree(tasks.filter(t => !t.completed));
+  const progress = computeSubtreeProgress(childrenMap);
+  const dayEnd = endOfDay(date);
+
+  return {
+    date: startOfDay(date),
+    hours,
+    tasks: roots
+      .filter(t => t.dueAt === undefined || t.dueAt <= dayEnd)
+      .map(t => ({
+        id: t.id,
+        text: t.text,
+        priority: t.priority,
+        dueAt: t.dueAt,
+        overdue: isOverdue(t, date),
+        subtasks: (childrenMap.get(t.id) || []).map(st => st.text),
+        estimateMinutes: t.estimateMinutes ?? (progress.get(t.id)?.estimateMinutes || undefined),
+      })),
+  };
+};
+
+/**
+ * Cleans up a schedule from any source: drops blocks for unknown tasks and
+ * repeats, clamps blocks into working hours, and pushes overlapping blocks
+ * later. Blocks that no longer fit are dropped.
+ */
+export const normalizePlan = (blocks: PlanBlock[], context: PlanContext): PlanBlock[] => {
+  const known = new Set(context.tasks.map(t => t.id));
+  const seen = new Set<string>();
+  const { start: dayStart, end: dayEnd } = context.hours;
+  const result: PlanBlock[] = [];
+  let cursor = dayStart;
+
+  [...blocks]
+    .filter(b => known.has(b.taskId) && Number.isFinite(b.start) && Number.isFinite(b.end) && b.end > b.start)
+    .sort((a, b) => a.start - b.start)
+    .forEach(block => {
+      if (seen.has(block.taskId)) return;
+      const length = Math.max(SNAP_MINUTES, block.end - block.start);
+      const start = Math.max(block.start, cursor, dayStart);
+      const end = Math.min(start + length, dayEnd);
+      if (end - start < SNAP_MINUTES) return;
+      seen.add(block.taskId);
+      result.push({ ...block, start, end });
+      cursor = end;
+    });
+
+  return result;
+};
+
+const DEFAULT_MINUTES: Record<Priority, number> = {
+  [Priority.HIGH]: 90,
+  [Priority.MEDIUM]: 60,
+  [Priority.LOW]: 30,
+};
+const BREAK_MINUTES = 15;
+
+const priorityWeight = { [Priority.HIGH]: 3, [Priority.MEDIUM]: 2, [Priority.LOW]: 1 };
+
+/**
+ * Deterministic schedule used without a model: overdue and due-today work
+ * first, then by priority, each block sized from the estimate (or the
+ * priority) with a short break between blocks.
+ */
+export const ruleBasedPlan = (context: PlanContext): PlanBlock[] => {
+  const ordered = [...context.tasks].sort((a, b) =>
+    Number(b.overdue) - Number(a.overdue) ||
+    Number(b.dueAt !== undefined) - Number(a.dueAt !== undefined) ||
+    priorityWeight[b.priority] - priorityWeight[a.priority] ||
+    (a.dueAt ?? 0) - (b.dueAt ?? 0)
+  );
+
+  const blocks: PlanBlock[] = [];
+  let cursor = context.hours.start;
+  ordered.forEach(task => {
+    const length = snapMinutes(task.estimateMinutes ?? DEFAULT_MINUTES[task.priority]) || SNAP_MINUTES;
+    if (cursor + length > context.hours.end) return;
+    blocks.push({ taskId: task.id, start: cursor, end: cursor + length });
+    cursor += length + BREAK_MINUTES;
+  });
+  return blocks;
+};
+
+/**
+ * Writes accepted blocks into the tasks: a reminder when the block starts
+ * and a due time when it ends. An earlier existing deadline is kept.
+ */
+export const applyPlanBlocks = (tasks: Task[], blocks: PlanBlock[], date: number): Task[] => {
+  // setHours rather than adding milliseconds, so DST days come out right
+  const at = (minutes: number) => new Date(date).setHours(0, minutes, 0, 0);
+  const byTask = new Map(blocks.map(b => [b.taskId, b]));
+  return tasks.map(task => {
+    const block = byTask.get(task.id);
+    if (!block) return task;
+    const blockEnd = at(block.end);
+    return {
+      ...task,
+      remindAt: at(block.start),
+      dueAt: task.dueAt !== undefined && task.dueAt < blockEnd ? task.dueAt : blockEnd,
+    };
+  });
+};
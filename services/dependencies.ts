@@ -0,0 +1,152 @@
+import { Task, TaskStatus } from "../types";
+
+export interface DependencyNode {
+  task: Task;
+  children: DependencyNode[];
+}
+
+/**
+ * Blockers of each task that are still open, for tasks that have any.
+ * Links to tasks that no longer exist don't block.
+ */
+export const getOpenBlockersMap = (tasks: Task[]): Map<string, Task[]> => {
+  const byId = new Map(tasks.map(t => [t.id, t]));
+  const result = new Map<string, Task[]>();
+  tasks.forEach(task => {
+    const open = (task.blockedBy || [])
+      .map(id => byId.get(id))
+      .filter((t): t is Task => !!t && !t.completed);
+    if (open.length > 0) result.set(task.id, open);
+  });
+  return result;
+};
+
+export const getOpenBlockers = (tasks: Task[], task: Task): Task[] =>
+  (task.blockedBy || [])
+    .map(id => tasks.find(t => t.id === id))
+    .filter((t): t is Task => !!t && !t.completed);
+
+/**
+ * Open tasks nothing is waiting on: no open blockers and not marked as
+ * blocked by hand.
+ */
+export const findActionableIds = (tasks: Task[]): Set<string> => {
+  const blocked = getOpenBlockersMap(tasks);
+  return new Set(tasks
+    .filter(t => !t.completed && t.status !== TaskStatus.BLOCKED && !blocked.has(t.id))
+    .map(t => t.id));
+};
+
+// Ids from `fromId` to `toId` following blockedBy links, or null if `fromId`
+// doesn't wait on `toId` at all
+const findBlockerPath = (tasks: Task[], fromId: string, toId: string): string[] | null => {
+  const blockersOf = new Map(tasks.map(t => [t.id, t.blockedBy || []]));
+  const previous = new Map<string, string>();
+  const queue = [fromId];
+  const visited = new Set(queue);
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (current === toId) {
+      const path = [current];
+      while (path[0] !== fromId) path.unshift(previous.get(path[0])!);
+      return path;
+    }
+    (blockersOf.get(current) || []).forEach(next => {
+      if (visited.has(next)) return;
+      visited.add(next);
+      previous.set(next, current);
+      queue.push(next);
+    });
+  }
+  return null;
+};
+
+/**
+ * The loop that making `id` wait on `blockerId` would close, starting and
+ * ending at `id`, or null when the link is safe.
+ */
+export const findDependencyCycle = (tasks: Task[], id: string, blockerId: string): Task[] | null => {
+  const path = id === blockerId ? [id] : findBlockerPath(tasks, blockerId, id);
+  if (!path) return null;
+  return [id, ...path]
+    .map(pathId => tasks.find(t => t.id === pathId))
+    .filter((t): t is Task => !!t);
+};
+
+/**
+ * Makes `id` wait on `blockerId`. Throws when either task is missing or
+ * the link would close a loop.
+ */
+export const addBlocker = (tasks: Task[], id: string, blockerId: string): Task[] => {
+  const task = tasks.find(t => t.id === id);
+  if (!task || !tasks.some(t => t.id === blockerId)) throw new Error("Task not found");
+  if (task.blockedBy?.includes(blockerId)) return tasks;
+
+  const cycle = findDependencyCycle(tasks, id, blockerId);
+  if (cycle) {
+    throw new Error(`That would make a loop: ${cycle.map(t => `"${t.text}"`).join(" → ")}`);
+  }
+  return tasks.map(t => (t.id === id ? { ...t, blockedBy: [...(t.blockedBy || []), blockerId] } : t));
+};
+
+export const removeBlocker = (tasks: Task[], id: string, blockerId: string): Task[] =>
+  tasks.map(t => {
+    if (t.id !== id || !t.blockedBy?.includes(blockerId)) return t;
+    const blockedBy = t.blockedBy.filter(b => b !== blockerId);
+    return { ...t, blockedBy: blockedBy.length > 0 ? blockedBy : undefined };
+  });
+
+/**
+ * Points links to any of `fromIds` at `toId` instead, as when tasks are
+ * merged. `toId` keeps the blockers of the tasks merged into it, except
+ * those that would now wait on `toId` themselves.
+ */
+export const remapDependencies = (tasks: Task[], fromIds: Set<string>, toId: string): Task[] => {
+  const remapped = tasks.map(t => {
+    if (!t.blockedBy?.some(id => fromIds.has(id))) return t;
+    const blockedBy = [...new Set(t.blockedBy.map(id => (fromIds.has(id) ? toId : id)))].filter(id => id !== t.id);
+    return { ...t, blockedBy: blockedBy.length > 0 ? blockedBy : undefined };
+  });
+
+  const target = remapped.find(t => t.id === toId);
+  if (!target?.blockedBy) return remapped;
+  const others = remapped.map(t => (t.id === toId ? { ...t, blockedBy: undefined } : t));
+  const blockedBy = target.blockedBy.filter(id => !findBlockerPath(others, id, toId));
+  return remapped.map(t => (t.id === toId ? { ...t, blockedBy: blockedBy.length > 0 ? blockedBy : undefined } : t));
+};
+
+/**
+ * Drops links to deleted tasks.
+ */
+export const removeDependencyLinks = (tasks: Task[], removedIds: Set<string>): Task[] =>
+  tasks.map(t => {
+    if (!t.blockedBy?.some(id => removedIds.has(id))) return t;
+    const blockedBy = t.blockedBy.filter(id => !removedIds.has(id));
+    return { ...t, blockedBy: blockedBy.length > 0 ? blockedBy : undefined };
+  });
+
+/**
+ * What `id` waits on (upstream, following blockedBy) and what waits on it
+ * (downstream), as trees. A task met twice on one branch is not expanded
+ * again.
+ */
+export const getDependencyChain = (tasks: Task[], id: string): { upstream: DependencyNode[]; downstream: DependencyNode[] } => {
+  const byId = new Map(tasks.map(t => [t.id, t]));
+  const dependents = new Map<string, Task[]>();
+  tasks.forEach(t => t.blockedBy?.forEach(blockerId => {
+    dependents.set(blockerId, [...(dependents.get(blockerId) || []), t]);
+  }));
+
+  const build = (fromId: string, next: (id: string) => Task[], seen: Set<string>): DependencyNode[] =>
+    next(fromId)
+      .filter(t => !seen.has(t.id))
+      .map(t => ({ task: t, children: build(t.id, next, new Set(seen).add(t.id)) }));
+
+  const blockersOf = (taskId: string) =>
+    (byId.get(taskId)?.blockedBy || []).map(b => byId.get(b)).filter((t): t is Task => !!t);
+
+  return {
+    upstream: build(id, blockersOf, new Set([id])),
+    downstream: build(id, taskId => dependents.get(taskId) || [], new Set([id])),
+  };
+};
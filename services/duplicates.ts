@@ -0,0 +1,408 @@
+import { Task, Priority } from "../types";
+import { AiProvider } from "./ai";
+import { getAncestors, getSubtreeIds } from "./taskTree";
+import { remapDependencies } from "./dependencies";
+
+export interface DuplicateMatch {
+  task: Task;
+  // 0 to 1; 1 means the same text once case and punctuation are ignored
+  score: number;
+}
+
+// Scores at or above these count as likely duplicates
+export const TEXT_DUPLICATE_THRESHOLD = 0.8;
+export const EMBEDDING_DUPLICATE_THRESHOLD = 0.88;
+
+export const normalizeTaskText = (text: string): string =>
+  text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const bigrams = (text: string): Map<string, number> => {
+  const counts = new Map<string, number>();
+  for (let i = 0; i < text.length - 1; i++) {
+    const pair = text.slice(i, i + 2);
+    counts.set(pair, (counts.get(pair) ?? 0) + 1);
+  }
+  return counts;
+};
+
+// Sørensen-Dice over character pairs: tolerant of typos and word endings
+const diceCoefficient = (a: Map<string, number>, b: Map<string, number>): number => {
+  let size = 0;
+  let shared = 0;
+  a.forEach((count, pair) => {
+    size += count;
+    shared += Math.min(count, b.get(pair) ?? 0);
+  });
+  b.forEach(count => { size += count; });
+  return size === 0 ? 0 : (2 * shared) / size;
+};
+
+// Jaccard over words: tolerant of reordering
+const wordOverlap = (a: string, b: string): number => {
+  const left = new Set(a.split(' '));
+  const right = new Set(b.split(' '));
+  const shared = [...left].filter(word => right.has(word)).length;
+  return shared / new Set([...left, ...right]).size;
+};
+
+// 1 minus the edit distance (with swapped neighbours as one edit) over the
+// longer length: tolerant of typos
+const editSimilarity = (a: string, b: string): number => {
+  const longest = Math.max(a.length, b.length);
+  // The distance is at least the difference in length, so skip hopeless pairs
+  if (1 - Math.abs(a.length - b.length) / longest < TEXT_DUPLICATE_THRESHOLD) return 0;
+
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+      }
+    }
+    beforePrevious = previous;
+    previous = current;
+  }
+  return 1 - previous[b.length] / longest;
+};
+
+const similarity = (a: string, b: string, gramsA: Map<string, number>, gramsB: Map<string, number>): number => {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  return Math.max(diceCoefficient(gramsA, gramsB), wordOverlap(a, b), editSimilarity(a, b));
+};
+
+/**
+ * How alike two task texts are, from 0 to 1: the best of a character-pair,
+ * a word-overlap and an edit-distance score, so "Buy milk" / "buy mlik",
+ * "write report" / "write the report" and "call mom tonight" /
+ * "tonight call mom" all score high.
+ */
+export const textSimilarity = (a: string, b: string): number => {
+  const left = normalizeTaskText(a);
+  const right = normalizeTaskText(b);
+  return similarity(left, right, bigrams(left), bigrams(right));
+};
+
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+};
+
+/**
+ * Open tasks whose text looks like `text`, best match first. Completed tasks
+ * are left out: doing something again is not a duplicate.
+ */
+export const findSimilarTasks = (
+  tasks: Task[],
+  text: string,
+  { threshold = TEXT_DUPLICATE_THRESHOLD, limit = 3 }: { threshold?: number; limit?: number } = {}
+): DuplicateMatch[] =>
+  tasks
+    .filter(t => !t.completed)
+    .map(task => ({ task, score: textSimilarity(task.text, text) }))
+    .filter(match => match.score >= threshold)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+
+// Embeddings per provider, keyed by the exact text, so each text is sent once
+const embeddingCaches = new WeakMap<AiProvider, Map<string, number[]>>();
+
+/**
+ * Embeds the texts the provider hasn't seen yet and returns a vector for
+ * every text. Providers without embeddings return an empty map.
+ */
+export const getEmbeddings = async (
+  provider: AiProvider,
+  texts: string[],
+  signal?: AbortSignal
+): Promise<Map<string, number[]>> => {
+  if (!provider.embedTexts) return new Map();
+  if (!embeddingCaches.has(provider)) embeddingCaches.set(provider, new Map());
+  const cache = embeddingCaches.get(provider)!;
+
+  const missing = [...new Set(texts)].filter(text => !cache.has(text));
+  if (missing.length > 0) {
+    const vectors = await provider.embedTexts(missing, { signal });
+    missing.forEach((text, i) => vectors[i] && cache.set(text, vectors[i]));
+  }
+  return new Map(texts.flatMap(text => (cache.has(text) ? [[text, cache.get(text)!] as const] : [])));
+};
+
+/**
+ * Open tasks that mean the same as `text` according to the provider's
+ * embeddings, best match first. Resolves to nothing without embeddings.
+ */
+export const findSemanticMatches = async (
+  provider: AiProvider,
+  tasks: Task[],
+  text: string,
+  { threshold = EMBEDDING_DUPLICATE_THRESHOLD, limit = 3, signal }: { threshold?: number; limit?: number; signal?: AbortSignal } = {}
+): Promise<DuplicateMatch[]> => {
+  const open = tasks.filter(t => !t.completed);
+  const vectors = await getEmbeddings(provider, [text, ...open.map(t => t.text)], signal);
+  const target = vectors.get(text);
+  if (!target) return [];
+  return open
+    .map(task => ({ task, score: cosineSimilarity(target, vectors.get(task.text) ?? []) }))
+    .filter(match => match.score >= threshold)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+};
+
+/**
+ * Pairs of open tasks whose embeddings are close enough to count as
+ * duplicates, for `findDuplicateGroups`.
+ */
+export const findSemanticPairs = async (
+  provider: AiProvider,
+  tasks: Task[],
+  { threshold = EMBEDDING_DUPLICATE_THRESHOLD, signal }: { threshold?: number; signal?: AbortSignal } = {}
+): Promise<[string, string][]> => {
+  const open = tasks.filter(t => !t.completed);
+  const vectors = await getEmbeddings(provider, open.map(t => t.text), signal);
+  const pairs: [string, string][] = [];
+  for (let i = 0; i < open.length; i++) {
+    for (let j = i + 1; j < open.length; j++) {
+      const a = vectors.get(open[i].text);
+      const b = vectors.get(open[j].text);
+      if (a && b && cosineSimilarity(a, b) >= threshold) pairs.push([open[i].id, open[j].id]);
+    }
+  }
+  return pairs;
+};
+
+/**
+ * Index pairs of texts that could reach the duplicate threshold, found
+ * through shared character pairs and words instead of comparing every text
+ * with every other. A pair is kept when it could pass one of the scores:
+ * - the character-pair score needs 40% of both texts' pairs in common;
+ * - the edit score needs lengths within 20% of each other, and as an edit
+ *   breaks at most three pairs, 40% of the longer text's pairs less one;
+ * - the word score needs 80% of the longer text's words in common.
+ * So every pair `similarity` would accept is among these.
+ */
+const findCandidatePairs = (texts: string[], grams: Map<string, number>[]): [number, number][] => {
+  const words = texts.map(text => new Set(text ? text.split(' ') : []));
+  const gramIndex = new Map<string, [number, number][]>();
+  const wordIndex = new Map<string, number[]>();
+  const sharedGrams = new Int32Array(texts.length);
+  const sharedWords = new Int32Array(texts.length);
+  const candidates: [number, number][] = [];
+
+  texts.forEach((text, i) => {
+    // Earlier texts sharing anything with this one
+    const touched: number[] = [];
+    grams[i].forEach((count, pair) => {
+      gramIndex.get(pair)?.forEach(([j, other]) => {
+        if (sharedGrams[j] === 0 && sharedWords[j] === 0) touched.push(j);
+        sharedGrams[j] += Math.min(count, other);
+      });
+    });
+    words[i].forEach(word => {
+      wordIndex.get(word)?.forEach(j => {
+        if (sharedGrams[j] === 0 && sharedWords[j] === 0) touched.push(j);
+        sharedWords[j]++;
+      });
+    });
+
+    touched.forEach(j => {
+      const longest = Math.max(text.length, texts[j].length);
+      const pairCount = Math.max(text.length - 1, 0) + Math.max(texts[j].length - 1, 0);
+      // Rounded so that e.g. 1 edit in 5 characters still counts as 0.8
+      const maxEdits = Math.floor((1 - TEXT_DUPLICATE_THRESHOLD) * longest + 1e-9);
+      if (
+        (2 * sharedGrams[j]) / pairCount >= TEXT_DUPLICATE_THRESHOLD ||
+        (Math.abs(text.length - texts[j].length) <= maxEdits && sharedGrams[j] >= longest - 1 - 3 * maxEdits) ||
+        sharedWords[j] / Math.max(words[i].size, words[j].size) >= TEXT_DUPLICATE_THRESHOLD
+      ) {
+        candidates.push([j, i]);
+      }
+      sharedGrams[j] = 0;
+      sharedWords[j] = 0;
+    });
+
+    grams[i].forEach((count, pair) => {
+      if (!gramIndex.has(pair)) gramIndex.set(pair, []);
+      gramIndex.get(pair)!.push([i, count]);
+    });
+    words[i].forEach(word => {
+      if (!wordIndex.has(word)) wordIndex.set(word, []);
+      wordIndex.get(word)!.push(i);
+    });
+  });
+  return candidates;
+};
+
+// Tasks in the same line of descent aren't duplicates of each other
+const isRelated = (tasks: Task[], a: string, b: string): boolean =>
+  getAncestors(tasks, a).some(t => t.id === b) || getAncestors(tasks, b).some(t => t.id === a);
+
+// `isRelated` for many pairs of the same list, walking each task's ancestors once
+const relatedIn = (tasks: Task[]) => {
+  const byId = new Map(tasks.map(t => [t.id, t]));
+  const ancestorIds = new Map<string, Set<string>>();
+  const ancestorsOf = (id: string): Set<string> => {
+    if (!ancestorIds.has(id)) {
+      const ids = new Set<string>();
+      let parentId = byId.get(id)?.parentId;
+      while (parentId && byId.has(parentId) && parentId !== id && !ids.has(parentId)) {
+        ids.add(parentId);
+        parentId = byId.get(parentId)!.parentId;
+      }
+      ancestorIds.set(id, ids);
+    }
+    return ancestorIds.get(id)!;
+  };
+  return (a: string, b: string): boolean => ancestorsOf(a).has(b) || ancestorsOf(b).has(a);
+};
+
+/**
+ * Sets of open tasks that look like duplicates of each other, oldest task
+ * first in each. Pairs found some other way (e.g. by embeddings) can be
+ * passed in and are grouped the same way.
+ */
+export const findDuplicateGroups = (tasks: Task[], extraPairs: [string, string][] = []): Task[][] => {
+  const open = tasks.filter(t => !t.completed);
+  const normalized = open.map(t => normalizeTaskText(t.text));
+  const grams = normalized.map(bigrams);
+  const pairs: [string, string][] = [...extraPairs];
+  const related = relatedIn(tasks);
+
+  findCandidatePairs(normalized, grams).forEach(([i, j]) => {
+    if (similarity(normalized[i], normalized[j], grams[i], grams[j]) >= TEXT_DUPLICATE_THRESHOLD) {
+      pairs.push([open[i].id, open[j].id]);
+    }
+  });
+
+  // Union-find, so A~B and B~C end up in one group
+  const parent = new Map<string, string>();
+  const find = (id: string): string => {
+    while (parent.has(id) && parent.get(id) !== id) id = parent.get(id)!;
+    return id;
+  };
+  pairs
+    .filter(([a, b]) => a !== b && !related(a, b))
+    .forEach(([a, b]) => {
+      if (!parent.has(a)) parent.set(a, a);
+      if (!parent.has(b)) parent.set(b, b);
+      const rootA = find(a);
+      const rootB = find(b);
+      if (rootA !== rootB) parent.set(rootB, rootA);
+    });
+
+  const groups = new Map<string, Task[]>();
+  open.forEach(task => {
+    if (!parent.has(task.id)) return;
+    const root = find(task.id);
+    if (!groups.has(root)) groups.set(root, []);
+    groups.get(root)!.push(task);
+  });
+  // A chain of matches can reach a task's own subtask; `mergeTasks` would
+  // skip it, so it is left out here too
+  return [...groups.values()]
+    .map(group => group.sort((a, b) => a.createdAt - b.createdAt))
+    .map(([oldest, ...rest]) => [oldest, ...rest.filter(t => !related(oldest.id, t.id))])
+    .filter(group => group.length > 1);
+};
+
+const priorityRank = { [Priority.LOW]: 0, [Priority.MEDIUM]: 1, [Priority.HIGH]: 2 };
+
+const earliest = (values: (number | undefined)[]): number | undefined => {
+  const defined = values.filter((v): v is number => v !== undefined);
+  return defined.length > 0 ? Math.min(...defined) : undefined;
+};
+
+const latest = (values: (number | undefined)[]): number | undefined => {
+  const defined = values.filter((v): v is number => v !== undefined);
+  return defined.length > 0 ? Math.max(...defined) : undefined;
+};
+
+/**
+ * Merges the tasks in `ids` into the oldest of them. It keeps the highest
+ * priority, the earliest creation and due dates, every tag, and the tracked
+ * time of all of them. Their subtasks move under the survivor, and
+ * subtasks with the same text are merged in turn. Tasks related to the
+ * survivor as ancestor or descendant are left alone.
+ */
+export const mergeTasks = (tasks: Task[], ids: string[]): Task[] => {
+  const members = ids
+    .map(id => tasks.find(t => t.id === id))
+    .filter((t): t is Task => !!t)
+    .sort((a, b) => a.createdAt - b.createdAt);
+  if (members.length < 2) return tasks;
+
+  const [oldest] = members;
+  const merged = members.filter(t => t === oldest || !isRelated(tasks, oldest.id, t.id));
+  if (merged.length < 2) return tasks;
+  const others = new Set(merged.slice(1).map(t => t.id));
+
+  const tags = [...new Set(merged.flatMap(t => t.tags ?? []))];
+  const blockedBy = [...new Set(merged.flatMap(t => t.blockedBy ?? []))];
+  const trackedMs = merged.reduce((sum, t) => sum + (t.trackedMs ?? 0), 0);
+  const survivor: Task = {
+    ...oldest,
+    priority: merged.reduce((best, t) => (priorityRank[t.priority] > priorityRank[best] ? t.priority : best), oldest.priority),
+    completed: merged.every(t => t.completed),
+    completedAt: merged.every(t => t.completed) ? latest(merged.map(t => t.completedAt)) : undefined,
+    createdAt: oldest.createdAt,
+    dueAt: earliest(merged.map(t => t.dueAt)),
+    remindAt: earliest(merged.map(t => t.remindAt)),
+    recurrence: oldest.recurrence ?? merged.find(t => t.recurrence)?.recurrence,
+    tags: tags.length > 0 ? tags : undefined,
+    projectId: oldest.projectId ?? merged.find(t => t.projectId)?.projectId,
+    estimateMinutes: oldest.estimateMinutes ?? merged.find(t => t.estimateMinutes)?.estimateMinutes,
+    trackedMs: trackedMs > 0 ? trackedMs : undefined,
+    timerStartedAt: earliest(merged.map(t => t.timerStartedAt)),
+    isAiGenerated: merged.every(t => t.isAiGenerated) || undefined,
+    isExpanded: true,
+    blockedBy: blockedBy.length > 0 ? blockedBy : undefined,
+  };
+
+  // Links to the merged tasks now point at the survivor
+  const reparented = remapDependencies(
+    tasks
+      .filter(t => !others.has(t.id))
+      .map(t => {
+        if (t.id === survivor.id) return survivor;
+        return t.parentId && others.has(t.parentId) ? { ...t, parentId: survivor.id } : t;
+      }),
+    others,
+    survivor.id
+  );
+
+  // Subtasks live in their root's project, so the moved ones follow it
+  const subtree = getSubtreeIds(reparented, survivor.id);
+  const rootProject = (getAncestors(reparented, survivor.id)[0] ?? survivor).projectId;
+  let result = reparented.map(t => (subtree.has(t.id) && t.id !== survivor.id ? { ...t, projectId: rootProject } : t));
+
+  // Combine subtasks that now say the same thing
+  const byText = new Map<string, string[]>();
+  result
+    .filter(t => t.parentId === survivor.id)
+    .forEach(t => {
+      const key = normalizeTaskText(t.text);
+      byText.set(key, [...(byText.get(key) ?? []), t.id]);
+    });
+  byText.forEach(group => {
+    if (group.length > 1) result = mergeTasks(result, group);
+  });
+
+  return result;
+};
@@ -0,0 +1,154 @@
+import { Task, Priority } from "../types";
+import { EstimateContext } from "./ai";
+import { buildBreakdownContext } from "./breakdown";
+
+const MINUTE = 60 * 1000;
+
+// Tracked time so far, including the stretch of a timer that is still running
+export const getTrackedMs = (task: Task, now: number = Date.now()): number =>
+  (task.trackedMs ?? 0) + (task.timerStartedAt !== undefined ? Math.max(0, now - task.timerStartedAt) : 0);
+
+// 45 -> "45m", 90 -> "1h 30m", 120 -> "2h"
+export const formatMinutes = (minutes: number): string => {
+  const rounded = Math.round(minutes);
+  const hours = Math.floor(rounded / 60);
+  const rest = rounded % 60;
+  if (hours === 0) return `${rest}m`;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+};
+
+// A running timer's display, e.g. "4:05" or "1:02:09"
+export const formatElapsed = (ms: number): string => {
+  const seconds = Math.floor(ms / 1000);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  return h > 0 ? `${h}:${pad(m)}:${pad(s)}` : `${m}:${pad(s)}`;
+};
+
+// "90", "1h 30m", "1.5h", "45 min" -> minutes
+export const parseMinutes = (value: string): number | undefined => {
+  const text = value.trim().toLowerCase();
+  if (!text) return undefined;
+  if (/^\d+$/.test(text)) return Number(text) || undefined;
+  const match = text.match(/^(?:(\d+(?:\.\d+)?)\s*h(?:ours?|rs?)?)?\s*(?:(\d+)\s*m(?:in(?:ute)?s?)?)?$/);
+  if (!match || (!match[1] && !match[2])) return undefined;
+  const minutes = Math.round(Number(match[1] ?? 0) * 60 + Number(match[2] ?? 0));
+  return minutes > 0 ? minutes : undefined;
+};
+
+const stopTask = (task: Task, now: number): Task =>
+  task.timerStartedAt === undefined
+    ? task
+    : { ...task, trackedMs: getTrackedMs(task, now), timerStartedAt: undefined };
+
+/**
+ * Starts the timer on `id`, or stops it if it is running. Only one timer
+ * runs at a time, so starting one stops any other.
+ */
+export const toggleTimer = (tasks: Task[], id: string, now: number = Date.now()): Task[] => {
+  const target = tasks.find(t => t.id === id);
+  if (!target) return tasks;
+  if (target.timerStartedAt !== undefined) {
+    return tasks.map(t => (t.id === id ? stopTask(t, now) : t));
+  }
+  return tasks.map(t => (t.id === id ? { ...t, timerStartedAt: now } : stopTask(t, now)));
+};
+
+// Stops the timers running on any of `ids`, e.g. when they are completed
+export const stopTimers = (tasks: Task[], ids: Set<string>, now: number = Date.now()): Task[] =>
+  tasks.map(t => (ids.has(t.id) ? stopTask(t, now) : t));
+
+/**
+ * The breakdown context for `id` plus a few recently finished tasks with
+ * their estimate and tracked time, so a model can calibrate to how long
+ * this user's work really takes.
+ */
+export const buildEstimateContext = (tasks: Task[], id: string, limit: number = 5): EstimateContext | null => {
+  const context = buildBreakdownContext(tasks, id);
+  if (!context) return null;
+  const history = collectDrift(tasks)
+    .sort((a, b) => b.task.createdAt - a.task.createdAt)
+    .slice(0, limit)
+    .map(({ task, estimateMinutes, actualMinutes }) => ({ text: task.text, estimateMinutes, actualMinutes }));
+  return { ...context, history };
+};
+
+export interface DriftEntry {
+  task: Task;
+  estimateMinutes: number;
+  actualMinutes: number;
+  // Actual over estimate: above 1 means it took longer than planned
+  ratio: number;
+}
+
+export interface DriftSummary {
+  label: string;
+  count: number;
+  estimateMinutes: number;
+  actualMinutes: number;
+  ratio: number;
+}
+
+export interface DriftReport {
+  entries: DriftEntry[];
+  overall: DriftSummary | null;
+  bySource: DriftSummary[];
+  byPriority: DriftSummary[];
+  byTag: DriftSummary[];
+}
+
+// Under a minute of tracking is too little to compare against
+const MIN_TRACKED_MS = MINUTE;
+
+const collectDrift = (tasks: Task[]): DriftEntry[] =>
+  tasks.flatMap(task => {
+    const trackedMs = task.trackedMs ?? 0;
+    if (!task.completed || !task.estimateMinutes || trackedMs < MIN_TRACKED_MS) return [];
+    const actualMinutes = Math.round(trackedMs / MINUTE);
+    return [{ task, estimateMinutes: task.estimateMinutes, actualMinutes, ratio: actualMinutes / task.estimateMinutes }];
+  });
+
+const summarize = (label: string, entries: DriftEntry[]): DriftSummary => {
+  const estimateMinutes = entries.reduce((sum, e) => sum + e.estimateMinutes, 0);
+  const actualMinutes = entries.reduce((sum, e) => sum + e.actualMinutes, 0);
+  return { label, count: entries.length, estimateMinutes, actualMinutes, ratio: actualMinutes / estimateMinutes };
+};
+
+const groupBy = (entries: DriftEntry[], keysOf: (entry: DriftEntry) => string[]): DriftSummary[] => {
+  const groups = new Map<string, DriftEntry[]>();
+  entries.forEach(entry => keysOf(entry).forEach(key => {
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(entry);
+  }));
+  return [...groups].map(([key, group]) => summarize(key, group));
+};
+
+/**
+ * Compares estimates with tracked time for every completed task that has
+ * both. Entries come biggest miss first, whichever way it went; summaries
+ * weigh tasks by their size rather than averaging ratios.
+ */
+export const buildDriftReport = (tasks: Task[]): DriftReport => {
+  const entries = collectDrift(tasks)
+    .sort((a, b) => Math.abs(Math.log(b.ratio || 1)) - Math.abs(Math.log(a.ratio || 1)));
+  const priorityOrder = [Priority.HIGH, Priority.MEDIUM, Priority.LOW];
+
+  return {
+    entries,
+    overall: entries.length > 0 ? summarize('All tasks', entries) : null,
+    bySource: groupBy(entries, e => [e.task.isEstimateAiGenerated ? 'AI estimates' : 'Your estimates']),
+    byPriority: groupBy(entries, e => [e.task.priority])
+      .sort((a, b) => priorityOrder.indexOf(a.label as Priority) - priorityOrder.indexOf(b.label as Priority)),
+    byTag: groupBy(entries, e => e.task.tags ?? [])
+      .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label)),
+  };
+};
+
+// 1.25 -> "25% over", 0.8 -> "20% under", 1 -> "on target"
+export const describeDrift = (ratio: number): string => {
+  const percent = Math.round((ratio - 1) * 100);
+  if (Math.abs(percent) < 5) return 'on target';
+  return percent > 0 ? `${percent}% over` : `${-percent}% under`;
+};
@@ -0,0 +1,139 @@
+import { Task } from "../../types";
+import { TaskFormat } from "./types";
+import { formatRrule, parseRrule } from "./ical";
+
+const COLUMNS = ['id', 'text', 'completed', 'completedAt', 'status', 'priority', 'createdAt', 'dueAt', 'recurrence', 'parentId', 'blockedBy', 'tags', 'projectId', 'isAiGenerated', 'archivedAt'] as const;
+
+const toIso = (time?: number) => (time === undefined ? '' : new Date(time).toISOString());
+
+export const fromIso = (value: string): number | string => {
+  const time = Date.parse(value);
+  // Left as a string so validation reports it instead of silently dropping it
+  return Number.isNaN(time) ? value : time;
+};
+
+const quote = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+const cellsFor = (task: Task): string[] => [
+  task.id,
+  task.text,
+  String(task.completed),
+  toIso(task.completedAt),
+  task.status ?? '',
+  task.priority,
+  toIso(task.createdAt),
+  toIso(task.dueAt),
+  task.recurrence ? formatRrule(task.recurrence) : '',
+  task.parentId ?? '',
+  (task.blockedBy || []).join(' '),
+  (task.tags || []).join(' '),
+  task.projectId ?? '',
+  task.isAiGenerated ? 'true' : '',
+  toIso(task.archivedAt),
+];
+
+/**
+ * Splits RFC 4180 CSV into rows of cells: quoted cells may contain commas,
+ * doubled quotes and line breaks.
+ */
+export const parseCsvRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Blank lines come through as a single empty cell
+  return rows.filter(r => r.length > 1 || r[0] !== '');
+};
+
+/**
+ * Spreadsheet-friendly flat table, one task per row with a header row.
+ * Dates are ISO 8601, tags are space-separated and repeating tasks carry an
+ * iCalendar RRULE. Columns are matched by header name on import, so they
+ * can be reordered or dropped.
+ */
+export const csvFormat: TaskFormat = {
+  id: 'csv',
+  label: 'CSV spreadsheet',
+  extensions: ['.csv'],
+  mimeType: 'text/csv',
+
+  serialize: (tasks) =>
+    [COLUMNS.join(','), ...tasks.map(task => cellsFor(task).map(quote).join(','))].join('\r\n') + '\r\n',
+
+  parse: (text) => {
+    const [header, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ''));
+    const columns = (header || []).map(name => name.trim());
+    if (!columns.includes('text')) {
+      throw new Error("Invalid CSV file: expected a header row with a \"text\" column.");
+    }
+
+    return rows.map(cells => {
+      const value = (column: string) => {
+        const index = columns.indexOf(column);
+        return index === -1 ? undefined : (cells[index] ?? '').trim();
+      };
+      const record: Record<string, unknown> = { id: value('id') || crypto.randomUUID(), text: value('text') };
+
+      const completed = value('completed');
+      if (completed !== undefined) record.completed = /^(true|yes|x|1)$/i.test(completed);
+      const completedAt = value('completedAt');
+      if (completedAt) record.completedAt = fromIso(completedAt);
+      const status = value('status');
+      if (status) record.status = status.toLowerCase();
+      const priority = value('priority');
+      if (priority) record.priority = priority.toLowerCase();
+      const createdAt = value('createdAt');
+      if (createdAt) record.createdAt = fromIso(createdAt);
+      const dueAt = value('dueAt');
+      if (dueAt !== undefined) record.dueAt = dueAt ? fromIso(dueAt) : undefined;
+      const recurrence = value('recurrence');
+      if (recurrence) record.recurrence = parseRrule(recurrence.toUpperCase()) ?? recurrence;
+      const parentId = value('parentId');
+      if (parentId) record.parentId = parentId;
+      const blockedBy = value('blockedBy');
+      if (blockedBy) record.blockedBy = blockedBy.split(/[\s,]+/).filter(Boolean);
+      const tags = value('tags');
+      if (tags) record.tags = tags.split(/[\s,]+/).map(tag => tag.replace(/^#/, '').toLowerCase()).filter(Boolean);
+      const projectId = value('projectId');
+      if (projectId) record.projectId = projectId;
+      if (value('isAiGenerated') === 'true') record.isAiGenerated = true;
+      const archivedAt = value('archivedAt');
+      if (archivedAt) record.archivedAt = fromIso(archivedAt);
+
+      return record;
+    });
+  },
+};
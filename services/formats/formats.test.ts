@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { Task, Priority, RecurrenceFrequency, TaskStatus } from '../../types';
+import { validateImportRecord } from '../importValidation';
+import { TaskFormat } from './types';
+import { jsonFormat } from './json';
+import { markdownFormat } from './markdown';
+import { csvFormat } from './csv';
+import { todoTxtFormat } from './todotxt';
+import { icalFormat } from './ical';
+
+// Local times on whole days or minutes, the finest todo.txt and Markdown keep
+const at = (month: number, day: number, hour = 0, minute = 0) => new Date(2026, month - 1, day, hour, minute).getTime();
+
+const TASKS: Task[] = [
+  {
+    id: 'launch',
+    text: 'Plan the launch, "v2"',
+    completed: false,
+    priority: Priority.HIGH,
+    createdAt: at(10, 1),
+    dueAt: at(10, 20, 14, 30),
+    tags: ['work', 'q4'],
+    recurrence: { frequency: RecurrenceFrequency.WEEKLY, interval: 2, byWeekday: [1, 3] },
+    status: TaskStatus.IN_PROGRESS,
+    projectId: 'project-1',
+  },
+  {
+    id: 'announce',
+    text: 'Write the announcement',
+    completed: true,
+    completedAt: at(10, 5),
+    priority: Priority.LOW,
+    createdAt: at(10, 2),
+    parentId: 'launch',
+    blockedBy: ['venue'],
+    isAiGenerated: true,
+  },
+  {
+    id: 'venue',
+    text: 'Book the venue',
+    completed: false,
+    priority: Priority.MEDIUM,
+    createdAt: at(10, 3),
+    recurrence: { frequency: RecurrenceFrequency.MONTHLY, interval: 1, count: 3 },
+    archivedAt: at(10, 6),
+  },
+  // Texts that look like the formats' own markup
+  {
+    id: 'ship',
+    text: 'Ship it !now',
+    completed: false,
+    priority: Priority.HIGH,
+    createdAt: at(10, 4),
+    tags: ['release'],
+  },
+  {
+    id: 'bug',
+    text: 'Fix bug #42',
+    completed: false,
+    priority: Priority.LOW,
+    createdAt: at(10, 7),
+    dueAt: at(10, 21),
+    parentId: 'launch',
+  },
+  {
+    id: 'rename',
+    text: 'Rename id:foo to due:tomorrow',
+    completed: false,
+    priority: Priority.MEDIUM,
+    createdAt: at(10, 8),
+    blockedBy: ['ship'],
+  },
+];
+
+// Every format keeps these
+const CORE_FIELDS = ['id', 'text', 'completed', 'completedAt', 'priority', 'createdAt', 'dueAt', 'tags', 'parentId', 'blockedBy', 'recurrence'];
+
+const CASES: { format: TaskFormat; fields: string[] }[] = [
+  { format: jsonFormat, fields: [...new Set(TASKS.flatMap(task => Object.keys(task)))] },
+  { format: csvFormat, fields: [...CORE_FIELDS, 'status', 'projectId', 'isAiGenerated', 'archivedAt'] },
+  { format: markdownFormat, fields: CORE_FIELDS },
+  { format: todoTxtFormat, fields: CORE_FIELDS },
+  { format: icalFormat, fields: CORE_FIELDS },
+];
+
+const pick = (task: Task, fields: string[]) =>
+  Object.fromEntries(fields.map(field => [field, (task as unknown as Record<string, unknown>)[field]]));
+
+// Parses what `format` wrote and validates it the way an import does
+const roundTrip = (format: TaskFormat, tasks: Task[]): Task[] =>
+  format.parse(format.serialize(tasks)).map(record => {
+    const { task, errors } = validateImportRecord(record);
+    expect(errors).toEqual([]);
+    return task!;
+  });
+
+describe.each(CASES)('$format.label', ({ format, fields }) => {
+  it('reads back what it writes', () => {
+    const parsed = new Map(roundTrip(format, TASKS).map(task => [task.id, task]));
+
+    expect(parsed.size).toBe(TASKS.length);
+    TASKS.forEach(task => {
+      expect(pick(parsed.get(task.id)!, fields)).toEqual(pick(task, fields));
+    });
+  });
+});
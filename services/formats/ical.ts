@@ -0,0 +1,200 @@
+import { Task, Priority, Recurrence, RecurrenceFrequency, TaskStatus } from "../../types";
+import { TaskFormat } from "./types";
+
+const PRODUCT_ID = '-//Gemini TaskFlow//Tasks//EN';
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// RFC 5545 priority: 1 is highest, 9 lowest, 0 undefined
+const PRIORITY_VALUES: Record<Priority, number> = {
+  [Priority.HIGH]: 1,
+  [Priority.MEDIUM]: 5,
+  [Priority.LOW]: 9,
+};
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const unescapeText = (value: string) =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) => (char.toLowerCase() === 'n' ? '\n' : char));
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// UTC date-time, e.g. 20261020T143000Z
+const formatUtc = (time: number): string => {
+  const d = new Date(time);
+  return `${d.getUTCFullYear()}${pad(d.getUTCMonth() + 1)}${pad(d.getUTCDate())}T${pad(d.getUTCHours())}${pad(d.getUTCMinutes())}${pad(d.getUTCSeconds())}Z`;
+};
+
+// All-day dates stay all-day; anything with a time is written in UTC
+const formatDue = (time: number): string => {
+  const d = new Date(time);
+  if (d.getHours() === 0 && d.getMinutes() === 0) {
+    return `;VALUE=DATE:${d.getFullYear()}${pad(d.getMonth() + 1)}${pad(d.getDate())}`;
+  }
+  return `:${formatUtc(time)}`;
+};
+
+/**
+ * Reads DATE and DATE-TIME values. Floating times and TZID times are read
+ * as local time, which is right for calendars exported from the same zone.
+ */
+const parseDateValue = (value: string): number | undefined => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return undefined;
+  const [, y, mo, d, h = '0', mi = '0', s = '0', utc] = match;
+  return utc
+    ? Date.UTC(+y, +mo - 1, +d, +h, +mi, +s)
+    : new Date(+y, +mo - 1, +d, +h, +mi, +s).getTime();
+};
+
+// The RRULE value, e.g. FREQ=WEEKLY;BYDAY=MO,WE; the text formats use it too
+export const formatRrule = (rec: Recurrence): string => {
+  const parts = [`FREQ=${rec.frequency.toUpperCase()}`];
+  if (rec.interval > 1) parts.push(`INTERVAL=${rec.interval}`);
+  if (rec.byWeekday?.length) parts.push(`BYDAY=${rec.byWeekday.map(day => WEEKDAY_CODES[day]).join(',')}`);
+  if (rec.until !== undefined) parts.push(`UNTIL=${formatUtc(rec.until)}`);
+  if (rec.count !== undefined) parts.push(`COUNT=${rec.count}`);
+  return parts.join(';');
+};
+
+export const parseRrule = (value: string): Recurrence | undefined => {
+  const rule = Object.fromEntries(value.split(';').map(part => part.split('=') as [string, string]));
+  const frequency = rule.FREQ?.toLowerCase() as RecurrenceFrequency;
+  if (!Object.values(RecurrenceFrequency).includes(frequency)) return undefined;
+
+  const recurrence: Recurrence = { frequency, interval: Math.max(1, parseInt(rule.INTERVAL, 10) || 1) };
+  const weekdays = (rule.BYDAY || '').split(',')
+    .map((code: string) => WEEKDAY_CODES.indexOf(code.slice(-2)))
+    .filter((day: number) => day !== -1);
+  if (weekdays.length > 0) recurrence.byWeekday = weekdays;
+  const until = rule.UNTIL ? parseDateValue(rule.UNTIL) : undefined;
+  if (until !== undefined) recurrence.until = until;
+  if (rule.COUNT) recurrence.count = parseInt(rule.COUNT, 10);
+  return recurrence;
+};
+
+// Folds a content line to 75 octets, continuing with a leading space
+const foldLine = (line: string): string[] => {
+  const encoder = new TextEncoder();
+  const folded: string[] = [];
+  let current = '';
+  let size = 0;
+
+  for (const char of line) {
+    const charSize = encoder.encode(char).length;
+    const limit = folded.length === 0 ? 75 : 74;
+    if (size + charSize > limit) {
+      folded.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += charSize;
+  }
+  folded.push(current);
+  return folded.map((part, i) => (i === 0 ? part : ` ${part}`));
+};
+
+const todoLines = (task: Task): string[] => {
+  const lines = [
+    'BEGIN:VTODO',
+    `UID:${task.id}`,
+    `DTSTAMP:${formatUtc(task.updatedAt ?? task.createdAt)}`,
+    `CREATED:${formatUtc(task.createdAt)}`,
+    `SUMMARY:${escapeText(task.text)}`,
+    `STATUS:${task.completed ? 'COMPLETED' : task.status === TaskStatus.IN_PROGRESS ? 'IN-PROCESS' : 'NEEDS-ACTION'}`,
+    `PRIORITY:${PRIORITY_VALUES[task.priority]}`,
+  ];
+  if (task.dueAt !== undefined) lines.push(`DUE${formatDue(task.dueAt)}`);
+  if (task.completed && task.completedAt !== undefined) lines.push(`COMPLETED:${formatUtc(task.completedAt)}`);
+  if (task.parentId) lines.push(`RELATED-TO;RELTYPE=PARENT:${task.parentId}`);
+  task.blockedBy?.forEach(id => lines.push(`RELATED-TO;RELTYPE=DEPENDS-ON:${id}`));
+  if (task.tags?.length) lines.push(`CATEGORIES:${task.tags.map(escapeText).join(',')}`);
+  if (task.recurrence) lines.push(`RRULE:${formatRrule(task.recurrence)}`);
+  lines.push('END:VTODO');
+  return lines;
+};
+
+// Splits "NAME;PARAM=x:value" into its parts
+const parseContentLine = (line: string) => {
+  const colon = line.search(/:(?=(?:[^"]*"[^"]*")*[^"]*$)/);
+  const head = colon === -1 ? line : line.slice(0, colon);
+  const [name, ...params] = head.split(';');
+  return { name: name.toUpperCase(), params: params.map(p => p.toUpperCase()), value: colon === -1 ? '' : line.slice(colon + 1) };
+};
+
+/**
+ * iCalendar (RFC 5545) with one VTODO per task, for calendar and task apps.
+ * Subtasks and blocking tasks are linked with RELATED-TO, tags become
+ * CATEGORIES and repeating tasks carry an RRULE.
+ */
+export const icalFormat: TaskFormat = {
+  id: 'ical',
+  label: 'iCalendar',
+  extensions: ['.ics'],
+  mimeType: 'text/calendar',
+
+  serialize: (tasks) => {
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      `PRODID:${PRODUCT_ID}`,
+      ...tasks.flatMap(todoLines),
+      'END:VCALENDAR',
+    ];
+    return lines.flatMap(foldLine).join('\r\n') + '\r\n';
+  },
+
+  parse: (text) => {
+    const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+    if (!lines.some(line => line.toUpperCase() === 'BEGIN:VCALENDAR')) {
+      throw new Error("Invalid iCalendar file: no VCALENDAR found.");
+    }
+
+    const records: Record<string, unknown>[] = [];
+    let record: Record<string, unknown> | null = null;
+
+    lines.forEach(line => {
+      const { name, params, value } = parseContentLine(line);
+      if (name === 'BEGIN' && value.toUpperCase() === 'VTODO') {
+        record = { completed: false };
+        return;
+      }
+      if (!record) return;
+
+      switch (name) {
+        case 'END':
+          if (value.toUpperCase() === 'VTODO') {
+            record.id ??= crypto.randomUUID();
+            records.push(record);
+            record = null;
+          }
+          break;
+        case 'UID': record.id = value; break;
+        case 'SUMMARY': record.text = unescapeText(value); break;
+        case 'STATUS':
+          record.completed = value.toUpperCase() === 'COMPLETED';
+          if (value.toUpperCase() === 'IN-PROCESS') record.status = TaskStatus.IN_PROGRESS;
+          break;
+        case 'PRIORITY': {
+          const level = parseInt(value, 10);
+          record.priority = !level ? Priority.MEDIUM : level <= 4 ? Priority.HIGH : level === 5 ? Priority.MEDIUM : Priority.LOW;
+          break;
+        }
+        case 'CREATED': record.createdAt = parseDateValue(value); break;
+        case 'DUE': record.dueAt = parseDateValue(value); break;
+        case 'COMPLETED': record.completedAt = parseDateValue(value); break;
+        case 'RELATED-TO':
+          if (!params.some(p => p.startsWith('RELTYPE=')) || params.includes('RELTYPE=PARENT')) record.parentId = value;
+          else if (params.includes('RELTYPE=DEPENDS-ON')) record.blockedBy = [...(record.blockedBy as string[] || []), value];
+          break;
+        case 'CATEGORIES':
+          record.tags = [...(record.tags as string[] || []), ...value.split(/(?<!\\),/).map(tag => unescapeText(tag).trim().toLowerCase()).filter(Boolean)];
+          break;
+        case 'RRULE': record.recurrence = parseRrule(value); break;
+      }
+    });
+
+    return records;
+  },
+};
@@ -0,0 +1,21 @@
+import { TaskFormat } from "./types";
+import { jsonFormat } from "./json";
+import { markdownFormat } from "./markdown";
+import { csvFormat } from "./csv";
+import { todoTxtFormat } from "./todotxt";
+import { icalFormat } from "./ical";
+
+export type { TaskFormat } from "./types";
+
+// Export menu order; JSON stays first as the lossless backup format
+export const TASK_FORMATS: TaskFormat[] = [jsonFormat, markdownFormat, csvFormat, todoTxtFormat, icalFormat];
+
+export const IMPORT_ACCEPT = TASK_FORMATS.flatMap(format => format.extensions).join(',');
+
+/**
+ * Picks the format for a file by its extension, defaulting to JSON.
+ */
+export const getFormatForFile = (fileName: string): TaskFormat => {
+  const name = fileName.toLowerCase();
+  return TASK_FORMATS.find(format => format.extensions.some(ext => name.endsWith(ext))) ?? jsonFormat;
+};
@@ -0,0 +1,16 @@
+import { TaskFormat } from "./types";
+
+export const jsonFormat: TaskFormat = {
+  id: 'json',
+  label: 'JSON backup',
+  extensions: ['.json'],
+  mimeType: 'application/json',
+  serialize: (tasks) => JSON.stringify(tasks, null, 2),
+  parse: (text) => {
+    const parsed = JSON.parse(text);
+    if (!Array.isArray(parsed)) {
+      throw new Error("Invalid backup file format: expected a list of tasks.");
+    }
+    return parsed;
+  },
+};
@@ -0,0 +1,122 @@
+import { Task, Priority } from "../../types";
+import { TaskFormat } from "./types";
+import { buildTaskTree } from "../taskTree";
+import { toDateTimeInputValue } from "../dateUtils";
+import { parseDueToken } from "../quickAddParser";
+import { fromIso } from "./csv";
+import { formatRrule, parseRrule } from "./ical";
+
+const ITEM_RE = /^(\s*)[-*+]\s+\[([ xX])\]\s+(.*)$/;
+// Hidden key:value details, e.g. <!-- id:abc created:2026-10-20T12:00:00.000Z -->
+const META_RE = /\s*<!--((?:\s*[a-z-]+:\S+)+)\s*-->\s*$/i;
+// Trailing quick-add tokens, read from hand-written lists without the comment
+const TOKEN_RE = /\s+(![a-z]+|#[\p{L}\p{N}_-]+|@\d{4}-\d{2}-\d{2}(?:T\d{2}:\d{2})?)$/iu;
+
+const INDENT = '  ';
+
+// "2026-10-20", or "2026-10-20T14:30" when the time isn't midnight
+export const formatLocalDate = (time: number): string =>
+  toDateTimeInputValue(time).replace(/T00:00$/, '');
+
+// Everything but the text and checkbox goes in the hidden comment, so a
+// text ending in something token-like (e.g. "Fix bug #42") reads back as is
+const metaFor = (task: Task): string => [
+  `id:${task.id}`,
+  `priority:${task.priority}`,
+  task.tags?.length ? `tags:${task.tags.join(',')}` : '',
+  task.dueAt !== undefined ? `due:${new Date(task.dueAt).toISOString()}` : '',
+  `created:${new Date(task.createdAt).toISOString()}`,
+  task.completedAt !== undefined ? `completed:${new Date(task.completedAt).toISOString()}` : '',
+  task.blockedBy?.length ? `blocked-by:${task.blockedBy.join(',')}` : '',
+  task.recurrence ? `repeat:${formatRrule(task.recurrence)}` : '',
+].filter(Boolean).join(' ');
+
+const taskLine = (task: Task, depth: number): string =>
+  `${INDENT.repeat(depth)}- [${task.completed ? 'x' : ' '}] ${task.text.replace(/\s+/g, ' ')} <!-- ${metaFor(task)} -->`;
+
+/**
+ * GitHub-style checklist. Subtasks are nested by indentation. The id,
+ * priority, tags, due date, creation and completion times, blocking tasks
+ * and repeat rule are kept in an HTML comment (hidden when rendered) so
+ * re-imports match existing tasks. Lists written by hand can use quick-add
+ * tokens (`!high #tag @2026-10-20`) at the end of an item instead.
+ */
+export const markdownFormat: TaskFormat = {
+  id: 'markdown',
+  label: 'Markdown checklist',
+  extensions: ['.md', '.markdown'],
+  mimeType: 'text/markdown',
+
+  serialize: (tasks) => {
+    const { roots, childrenMap } = buildTaskTree(tasks);
+    const byCreated = (list: Task[]) => [...list].sort((a, b) => a.createdAt - b.createdAt);
+    const lines: string[] = [];
+
+    const write = (task: Task, depth: number) => {
+      lines.push(taskLine(task, depth));
+      byCreated(childrenMap.get(task.id) || []).forEach(child => write(child, depth + 1));
+    };
+    byCreated(roots).forEach(root => write(root, 0));
+
+    return lines.join('\n') + '\n';
+  },
+
+  parse: (text) => {
+    const records: Record<string, unknown>[] = [];
+    // Open items by indentation width, to find each item's parent
+    const stack: { indent: number; id: string }[] = [];
+    const now = Date.now();
+
+    text.split(/\r?\n/).forEach((line, index) => {
+      const match = line.match(ITEM_RE);
+      if (!match) return;
+
+      const indent = match[1].replace(/\t/g, INDENT).length;
+      let content = match[3];
+
+      const meta = new Map<string, string>();
+      const metaMatch = content.match(META_RE);
+      if (metaMatch) {
+        metaMatch[1].trim().split(/\s+/).forEach(pair => {
+          const colon = pair.indexOf(':');
+          meta.set(pair.slice(0, colon).toLowerCase(), pair.slice(colon + 1));
+        });
+        content = content.slice(0, metaMatch.index);
+      }
+      const id = meta.get('id') ?? crypto.randomUUID();
+
+      const record: Record<string, unknown> = {
+        id,
+        completed: match[2].toLowerCase() === 'x',
+        // Medium when neither the comment nor a token says otherwise
+        priority: meta.get('priority') ?? Priority.MEDIUM,
+        // Keeps document order when no real creation time is known
+        createdAt: meta.has('created') ? fromIso(meta.get('created')!) : now + index,
+      };
+      if (meta.has('due')) record.dueAt = fromIso(meta.get('due')!);
+      if (meta.has('completed')) record.completedAt = fromIso(meta.get('completed')!);
+      if (meta.has('blocked-by')) record.blockedBy = meta.get('blocked-by')!.split(',').filter(Boolean);
+      if (meta.has('repeat')) record.recurrence = parseRrule(meta.get('repeat')!.toUpperCase()) ?? meta.get('repeat');
+      const tags = meta.get('tags')?.split(',').filter(Boolean) ?? [];
+
+      let token: RegExpMatchArray | null;
+      while (!metaMatch && (token = content.match(TOKEN_RE))) {
+        const value = token[1];
+        if (value.startsWith('!')) record.priority = value.slice(1).toLowerCase();
+        else if (value.startsWith('#')) tags.unshift(value.slice(1).toLowerCase());
+        else record.dueAt = parseDueToken(value.slice(1));
+        content = content.slice(0, token.index);
+      }
+      record.text = content.trim();
+      if (tags.length > 0) record.tags = tags;
+
+      while (stack.length > 0 && stack[stack.length - 1].indent >= indent) stack.pop();
+      if (stack.length > 0) record.parentId = stack[stack.length - 1].id;
+      stack.push({ indent, id });
+
+      records.push(record);
+    });
+
+    return records;
+  },
+};
@@ -0,0 +1,127 @@
+import { Task, Priority, Recurrence, RecurrenceFrequency } from "../../types";
+import { TaskFormat } from "./types";
+import { formatLocalDate } from "./markdown";
+import { formatRrule, parseRrule } from "./ical";
+import { parseDueToken } from "../quickAddParser";
+
+const PRIORITY_LETTERS: Record<Priority, string> = {
+  [Priority.HIGH]: 'A',
+  [Priority.MEDIUM]: 'B',
+  [Priority.LOW]: 'C',
+};
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+const REPEAT_UNITS: Record<string, RecurrenceFrequency> = {
+  d: RecurrenceFrequency.DAILY,
+  w: RecurrenceFrequency.WEEKLY,
+  m: RecurrenceFrequency.MONTHLY,
+  y: RecurrenceFrequency.YEARLY,
+};
+
+// rec: holds an RRULE, or the shorthand other todo.txt apps write, e.g. 2w
+const parseRepeat = (value: string): Recurrence | string => {
+  const shorthand = value.match(/^\+?(\d*)([dwmy])$/i);
+  if (shorthand) return { frequency: REPEAT_UNITS[shorthand[2].toLowerCase()], interval: Math.max(1, Number(shorthand[1]) || 1) };
+  // Left as a string so validation reports it
+  return parseRrule(value.toUpperCase()) ?? value;
+};
+
+const toDate = (time: number) => formatLocalDate(time).slice(0, 10);
+
+// Local midnight, matching how quick-add reads a bare date
+const fromDate = (value: string): number => {
+  const [y, m, d] = value.split('-').map(Number);
+  return new Date(y, m - 1, d).getTime();
+};
+
+const taskLine = (task: Task): string => {
+  const parts: string[] = [];
+  if (task.completed) parts.push('x', toDate(task.completedAt ?? task.updatedAt ?? task.createdAt));
+  // todo.txt drops the priority on completed tasks, so it moves to pri:
+  if (!task.completed) parts.push(`(${PRIORITY_LETTERS[task.priority]})`);
+  parts.push(toDate(task.createdAt), task.text.replace(/\s+/g, ' '));
+
+  (task.tags || []).forEach(tag => parts.push(`+${tag}`));
+  // id: opens the extensions, so key:value words in the text stay text
+  parts.push(`id:${task.id}`);
+  // A due time, when set, is kept as due:YYYY-MM-DDTHH:mm
+  if (task.dueAt !== undefined) parts.push(`due:${formatLocalDate(task.dueAt)}`);
+  if (task.completed) parts.push(`pri:${PRIORITY_LETTERS[task.priority]}`);
+  if (task.parentId) parts.push(`parent:${task.parentId}`);
+  task.blockedBy?.forEach(id => parts.push(`dep:${id}`));
+  if (task.recurrence) parts.push(`rec:${formatRrule(task.recurrence)}`);
+  return parts.join(' ');
+};
+
+const EXTENSION_RE = /^([a-z]+):(\S+)$/i;
+
+// Where the trailing run of tags and extensions starts, stopping at the
+// `id:` that this format writes first
+const extensionsStart = (words: string[]): number => {
+  let start = words.length;
+  while (start > 0 && (/^[+@]\S+$/.test(words[start - 1]) || EXTENSION_RE.test(words[start - 1]))) {
+    start--;
+    if (/^id:/i.test(words[start])) break;
+  }
+  return start;
+};
+
+const priorityFromLetter = (letter: string): Priority =>
+  letter === 'A' ? Priority.HIGH : letter === 'B' ? Priority.MEDIUM : Priority.LOW;
+
+/**
+ * One task per line in the todo.txt convention: `x` and a completion date
+ * for done tasks, (A)-(C) priority, a creation date, `+project` tags and
+ * `key:value` extensions for the id, due date, parent, blocking tasks
+ * (`dep:`) and repeat rule (`rec:`). Extensions are read only at the end of
+ * the line, so words like "due:tomorrow" in the text stay in the text.
+ */
+export const todoTxtFormat: TaskFormat = {
+  id: 'todotxt',
+  label: 'todo.txt',
+  extensions: ['.txt'],
+  mimeType: 'text/plain',
+
+  serialize: (tasks) =>
+    [...tasks].sort((a, b) => a.createdAt - b.createdAt).map(taskLine).join('\n') + '\n',
+
+  parse: (text) =>
+    text.split(/\r?\n/).filter(line => line.trim()).map(line => {
+      const words = line.trim().split(/\s+/);
+      const record: Record<string, unknown> = { completed: false, priority: Priority.MEDIUM };
+
+      if (words[0] === 'x') {
+        record.completed = true;
+        words.shift();
+        if (DATE_RE.test(words[0] ?? '')) record.completedAt = fromDate(words.shift()!);
+      }
+      const priority = words[0]?.match(/^\(([A-Z])\)$/);
+      if (priority) {
+        record.priority = priorityFromLetter(priority[1]);
+        words.shift();
+      }
+      if (DATE_RE.test(words[0] ?? '')) record.createdAt = fromDate(words.shift()!);
+
+      const textWords: string[] = [];
+      const tags: string[] = [];
+      const start = extensionsStart(words);
+      words.forEach((word, i) => {
+        const extension = i >= start ? word.match(EXTENSION_RE) : null;
+        const key = extension?.[1].toLowerCase();
+        if (key === 'due' && /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2})?$/.test(extension![2])) record.dueAt = parseDueToken(extension![2]);
+        else if (key === 'id') record.id = extension![2];
+        else if (key === 'parent') record.parentId = extension![2];
+        else if (key === 'dep') record.blockedBy = [...(record.blockedBy as string[] || []), extension![2]];
+        else if (key === 'pri') record.priority = priorityFromLetter(extension![2].toUpperCase());
+        else if (key === 'rec') record.recurrence = parseRepeat(extension![2]);
+        else if (/^[+@]\S+$/.test(word)) tags.push(word.slice(1).toLowerCase());
+        else textWords.push(word);
+      });
+
+      record.id ??= crypto.randomUUID();
+      record.text = textWords.join(' ');
+      if (tags.length > 0) record.tags = [...new Set(tags)];
+      return record;
+    }),
+};
@@ -0,0 +1,15 @@
+import { Task } from "../../types";
+
+/**
+ * A file format tasks can be exported to and imported from. `parse` returns
+ * raw records that still go through import validation, so adapters only
+ * need to map fields, not check them.
+ */
+export interface TaskFormat {
+  id: string;
+  label: string;
+  extensions: string[];
+  mimeType: string;
+  serialize: (tasks: Task[]) => string;
+  parse: (text: string) => Record<string, unknown>[];
+}
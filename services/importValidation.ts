@@ -0,0 +1,291 @@
+import { Task, Priority, TaskStatus } from "../types";
+import { findDependencyCycle } from "./dependencies";
+
+export enum ConflictPolicy {
+  KEEP_MINE = 'keep-mine',
+  TAKE_THEIRS = 'take-theirs',
+  KEEP_BOTH = 'keep-both'
+}
+
+export interface InvalidRecord {
+  index: number;
+  id?: string;
+  text?: string;
+  errors: string[];
+}
+
+export interface ImportEntry {
+  task: Task;
+  warnings: string[];
+  // Fields the file actually provided; formats like Markdown carry only a few
+  fields: string[];
+}
+
+export interface ImportConflict extends ImportEntry {
+  local: Task;
+}
+
+export interface ImportPlan {
+  added: ImportEntry[];
+  changed: ImportConflict[];
+  conflicts: ImportConflict[];
+  unchanged: ImportEntry[];
+  invalid: InvalidRecord[];
+}
+
+const PRIORITIES = new Set<string>(Object.values(Priority));
+
+// Optional fields and the check each value must pass to be kept
+const OPTIONAL_FIELDS: Record<string, (value: unknown) => boolean> = {
+  isAiGenerated: v => typeof v === 'boolean',
+  status: v => typeof v === 'string' && (Object.values(TaskStatus) as string[]).includes(v),
+  completedAt: v => typeof v === 'number' && Number.isFinite(v),
+  isExpanded: v => typeof v === 'boolean',
+  dueAt: v => typeof v === 'number' && Number.isFinite(v),
+  remindAt: v => typeof v === 'number' && Number.isFinite(v),
+  recurrence: v => !!v && typeof v === 'object' && typeof (v as { frequency?: unknown }).frequency === 'string',
+  occurrence: v => typeof v === 'number',
+  completionHistory: v => Array.isArray(v) && v.every(n => typeof n === 'number'),
+  tags: v => Array.isArray(v) && v.every(t => typeof t === 'string'),
+  blockedBy: v => Array.isArray(v) && v.every(t => typeof t === 'string'),
+  projectId: v => typeof v === 'string',
+  order: v => typeof v === 'number' && Number.isFinite(v),
+  archivedAt: v => typeof v === 'number' && Number.isFinite(v),
+  estimateMinutes: v => typeof v === 'number' && Number.isFinite(v) && v > 0,
+  isEstimateAiGenerated: v => typeof v === 'boolean',
+  trackedMs: v => typeof v === 'number' && Number.isFinite(v) && v >= 0,
+  timerStartedAt: v => typeof v === 'number' && Number.isFinite(v),
+  updatedAt: v => typeof v === 'number',
+  version: v => typeof v === 'number',
+};
+
+/**
+ * Checks one imported record. Problems that make the record unusable are
+ * errors; anything that could be fixed or dropped is a warning.
+ */
+export const validateImportRecord = (raw: unknown): { task?: Task; errors: string[]; warnings: string[] } => {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { errors: ['Not a task object'], warnings };
+  }
+  const record = raw as Record<string, unknown>;
+
+  if (typeof record.id !== 'string' || !record.id.trim()) errors.push('Missing or invalid "id"');
+  if (typeof record.text !== 'string' || !record.text.trim()) errors.push('Missing or empty "text"');
+  if (record.priority !== undefined && !PRIORITIES.has(record.priority as string)) {
+    errors.push(`Unknown priority "${String(record.priority)}" (expected low, medium or high)`);
+  }
+  if (record.completed !== undefined && typeof record.completed !== 'boolean') {
+    errors.push('"completed" must be true or false');
+  }
+  if (record.parentId !== undefined && record.parentId !== null && typeof record.parentId !== 'string') {
+    errors.push('"parentId" must be a task id');
+  }
+  if (errors.length > 0) return { errors, warnings };
+
+  const task: Task = {
+    id: record.id as string,
+    text: (record.text as string).trim(),
+    completed: record.completed === true,
+    priority: (record.priority as Priority) ?? Priority.MEDIUM,
+    createdAt: typeof record.createdAt === 'number' && Number.isFinite(record.createdAt) ? record.createdAt : Date.now(),
+  };
+  if (record.priority === undefined) warnings.push('No priority; set to medium');
+  if (typeof record.createdAt !== 'number') warnings.push('No creation date; set to now');
+  if (typeof record.parentId === 'string' && record.parentId) task.parentId = record.parentId;
+
+  Object.entries(OPTIONAL_FIELDS).forEach(([field, isValid]) => {
+    const value = record[field];
+    if (value === undefined || value === null) return;
+    if (isValid(value)) {
+      (task as unknown as Record<string, unknown>)[field] = value;
+    } else {
+      warnings.push(`Ignored invalid "${field}"`);
+    }
+  });
+
+  return { task, errors, warnings };
+};
+
+// Fields that don't count as a meaningful difference between two copies
+const IGNORED_FIELDS = new Set(['id', 'createdAt', 'isExpanded', 'updatedAt', 'version']);
+
+// Compares two copies on the fields the file provided
+const differs = (local: Task, imported: Task, fields: string[]): boolean => {
+  const a = local as unknown as Record<string, unknown>;
+  const b = imported as unknown as Record<string, unknown>;
+  return fields.some(field => !IGNORED_FIELDS.has(field) && JSON.stringify(a[field]) !== JSON.stringify(b[field]));
+};
+
+// True when `incoming` is known to be a later edit than `local`
+const isNewerCopy = (incoming: Task, local: Task): boolean => {
+  if (incoming.version !== undefined && local.version !== undefined && incoming.version !== local.version) {
+    return incoming.version > local.version;
+  }
+  if (incoming.updatedAt !== undefined) {
+    return incoming.updatedAt > (local.updatedAt ?? local.createdAt);
+  }
+  return false;
+};
+
+/**
+ * Validates imported records and sorts them into new, changed (the file has
+ * a newer copy), conflicting (both sides differ and mine is not older),
+ * unchanged and invalid. Parent links are checked against both the file and
+ * the local tasks, and so are dependency links: dangling links are cut and
+ * cycles are broken, with a warning on the affected task.
+ */
+export const buildImportPlan = (local: Task[], records: unknown[]): ImportPlan => {
+  const plan: ImportPlan = { added: [], changed: [], conflicts: [], unchanged: [], invalid: [] };
+  const entries: ImportEntry[] = [];
+  const seenIds = new Set<string>();
+
+  records.forEach((raw, index) => {
+    const { task, errors, warnings } = validateImportRecord(raw);
+    const record = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+    if (task && seenIds.has(task.id)) errors.push('Duplicate id in this file');
+
+    if (!task || errors.length > 0) {
+      plan.invalid.push({
+        index,
+        id: typeof record.id === 'string' ? record.id : undefined,
+        text: typeof record.text === 'string' ? record.text : undefined,
+        errors,
+      });
+      return;
+    }
+    seenIds.add(task.id);
+    const fields = Object.keys(record).filter(k => record[k] !== undefined);
+    entries.push({ task, warnings, fields });
+  });
+
+  // Repair parent links
+  const localById = new Map(local.map(t => [t.id, t]));
+  const parentOf = new Map<string, string | undefined>(local.map(t => [t.id, t.parentId]));
+  entries.forEach(({ task }) => parentOf.set(task.id, task.parentId));
+
+  entries.forEach(entry => {
+    const { task } = entry;
+    if (!task.parentId) return;
+
+    if (!parentOf.has(task.parentId)) {
+      entry.warnings.push('Parent task not found; imported as a top-level task');
+      entry.task = { ...task, parentId: undefined };
+      parentOf.set(task.id, undefined);
+      return;
+    }
+
+    const visited = new Set([task.id]);
+    let current = task.parentId;
+    while (current) {
+      if (visited.has(current)) {
+        entry.warnings.push('Parent link formed a cycle; imported as a top-level task');
+        entry.task = { ...task, parentId: undefined };
+        parentOf.set(task.id, undefined);
+        break;
+      }
+      visited.add(current);
+      current = parentOf.get(current) as string;
+    }
+  });
+
+  // Repair dependency links the same way, checking each link against the
+  // ones kept so far
+  const known = new Map<string, Task>(local.map(t => [t.id, t]));
+  entries.forEach(({ task }) => known.set(task.id, task));
+  entries.forEach(entry => {
+    const { task } = entry;
+    if (!task.blockedBy) return;
+
+    const found = [...new Set(task.blockedBy)].filter(id => known.has(id));
+    if (found.length < task.blockedBy.length) entry.warnings.push('Blocking task not found; link dropped');
+    const kept: string[] = [];
+    found.forEach(id => {
+      known.set(task.id, { ...task, blockedBy: kept });
+      if (findDependencyCycle([...known.values()], task.id, id)) {
+        entry.warnings.push('Dependency formed a cycle; link dropped');
+      } else {
+        kept.push(id);
+      }
+    });
+    entry.task = { ...task, blockedBy: kept.length > 0 ? kept : undefined };
+    known.set(task.id, entry.task);
+  });
+
+  // Values dropped by validation or repair weren't really provided, so they
+  // mustn't overwrite the local copy's
+  entries.forEach(entry => {
+    const task = entry.task as unknown as Record<string, unknown>;
+    entry.fields = entry.fields.filter(field => task[field] !== undefined);
+  });
+
+  entries.forEach(entry => {
+    const existing = localById.get(entry.task.id);
+    if (!existing) {
+      plan.added.push(entry);
+    } else if (!differs(existing, entry.task, entry.fields)) {
+      plan.unchanged.push(entry);
+    } else if (isNewerCopy(entry.task, existing)) {
+      plan.changed.push({ ...entry, local: existing });
+    } else {
+      plan.conflicts.push({ ...entry, local: existing });
+    }
+  });
+
+  return plan;
+};
+
+// Points parent and dependency links at the new ids in `ids`
+const relink = (task: Task, ids: Map<string, string>): Task => {
+  const parentId = task.parentId && ids.get(task.parentId);
+  const blockedBy = task.blockedBy?.some(id => ids.has(id)) ? task.blockedBy.map(id => ids.get(id) ?? id) : undefined;
+  if (!parentId && !blockedBy) return task;
+  return { ...task, parentId: parentId || task.parentId, blockedBy: blockedBy ?? task.blockedBy };
+};
+
+/**
+ * Merges a plan into the current tasks. Changed tasks are always updated;
+ * conflicts follow `policy`. With "keep both", the imported copy is added
+ * under a fresh id next to mine, and the file's other new tasks link to the
+ * copy. Updates only overwrite the fields the file provided, and never the
+ * original creation time.
+ */
+export const applyImportPlan = (current: Task[], plan: ImportPlan, policy: ConflictPolicy): Task[] => {
+  const currentIds = new Set(current.map(t => t.id));
+  const replacements = new Map<string, ImportEntry>();
+  const additions: Task[] = plan.added
+    .filter(({ task }) => !currentIds.has(task.id))
+    .map(({ task }) => task);
+
+  plan.changed.forEach(entry => replacements.set(entry.task.id, entry));
+
+  // Imported ids of the copies kept next to mine, and the ids they got
+  const copyIds = new Map<string, string>();
+  plan.conflicts.forEach(entry => {
+    const { task } = entry;
+    if (policy === ConflictPolicy.TAKE_THEIRS) {
+      replacements.set(task.id, entry);
+    } else if (policy === ConflictPolicy.KEEP_BOTH) {
+      const id = crypto.randomUUID();
+      copyIds.set(task.id, id);
+      additions.push({ ...task, id, text: `${task.text} (imported)` });
+    }
+  });
+
+  if (additions.length === 0 && replacements.size === 0) return current;
+
+  // Keep the local version counter moving forward so other tabs accept it
+  const merged = current.map(t => {
+    const replacement = replacements.get(t.id);
+    if (!replacement) return t;
+    const { task, fields } = replacement;
+    const updates = Object.fromEntries(fields.map(f => [f, (task as unknown as Record<string, unknown>)[f]]));
+    return { ...t, ...updates, id: t.id, createdAt: t.createdAt, version: Math.max(task.version ?? 0, t.version ?? 0) };
+  });
+  return [...merged, ...additions.map(t => relink(t, copyIds))].sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const countImportChanges = (plan: ImportPlan, policy: ConflictPolicy): number =>
+  plan.added.length + plan.changed.length + (policy === ConflictPolicy.KEEP_MINE ? 0 : plan.conflicts.length);
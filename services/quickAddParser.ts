@@ -0,0 +1,188 @@
+import { Task, Priority, Recurrence, RecurrenceFrequency } from "../types";
+import { addDays, startOfDay } from "./dateUtils";
+
+export type QuickAddTokenKind = 'priority' | 'tag' | 'due' | 'recurrence' | 'parent';
+
+export interface QuickAddToken {
+  kind: QuickAddTokenKind;
+  raw: string;
+}
+
+export interface ParsedQuickAdd {
+  text: string;
+  priority?: Priority;
+  tags: string[];
+  dueAt?: number;
+  recurrence?: Recurrence;
+  parentQuery?: string;
+  tokens: QuickAddToken[];
+}
+
+const PRIORITY_ALIASES: Record<string, Priority> = {
+  high: Priority.HIGH, h: Priority.HIGH, '1': Priority.HIGH, '!': Priority.HIGH,
+  medium: Priority.MEDIUM, med: Priority.MEDIUM, m: Priority.MEDIUM, '2': Priority.MEDIUM,
+  low: Priority.LOW, l: Priority.LOW, '3': Priority.LOW,
+};
+
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const WEEKDAY_PATTERN = '(?:sun|mon|tue|tues|wed|thu|thur|thurs|fri|sat)(?:day|nesday|sday|rsday|urday)?';
+
+const weekdayIndex = (word: string): number => WEEKDAYS.indexOf(word.slice(0, 3).toLowerCase());
+
+const UNIT_FREQUENCIES: Record<string, RecurrenceFrequency> = {
+  day: RecurrenceFrequency.DAILY,
+  week: RecurrenceFrequency.WEEKLY,
+  month: RecurrenceFrequency.MONTHLY,
+  year: RecurrenceFrequency.YEARLY,
+};
+
+// "every day", "every 2 weeks", "every weekday", "every mon and thu"
+const RECURRENCE_RE = new RegExp(
+  `(?:^|\\s)every\\s+(?:(\\d+)\\s+)?(days?|weeks?|months?|years?|weekdays?|${WEEKDAY_PATTERN}(?:\\s*(?:,|and|&)\\s*${WEEKDAY_PATTERN})*)(?=\\s|$)`,
+  'i'
+);
+const PRIORITY_RE = /(?:^|\s)!(high|medium|med|low|h|m|l|1|2|3|!)(?=\s|$)/i;
+const TAG_RE = /(?:^|\s)#([\p{L}\p{N}_-]+)(?=\s|$)/giu;
+const DUE_RE = /(?:^|\s)@(\S+)(?=\s|$)/i;
+const PARENT_RE = /\s+>\s*(.+)$/;
+
+/**
+ * Parses an "@" date token: today, tomorrow, weekday names, next-week,
+ * +3d / +2w offsets, ISO dates (2026-10-20), optionally joined to a time
+ * with "@" or "T" (e.g. @tomorrow@9am, @2026-10-20T14:30), or a bare time.
+ */
+export const parseDueToken = (token: string, now: number = Date.now()): number | undefined => {
+  const [datePart, timePart] = token.toLowerCase().split(/@|t(?=\d)/);
+  const today = startOfDay(now);
+  let day: number | undefined;
+
+  const time = parseTime(timePart ?? '');
+  if (time === undefined && timePart) return undefined;
+
+  if (datePart === 'today' || datePart === 'tod') day = today;
+  else if (datePart === 'tomorrow' || datePart === 'tmr' || datePart === 'tom') day = addDays(today, 1);
+  else if (datePart === 'next-week' || datePart === 'nextweek') day = addDays(today, 7);
+  else if (/^\+\d+[dw]$/.test(datePart)) {
+    const amount = parseInt(datePart.slice(1), 10);
+    day = addDays(today, datePart.endsWith('w') ? amount * 7 : amount);
+  } else if (/^\d{4}-\d{2}-\d{2}$/.test(datePart)) {
+    const [y, m, d] = datePart.split('-').map(Number);
+    const date = new Date(y, m - 1, d);
+    if (date.getMonth() !== m - 1) return undefined;
+    day = date.getTime();
+  } else if (new RegExp(`^${WEEKDAY_PATTERN}$`).test(datePart)) {
+    // The next such weekday, never today
+    const diff = (weekdayIndex(datePart) - new Date(today).getDay() + 7) % 7 || 7;
+    day = addDays(today, diff);
+  } else {
+    // A bare time such as @17:00 or @5pm means today
+    const bareTime = parseTime(datePart);
+    if (bareTime === undefined || timePart) return undefined;
+    return today + bareTime;
+  }
+
+  return day + (time ?? 0);
+};
+
+// "17:00", "9am", "5:30pm" -> milliseconds after midnight
+const parseTime = (value: string): number | undefined => {
+  const match = value.match(/^(\d{1,2})(?::(\d{2}))?(am|pm)?$/);
+  if (!match || (!match[2] && !match[3])) return undefined;
+  let hours = parseInt(match[1], 10);
+  const minutes = match[2] ? parseInt(match[2], 10) : 0;
+  if (match[3] === 'pm' && hours < 12) hours += 12;
+  if (match[3] === 'am' && hours === 12) hours = 0;
+  if (hours > 23 || minutes > 59) return undefined;
+  return (hours * 60 + minutes) * 60 * 1000;
+};
+
+const parseRecurrence = (count: string | undefined, unit: string): Recurrence => {
+  const interval = count ? Math.max(1, parseInt(count, 10)) : 1;
+  const lower = unit.toLowerCase();
+
+  if (lower.startsWith('weekday')) {
+    return { frequency: RecurrenceFrequency.WEEKLY, interval: 1, byWeekday: [1, 2, 3, 4, 5] };
+  }
+  const frequency = UNIT_FREQUENCIES[lower.replace(/s$/, '')];
+  if (frequency) return { frequency, interval };
+
+  const byWeekday = lower.split(/\s*(?:,|and|&)\s*/).map(weekdayIndex).filter(d => d >= 0);
+  return { frequency: RecurrenceFrequency.WEEKLY, interval, byWeekday: [...new Set(byWeekday)].sort() };
+};
+
+/**
+ * Extracts structured fields from quick-add input, e.g.
+ * "Send report !high #work @friday every week > Q3 planning".
+ * Everything that isn't a recognised token stays in the task text.
+ * Runs locally and deterministically.
+ */
+export const parseQuickAdd = (input: string, now: number = Date.now()): ParsedQuickAdd => {
+  let rest = input;
+  const tokens: QuickAddToken[] = [];
+  const result: ParsedQuickAdd = { text: '', tags: [], tokens };
+
+  const parentMatch = rest.match(PARENT_RE);
+  if (parentMatch && parentMatch[1].trim()) {
+    result.parentQuery = parentMatch[1].trim();
+    tokens.push({ kind: 'parent', raw: parentMatch[0].trim() });
+    rest = rest.slice(0, parentMatch.index);
+  }
+
+  const recurrenceMatch = rest.match(RECURRENCE_RE);
+  if (recurrenceMatch) {
+    result.recurrence = parseRecurrence(recurrenceMatch[1], recurrenceMatch[2]);
+    tokens.push({ kind: 'recurrence', raw: recurrenceMatch[0].trim() });
+    rest = rest.replace(recurrenceMatch[0], ' ');
+  }
+
+  const priorityMatch = rest.match(PRIORITY_RE);
+  if (priorityMatch) {
+    result.priority = PRIORITY_ALIASES[priorityMatch[1].toLowerCase()];
+    tokens.push({ kind: 'priority', raw: priorityMatch[0].trim() });
+    rest = rest.replace(priorityMatch[0], ' ');
+  }
+
+  const dueMatch = rest.match(DUE_RE);
+  if (dueMatch) {
+    const dueAt = parseDueToken(dueMatch[1], now);
+    if (dueAt !== undefined) {
+      result.dueAt = dueAt;
+      tokens.push({ kind: 'due', raw: dueMatch[0].trim() });
+      rest = rest.replace(dueMatch[0], ' ');
+    }
+  }
+
+  rest = rest.replace(TAG_RE, (match, tag: string) => {
+    const normalized = tag.toLowerCase();
+    if (!result.tags.includes(normalized)) {
+      result.tags.push(normalized);
+      tokens.push({ kind: 'tag', raw: match.trim() });
+    }
+    return ' ';
+  });
+
+  // "every monday" with no explicit date starts on the next matching day
+  if (result.recurrence?.byWeekday?.length && result.dueAt === undefined) {
+    const today = startOfDay(now);
+    const offsets = result.recurrence.byWeekday.map(d => (d - new Date(today).getDay() + 7) % 7);
+    result.dueAt = addDays(today, Math.min(...offsets));
+  }
+
+  result.text = rest.replace(/\s+/g, ' ').trim();
+  return result;
+};
+
+/**
+ * Finds the task a "> parent" query refers to: an exact (case-insensitive)
+ * match first, then a prefix match, then a substring match. Open tasks win
+ * over completed ones.
+ */
+export const resolveParentQuery = (tasks: Task[], query: string): Task | undefined => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return undefined;
+
+  const candidates = [...tasks].sort((a, b) => Number(a.completed) - Number(b.completed));
+  return candidates.find(t => t.text.toLowerCase() === needle)
+    || candidates.find(t => t.text.toLowerCase().startsWith(needle))
+    || candidates.find(t => t.text.toLowerCase().includes(needle));
+};
@@ -0,0 +1,121 @@
+import { Task, Recurrence, RecurrenceFrequency } from "../types";
+import { addDays, startOfDay } from "./dateUtils";
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+const startOfWeek = (time: number): number => {
+  const date = new Date(startOfDay(time));
+  date.setDate(date.getDate() - date.getDay());
+  return date.getTime();
+};
+
+const addMonths = (time: number, months: number): number => {
+  const date = new Date(time);
+  const day = date.getDate();
+  date.setDate(1);
+  date.setMonth(date.getMonth() + months);
+  // Clamp e.g. Jan 31 + 1 month to the last day of February
+  const lastDay = new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+  date.setDate(Math.min(day, lastDay));
+  return date.getTime();
+};
+
+/**
+ * Returns the first occurrence strictly after `from`, keeping its time of day.
+ */
+export const nextOccurrence = (recurrence: Recurrence, from: number): number => {
+  const interval = Math.max(1, Math.floor(recurrence.interval) || 1);
+
+  switch (recurrence.frequency) {
+    case RecurrenceFrequency.DAILY:
+      return addDays(from, interval);
+
+    case RecurrenceFrequency.WEEKLY: {
+      const weekdays = recurrence.byWeekday?.length ? recurrence.byWeekday : [new Date(from).getDay()];
+      const anchorWeek = startOfWeek(from);
+      // Walk forward day by day; only weeks that are a multiple of the
+      // interval away from the anchor week qualify.
+      for (let i = 1; i <= 7 * interval + 7; i++) {
+        const candidate = addDays(from, i);
+        const weekOffset = Math.round((startOfWeek(candidate) - anchorWeek) / WEEK_MS);
+        if (weekOffset % interval === 0 && weekdays.includes(new Date(candidate).getDay())) {
+          return candidate;
+        }
+      }
+      return addDays(from, 7 * interval);
+    }
+
+    case RecurrenceFrequency.MONTHLY:
+      return addMonths(from, interval);
+
+    case RecurrenceFrequency.YEARLY:
+      return addMonths(from, 12 * interval);
+  }
+};
+
+/**
+ * Builds the next instance of a recurring task that was just completed, or
+ * returns null when the series has reached its end condition.
+ */
+export const createNextInstance = (task: Task, completedAt: number): Task | null => {
+  const { recurrence } = task;
+  if (!recurrence) return null;
+
+  const occurrence = (task.occurrence ?? 1) + 1;
+  if (recurrence.count !== undefined && occurrence > recurrence.count) return null;
+
+  const anchor = task.dueAt ?? completedAt;
+  let dueAt = nextOccurrence(recurrence, anchor);
+  // If the task was completed late, skip occurrences that are already past
+  while (task.dueAt !== undefined && dueAt < startOfDay(completedAt)) {
+    dueAt = nextOccurrence(recurrence, dueAt);
+  }
+  if (recurrence.until !== undefined && dueAt > recurrence.until) return null;
+
+  const remindAt = task.remindAt !== undefined && task.dueAt !== undefined
+    ? dueAt - (task.dueAt - task.remindAt)
+    : undefined;
+
+  return {
+    ...task,
+    id: crypto.randomUUID(),
+    completed: false,
+    completedAt: undefined,
+    createdAt: completedAt,
+    dueAt: task.dueAt !== undefined ? dueAt : undefined,
+    remindAt,
+    occurrence,
+    completionHistory: [...(task.completionHistory || []), completedAt],
+    status: undefined,
+    // The estimate carries over; tracked time belongs to this occurrence
+    trackedMs: undefined,
+    timerStartedAt: undefined,
+  };
+};
+
+/**
+ * Short summary such as "Every 2 weeks on Mon, Thu · 3 times".
+ */
+export const describeRecurrence = (recurrence: Recurrence): string => {
+  const interval = Math.max(1, recurrence.interval || 1);
+  const units: Record<RecurrenceFrequency, [string, string]> = {
+    [RecurrenceFrequency.DAILY]: ['Daily', 'days'],
+    [RecurrenceFrequency.WEEKLY]: ['Weekly', 'weeks'],
+    [RecurrenceFrequency.MONTHLY]: ['Monthly', 'months'],
+    [RecurrenceFrequency.YEARLY]: ['Yearly', 'years'],
+  };
+  const [single, plural] = units[recurrence.frequency];
+  let label = interval === 1 ? single : `Every ${interval} ${plural}`;
+
+  if (recurrence.frequency === RecurrenceFrequency.WEEKLY && recurrence.byWeekday?.length) {
+    label += ` on ${[...recurrence.byWeekday].sort().map(d => WEEKDAY_LABELS[d]).join(', ')}`;
+  }
+  if (recurrence.count !== undefined) {
+    label += ` · ${recurrence.count} times`;
+  } else if (recurrence.until !== undefined) {
+    label += ` · until ${new Date(recurrence.until).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}`;
+  }
+  return label;
+};
@@ -0,0 +1,106 @@
+import { Task } from "../types";
+
+export interface SearchEntry {
+  task: Task;
+  haystack: string;
+  path: string[];
+}
+
+export interface SearchResult {
+  entry: SearchEntry;
+  score: number;
+  matches: number[];
+}
+
+/**
+ * Precomputes lowercase text and the ancestor path of every task, so that
+ * each keystroke only has to run the matcher.
+ */
+export const buildSearchIndex = (tasks: Task[]): SearchEntry[] => {
+  const byId = new Map(tasks.map(t => [t.id, t]));
+  const paths = new Map<string, string[]>();
+
+  const pathOf = (task: Task, seen: Set<string> = new Set()): string[] => {
+    const cached = paths.get(task.id);
+    if (cached) return cached;
+    const parent = task.parentId ? byId.get(task.parentId) : undefined;
+    if (!parent || seen.has(parent.id)) {
+      paths.set(task.id, []);
+      return [];
+    }
+    seen.add(task.id);
+    const path = [...pathOf(parent, seen), parent.text];
+    paths.set(task.id, path);
+    return path;
+  };
+
+  return tasks.map(task => ({
+    task,
+    haystack: task.text.toLowerCase(),
+    path: pathOf(task),
+  }));
+};
+
+const isWordStart = (text: string, index: number) =>
+  index === 0 || /[\s\-_/.,:;(]/.test(text[index - 1]);
+
+/**
+ * Subsequence fuzzy match. Returns null when `query` doesn't occur in order
+ * in `text`; otherwise a score rewarding consecutive runs, word starts and
+ * early matches, plus the matched character positions for highlighting.
+ * Both arguments are expected in lowercase.
+ */
+export const fuzzyMatch = (query: string, text: string): { score: number; matches: number[] } | null => {
+  if (!query) return { score: 0, matches: [] };
+
+  // Fast path: a plain substring beats any scattered match
+  const substringIndex = text.indexOf(query);
+  if (substringIndex !== -1) {
+    const matches = Array.from({ length: query.length }, (_, i) => substringIndex + i);
+    const score = 100 + query.length * 10 + (isWordStart(text, substringIndex) ? 30 : 0) - substringIndex * 0.1;
+    return { score, matches };
+  }
+
+  const matches: number[] = [];
+  let score = 0;
+  let textIndex = 0;
+  let previous = -2;
+
+  for (let i = 0; i < query.length; i++) {
+    const char = query[i];
+    if (char === ' ') continue;
+    const found = text.indexOf(char, textIndex);
+    if (found === -1) return null;
+
+    score += 1;
+    if (found === previous + 1) score += 5;
+    if (isWordStart(text, found)) score += 8;
+    score -= Math.min(found - textIndex, 10) * 0.2;
+
+    matches.push(found);
+    previous = found;
+    textIndex = found + 1;
+  }
+
+  return { score, matches };
+};
+
+/**
+ * Ranks tasks against the query, best first, keeping at most `limit` results.
+ */
+export const searchTasks = (index: SearchEntry[], query: string, limit: number = 50): SearchResult[] => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+
+  const results: SearchResult[] = [];
+  for (const entry of index) {
+    const match = fuzzyMatch(needle, entry.haystack);
+    if (!match) continue;
+    // Open tasks rank above completed ones with a similar match
+    const score = match.score - (entry.task.completed ? 5 : 0);
+    results.push({ entry, score, matches: match.matches });
+  }
+
+  results.sort((a, b) => b.score - a.score);
+  return results.slice(0, limit);
+};
@@ -0,0 +1,79 @@
+import { ShortcutAction, ShortcutMap } from "../types";
+
+const SHORTCUTS_KEY = 'gemini-todo-shortcuts';
+
+export const DEFAULT_SHORTCUTS: ShortcutMap = {
+  [ShortcutAction.NEXT]: 'j',
+  [ShortcutAction.PREVIOUS]: 'k',
+  [ShortcutAction.TOGGLE]: 'Space',
+  [ShortcutAction.EDIT]: 'Enter',
+  [ShortcutAction.INDENT]: 'Tab',
+  [ShortcutAction.OUTDENT]: 'Shift+Tab',
+  [ShortcutAction.PRIORITY_HIGH]: '1',
+  [ShortcutAction.PRIORITY_MEDIUM]: '2',
+  [ShortcutAction.PRIORITY_LOW]: '3',
+  [ShortcutAction.BREAKDOWN]: 'b',
+  [ShortcutAction.ADD_SUBTASK]: 'a',
+  [ShortcutAction.EXPAND]: 'o',
+  [ShortcutAction.HELP]: '?',
+};
+
+export const SHORTCUT_LABELS: Record<ShortcutAction, string> = {
+  [ShortcutAction.NEXT]: 'Next task',
+  [ShortcutAction.PREVIOUS]: 'Previous task',
+  [ShortcutAction.TOGGLE]: 'Complete or reopen',
+  [ShortcutAction.EDIT]: 'Edit text',
+  [ShortcutAction.INDENT]: 'Move under the task above',
+  [ShortcutAction.OUTDENT]: 'Move out of its parent',
+  [ShortcutAction.PRIORITY_HIGH]: 'High priority',
+  [ShortcutAction.PRIORITY_MEDIUM]: 'Medium priority',
+  [ShortcutAction.PRIORITY_LOW]: 'Low priority',
+  [ShortcutAction.BREAKDOWN]: 'Break down with AI',
+  [ShortcutAction.ADD_SUBTASK]: 'Add a subtask',
+  [ShortcutAction.EXPAND]: 'Expand or collapse',
+  [ShortcutAction.HELP]: 'Show shortcuts',
+};
+
+const ACTIONS = Object.values(ShortcutAction) as ShortcutAction[];
+const MODIFIER_KEYS = new Set(['Shift', 'Control', 'Alt', 'Meta', 'CapsLock']);
+
+/**
+ * The shortcut a key press stands for, e.g. "j", "Shift+Tab" or "Space".
+ * Presses with Ctrl, Alt or Cmd give null: those belong to the browser and
+ * to app-wide commands like Ctrl+K. Shift only shows up for letters and
+ * named keys, since it's already part of symbols like "?".
+ */
+export const shortcutFromEvent = (e: Pick<KeyboardEvent, 'key' | 'shiftKey' | 'ctrlKey' | 'altKey' | 'metaKey'>): string | null => {
+  if (e.ctrlKey || e.altKey || e.metaKey || MODIFIER_KEYS.has(e.key)) return null;
+  const key = e.key === ' ' ? 'Space' : e.key.length === 1 ? e.key.toLowerCase() : e.key;
+  const isShifted = e.shiftKey && (e.key.length > 1 || /^[a-z]$/i.test(e.key));
+  return isShifted ? `Shift+${key}` : key;
+};
+
+export const findShortcutAction = (shortcuts: ShortcutMap, key: string | null): ShortcutAction | null =>
+  key === null ? null : ACTIONS.find(action => shortcuts[action] === key) ?? null;
+
+/**
+ * Saved shortcuts over the defaults. Should that leave one key doing two
+ * things (say, the saved data was edited by hand), the defaults are used.
+ */
+export const loadShortcuts = (): ShortcutMap => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SHORTCUTS_KEY) || '{}');
+    const shortcuts = { ...DEFAULT_SHORTCUTS };
+    if (!saved || typeof saved !== 'object') return shortcuts;
+    ACTIONS.forEach(action => {
+      const key = saved[action];
+      if (typeof key === 'string' && key) shortcuts[action] = key;
+    });
+    const keys = ACTIONS.map(action => shortcuts[action]);
+    return new Set(keys).size === keys.length ? shortcuts : { ...DEFAULT_SHORTCUTS };
+  } catch (err) {
+    console.error(err);
+    return { ...DEFAULT_SHORTCUTS };
+  }
+};
+
+export const saveShortcuts = (shortcuts: ShortcutMap) => {
+  localStorage.setItem(SHORTCUTS_KEY, JSON.stringify(shortcuts));
+};
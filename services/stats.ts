@@ -0,0 +1,136 @@
+import { Task, Priority, ActivityEvent, ActivityType } from "../types";
+import { startOfDay, addDays } from "./dateUtils";
+import { InsightStats } from "./ai";
+
+export interface Completion {
+  taskId: string;
+  at: number;
+  priority: Priority;
+  isAiGenerated?: boolean;
+}
+
+export interface DayCount {
+  day: number;
+  count: number;
+}
+
+export interface ProductivityStats {
+  // The last few days, oldest first, today last
+  perDay: DayCount[];
+  today: number;
+  thisWeek: number;
+  currentStreak: number;
+  longestStreak: number;
+  byPriority: { priority: Priority; completed: number; open: number }[];
+  bySource: { label: string; total: number; completed: number }[];
+}
+
+const PRIORITY_ORDER = [Priority.HIGH, Priority.MEDIUM, Priority.LOW];
+
+/**
+ * Every task that was finished, once each, at its last completion. The log
+ * is the main source, so deleted tasks still count and an undone completion
+ * doesn't; tasks the log never saw fall back on their `completedAt`.
+ */
+export const getCompletions = (tasks: Task[], events: ActivityEvent[]): Completion[] => {
+  const lastByTask = new Map<string, ActivityEvent | null>();
+  [...events].sort((a, b) => a.at - b.at).forEach(event => {
+    if (event.type === ActivityType.COMPLETED) lastByTask.set(event.taskId, event);
+    else if (event.type === ActivityType.REOPENED) lastByTask.set(event.taskId, null);
+  });
+
+  const completions: Completion[] = [];
+  lastByTask.forEach(event => {
+    if (event) completions.push({ taskId: event.taskId, at: event.at, priority: event.priority, isAiGenerated: event.isAiGenerated });
+  });
+  tasks.forEach(task => {
+    if (task.completed && task.completedAt !== undefined && !lastByTask.has(task.id)) {
+      completions.push({ taskId: task.id, at: task.completedAt, priority: task.priority, isAiGenerated: task.isAiGenerated });
+    }
+  });
+  return completions.sort((a, b) => a.at - b.at);
+};
+
+// Completions per calendar day, keyed by the day's start
+const countByDay = (completions: Completion[]): Map<number, number> => {
+  const counts = new Map<number, number>();
+  completions.forEach(c => {
+    const day = startOfDay(c.at);
+    counts.set(day, (counts.get(day) || 0) + 1);
+  });
+  return counts;
+};
+
+const lastDays = (counts: Map<number, number>, days: number, now: number): DayCount[] =>
+  Array.from({ length: days }, (_, i) => {
+    const day = startOfDay(addDays(now, i - days + 1));
+    return { day, count: counts.get(day) || 0 };
+  });
+
+/**
+ * Days in a row with at least one completion, up to today. A streak is
+ * still current until a whole day passes without one.
+ */
+const currentStreak = (counts: Map<number, number>, now: number): number => {
+  let day = startOfDay(now);
+  if (!counts.has(day)) day = startOfDay(addDays(day, -1));
+  let streak = 0;
+  while (counts.has(day)) {
+    streak++;
+    day = startOfDay(addDays(day, -1));
+  }
+  return streak;
+};
+
+const longestStreak = (counts: Map<number, number>): number => {
+  const days = [...counts.keys()].sort((a, b) => a - b);
+  let longest = 0;
+  let run = 0;
+  days.forEach((day, i) => {
+    run = i > 0 && startOfDay(addDays(days[i - 1], 1)) === day ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  });
+  return longest;
+};
+
+export const buildProductivityStats = (
+  tasks: Task[],
+  events: ActivityEvent[],
+  now: number = Date.now(),
+  days: number = 14
+): ProductivityStats => {
+  const completions = getCompletions(tasks, events);
+  const counts = countByDay(completions);
+  const week = lastDays(counts, 7, now);
+
+  return {
+    perDay: lastDays(counts, days, now),
+    today: counts.get(startOfDay(now)) || 0,
+    thisWeek: week.reduce((sum, d) => sum + d.count, 0),
+    currentStreak: currentStreak(counts, now),
+    longestStreak: longestStreak(counts),
+    byPriority: PRIORITY_ORDER.map(priority => ({
+      priority,
+      completed: completions.filter(c => c.priority === priority).length,
+      open: tasks.filter(t => !t.completed && t.priority === priority).length,
+    })),
+    bySource: [
+      { label: 'AI-generated', tasks: tasks.filter(t => t.isAiGenerated) },
+      { label: 'Manual', tasks: tasks.filter(t => !t.isAiGenerated) },
+    ].map(({ label, tasks: group }) => ({ label, total: group.length, completed: group.filter(t => t.completed).length })),
+  };
+};
+
+/**
+ * The numbers the productivity insight is based on.
+ */
+export const buildInsightStats = (tasks: Task[], events: ActivityEvent[], now: number = Date.now()): InsightStats => {
+  const stats = buildProductivityStats(tasks, events, now, 7);
+  return {
+    openCount: tasks.filter(t => !t.completed).length,
+    completedToday: stats.today,
+    completedThisWeek: stats.thisWeek,
+    completedPerDay: stats.perDay.map(d => d.count),
+    streakDays: stats.currentStreak,
+  };
+};
@@ -0,0 +1,520 @@
+import { Task, Priority, ActivityEvent } from "../types";
+import { MAX_ACTIVITY_EVENTS, sanitizeActivity } from "./activity";
+
+/**
+ * Version of the persisted Task shape. Bump it together with a new entry in
+ * `migrations` whenever stored records need to be rewritten.
+ */
+export const SCHEMA_VERSION = 1;
+
+const DB_NAME = 'gemini-taskflow';
+const DB_VERSION = 3;
+const TASKS_STORE = 'tasks';
+const META_STORE = 'meta';
+const ARCHIVE_STORE = 'archive';
+const ACTIVITY_STORE = 'activity';
+
+// Pre-IndexedDB storage: the whole array as one JSON blob
+export const LEGACY_STORAGE_KEY = 'gemini-todo-tasks';
+// Used when IndexedDB isn't available (e.g. some private browsing modes)
+const FALLBACK_STORAGE_KEY = 'gemini-todo-store';
+// Where the archive lived before it moved in with the tasks
+const LEGACY_ARCHIVE_KEY = 'gemini-todo-archive';
+// The activity log as one JSON array: the fallback's log, and where the log
+// lived before it moved to IndexedDB
+const ACTIVITY_STORAGE_KEY = 'gemini-todo-activity';
+
+export interface TaskChanges {
+  put: Task[];
+  remove: string[];
+}
+
+export interface LoadResult {
+  tasks: Task[];
+  // Ids in the archive, none of them in `tasks`
+  archivedIds: string[];
+  warnings: string[];
+}
+
+export interface TaskStorage {
+  load(): Promise<LoadResult>;
+  applyChanges(changes: TaskChanges): Promise<void>;
+  // Archived tasks, newest first
+  loadArchive(): Promise<Task[]>;
+  // Adds tasks to the archive and removes them from the task list, in one write
+  archiveTasks(tasks: Task[]): Promise<void>;
+  deleteArchived(ids: string[]): Promise<void>;
+  // The activity log, oldest entry first
+  loadActivity(): Promise<ActivityEvent[]>;
+  // Adds entries to the end of the log; entries never change once written
+  appendActivity(events: ActivityEvent[]): Promise<void>;
+}
+
+type Migration = (record: Record<string, unknown>) => Record<string, unknown>;
+
+/**
+ * `migrations[n]` upgrades a record from version n - 1 to n. Version 0 is
+ * the unversioned localStorage format.
+ */
+const migrations: Record<number, Migration> = {
+  1: (record) => record,
+};
+
+export const migrateRecord = (record: Record<string, unknown>, fromVersion: number): Record<string, unknown> => {
+  let migrated = record;
+  for (let version = fromVersion + 1; version <= SCHEMA_VERSION; version++) {
+    migrated = migrations[version](migrated);
+  }
+  return migrated;
+};
+
+const PRIORITIES = new Set<string>(Object.values(Priority));
+
+/**
+ * Coerces an untrusted stored record into a Task, or returns null when it's
+ * beyond repair (no id or text). Unknown optional fields are kept as-is.
+ */
+export const sanitizeTask = (raw: unknown): Task | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const record = raw as Record<string, unknown>;
+  if (typeof record.id !== 'string' || !record.id || typeof record.text !== 'string') return null;
+
+  return {
+    ...(record as unknown as Task),
+    completed: record.completed === true,
+    priority: PRIORITIES.has(record.priority as string) ? record.priority as Priority : Priority.MEDIUM,
+    createdAt: typeof record.createdAt === 'number' && Number.isFinite(record.createdAt) ? record.createdAt : Date.now(),
+    parentId: typeof record.parentId === 'string' ? record.parentId : undefined,
+  };
+};
+
+// Migrates and sanitizes a batch of stored records, reporting what was dropped
+const restoreRecords = (records: unknown[], fromVersion: number, warnings: string[]): Task[] => {
+  const tasks: Task[] = [];
+  let dropped = 0;
+
+  records.forEach(raw => {
+    try {
+      const migrated = raw && typeof raw === 'object'
+        ? migrateRecord(raw as Record<string, unknown>, fromVersion)
+        : raw;
+      const task = sanitizeTask(migrated);
+      if (task) {
+        tasks.push(task);
+      } else {
+        dropped++;
+      }
+    } catch (err) {
+      console.error("Failed to migrate task record:", err);
+      dropped++;
+    }
+  });
+
+  if (dropped > 0) {
+    warnings.push(`${dropped} unreadable task${dropped === 1 ? ' was' : 's were'} skipped while loading.`);
+  }
+  return tasks.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+// Archive entries are tasks that also say when they were archived
+const restoreArchive = (records: unknown[], fromVersion: number, warnings: string[]): Task[] =>
+  restoreRecords(records, fromVersion, warnings)
+    .filter(t => typeof t.archivedAt === 'number')
+    .sort((a, b) => b.archivedAt! - a.archivedAt!);
+
+// Keeps an unparseable value around so the data isn't lost for good
+const backUpCorruptValue = (key: string, value: string, warnings: string[]) => {
+  const backupKey = `${key}-corrupt-${Date.now()}`;
+  try {
+    localStorage.setItem(backupKey, value);
+    warnings.push(`Saved tasks could not be read. A copy was kept in localStorage under "${backupKey}".`);
+  } catch {
+    warnings.push('Saved tasks could not be read and were discarded.');
+  }
+};
+
+/**
+ * Reads a single-key blob of task records, if present.
+ */
+const readStoredArray = (key: string, restore: typeof restoreRecords, warnings: string[]): Task[] | null => {
+  const saved = localStorage.getItem(key);
+  if (saved === null) return null;
+
+  try {
+    const parsed = JSON.parse(saved);
+    if (!Array.isArray(parsed)) throw new Error("Stored task data is not an array");
+    return restore(parsed, 0, warnings);
+  } catch (err) {
+    console.error(err);
+    backUpCorruptValue(key, saved, warnings);
+    return [];
+  }
+};
+
+// The log kept in localStorage, or nothing when it can't be read
+const readStoredActivity = (): ActivityEvent[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(ACTIVITY_STORAGE_KEY) || '[]');
+    return Array.isArray(saved) ? sanitizeActivity(saved) : [];
+  } catch (err) {
+    console.error(err);
+    return [];
+  }
+};
+
+/**
+ * Reads the legacy single-key blob, if present.
+ */
+const readLegacyTasks = (warnings: string[]): Task[] | null =>
+  readStoredArray(LEGACY_STORAGE_KEY, restoreRecords, warnings);
+
+const requestToPromise = <T,>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(TASKS_STORE)) {
+        db.createObjectStore(TASKS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        db.createObjectStore(META_STORE);
+      }
+      if (!db.objectStoreNames.contains(ARCHIVE_STORE)) {
+        db.createObjectStore(ARCHIVE_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(ACTIVITY_STORE)) {
+        db.createObjectStore(ACTIVITY_STORE, { autoIncrement: true });
+      }
+    };
+    request.onsuccess = () => {
+      // Step aside when a newer version in another tab needs to upgrade
+      request.result.onversionchange = () => request.result.close();
+      resolve(request.result);
+    };
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error("IndexedDB upgrade blocked by another tab"));
+  });
+
+/**
+ * IndexedDB backend: one record per task, so a change only rewrites the
+ * tasks that actually changed. Archived tasks and the activity log live in
+ * stores of their own.
+ */
+export const createIndexedDbStorage = (): TaskStorage => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const getDb = () => (dbPromise ??= openDatabase());
+
+  const writeAll = async (db: IDBDatabase, tasks: Task[], clear: boolean) => {
+    const tx = db.transaction([TASKS_STORE, META_STORE], 'readwrite');
+    const store = tx.objectStore(TASKS_STORE);
+    if (clear) store.clear();
+    tasks.forEach(task => store.put(task));
+    tx.objectStore(META_STORE).put(SCHEMA_VERSION, 'schemaVersion');
+    await transactionDone(tx);
+  };
+
+  // Moves in an archive left in localStorage, brings old records up to date
+  // and drops entries that are back in the task list. Resolves to the ids
+  // still archived.
+  const settleArchive = async (db: IDBDatabase, tasks: Task[], fromVersion: number, warnings: string[]) => {
+    const legacy = readStoredArray(LEGACY_ARCHIVE_KEY, restoreArchive, warnings) ?? [];
+    const liveIds = new Set(tasks.map(t => t.id));
+    const tx = db.transaction(ARCHIVE_STORE, 'readwrite');
+    const store = tx.objectStore(ARCHIVE_STORE);
+
+    if (fromVersion < SCHEMA_VERSION) {
+      const archived = restoreArchive(await requestToPromise(store.getAll()), fromVersion, warnings);
+      store.clear();
+      archived.forEach(task => store.put(task));
+    }
+    legacy.forEach(task => store.put(task));
+    const keys = await requestToPromise(store.getAllKeys());
+    const archivedIds = keys.map(String).filter(id => !liveIds.has(id));
+    keys.forEach(key => liveIds.has(String(key)) && store.delete(key));
+    await transactionDone(tx);
+
+    localStorage.removeItem(LEGACY_ARCHIVE_KEY);
+    return archivedIds;
+  };
+
+  // Adds entries under increasing keys, then drops all but the newest
+  // MAX_ACTIVITY_EVENTS; nothing already stored is read back
+  const addActivity = async (db: IDBDatabase, events: ActivityEvent[]) => {
+    const tx = db.transaction(ACTIVITY_STORE, 'readwrite');
+    const store = tx.objectStore(ACTIVITY_STORE);
+    const keys = events.map(event => store.add(event));
+    const lastKey = await requestToPromise(keys[keys.length - 1]) as number;
+    store.delete(IDBKeyRange.upperBound(lastKey - MAX_ACTIVITY_EVENTS));
+    await transactionDone(tx);
+  };
+
+  // Moves in a log left in localStorage
+  const settleActivity = async (db: IDBDatabase) => {
+    const legacy = readStoredActivity();
+    if (legacy.length > 0) await addActivity(db, legacy);
+    localStorage.removeItem(ACTIVITY_STORAGE_KEY);
+  };
+
+  return {
+    async load() {
+      const warnings: string[] = [];
+      const db = await getDb();
+
+      const tx = db.transaction([TASKS_STORE, META_STORE], 'readonly');
+      const [records, storedVersion] = await Promise.all([
+        requestToPromise(tx.objectStore(TASKS_STORE).getAll()),
+        requestToPromise(tx.objectStore(META_STORE).get('schemaVersion')),
+      ]);
+
+      // First run on IndexedDB: import the old localStorage blob once
+      if (storedVersion === undefined) {
+        const legacy = readLegacyTasks(warnings) ?? [];
+        const archivedIds = await settleArchive(db, legacy, SCHEMA_VERSION, warnings);
+        await settleActivity(db);
+        await writeAll(db, legacy, true);
+        localStorage.removeItem(LEGACY_STORAGE_KEY);
+        return { tasks: legacy, archivedIds, warnings };
+      }
+
+      const fromVersion = typeof storedVersion === 'number' ? storedVersion : 0;
+      if (fromVersion > SCHEMA_VERSION) {
+        warnings.push('Your tasks were saved by a newer version of TaskFlow. Some details may not show correctly.');
+      }
+
+      const tasks = restoreRecords(records, Math.min(fromVersion, SCHEMA_VERSION), warnings);
+      // Before the tasks, whose write records the new schema version
+      const archivedIds = await settleArchive(db, tasks, Math.min(fromVersion, SCHEMA_VERSION), warnings);
+      await settleActivity(db);
+      if (fromVersion < SCHEMA_VERSION || tasks.length !== records.length) {
+        await writeAll(db, tasks, true);
+      }
+      return { tasks, archivedIds, warnings };
+    },
+
+    async applyChanges({ put, remove }) {
+      if (put.length === 0 && remove.length === 0) return;
+      const db = await getDb();
+      const tx = db.transaction(TASKS_STORE, 'readwrite');
+      const store = tx.objectStore(TASKS_STORE);
+      put.forEach(task => store.put(task));
+      remove.forEach(id => store.delete(id));
+      await transactionDone(tx);
+    },
+
+    async loadArchive() {
+      const db = await getDb();
+      const tx = db.transaction(ARCHIVE_STORE, 'readonly');
+      return restoreArchive(await requestToPromise(tx.objectStore(ARCHIVE_STORE).getAll()), SCHEMA_VERSION, []);
+    },
+
+    async archiveTasks(tasks) {
+      if (tasks.length === 0) return;
+      const db = await getDb();
+      const tx = db.transaction([TASKS_STORE, ARCHIVE_STORE], 'readwrite');
+      const live = tx.objectStore(TASKS_STORE);
+      const archive = tx.objectStore(ARCHIVE_STORE);
+      tasks.forEach(task => {
+        archive.put(task);
+        live.delete(task.id);
+      });
+      await transactionDone(tx);
+    },
+
+    async deleteArchived(ids) {
+      if (ids.length === 0) return;
+      const db = await getDb();
+      const tx = db.transaction(ARCHIVE_STORE, 'readwrite');
+      const store = tx.objectStore(ARCHIVE_STORE);
+      ids.forEach(id => store.delete(id));
+      await transactionDone(tx);
+    },
+
+    async loadActivity() {
+      const db = await getDb();
+      const tx = db.transaction(ACTIVITY_STORE, 'readonly');
+      return sanitizeActivity(await requestToPromise(tx.objectStore(ACTIVITY_STORE).getAll()));
+    },
+
+    async appendActivity(events) {
+      if (events.length === 0) return;
+      await addActivity(await getDb(), events);
+    },
+  };
+};
+
+/**
+ * localStorage backend with the same versioned envelope, for browsers where
+ * IndexedDB can't be opened. Tasks and archive share the one key, so every
+ * write is a single `setItem`.
+ */
+export const createLocalStorageStorage = (): TaskStorage => {
+  let tasksById = new Map<string, Task>();
+  let archiveById = new Map<string, Task>();
+  let activity: ActivityEvent[] = [];
+
+  const save = () => {
+    localStorage.setItem(FALLBACK_STORAGE_KEY, JSON.stringify({
+      schemaVersion: SCHEMA_VERSION,
+      tasks: [...tasksById.values()],
+      archive: [...archiveById.values()],
+    }));
+  };
+
+  // Saves a change, or takes it back when it can't be saved (e.g. storage is full)
+  const update = (change: () => void) => {
+    const before = { tasks: new Map(tasksById), archive: new Map(archiveById) };
+    change();
+    try {
+      save();
+    } catch (err) {
+      tasksById = before.tasks;
+      archiveById = before.archive;
+      throw err;
+    }
+  };
+
+  return {
+    async load() {
+      const warnings: string[] = [];
+      const saved = localStorage.getItem(FALLBACK_STORAGE_KEY);
+      let tasks: Task[];
+      let archive: Task[] = [];
+
+      if (saved === null) {
+        tasks = readLegacyTasks(warnings) ?? [];
+      } else {
+        try {
+          const envelope = JSON.parse(saved);
+          if (!envelope || !Array.isArray(envelope.tasks)) throw new Error("Malformed task store");
+          const fromVersion = Number(envelope.schemaVersion) || 0;
+          tasks = restoreRecords(envelope.tasks, fromVersion, warnings);
+          archive = restoreArchive(Array.isArray(envelope.archive) ? envelope.archive : [], fromVersion, warnings);
+        } catch (err) {
+          console.error(err);
+          backUpCorruptValue(FALLBACK_STORAGE_KEY, saved, warnings);
+          tasks = [];
+        }
+      }
+      archive.push(...readStoredArray(LEGACY_ARCHIVE_KEY, restoreArchive, warnings) ?? []);
+
+      tasksById = new Map(tasks.map(t => [t.id, t]));
+      // Entries that are back in the list are dropped, as in IndexedDB
+      archiveById = new Map(archive.filter(t => !tasksById.has(t.id)).map(t => [t.id, t]));
+      activity = readStoredActivity();
+      save();
+      localStorage.removeItem(LEGACY_STORAGE_KEY);
+      localStorage.removeItem(LEGACY_ARCHIVE_KEY);
+      return { tasks, archivedIds: [...archiveById.keys()], warnings };
+    },
+
+    async applyChanges({ put, remove }) {
+      update(() => {
+        put.forEach(task => tasksById.set(task.id, task));
+        remove.forEach(id => tasksById.delete(id));
+      });
+    },
+
+    async loadArchive() {
+      return [...archiveById.values()].sort((a, b) => b.archivedAt! - a.archivedAt!);
+    },
+
+    async archiveTasks(tasks) {
+      update(() => tasks.forEach(task => {
+        archiveById.set(task.id, task);
+        tasksById.delete(task.id);
+      }));
+    },
+
+    async deleteArchived(ids) {
+      update(() => ids.forEach(id => archiveById.delete(id)));
+    },
+
+    async loadActivity() {
+      return activity;
+    },
+
+    async appendActivity(events) {
+      if (events.length === 0) return;
+      let log = [...activity, ...events].slice(-MAX_ACTIVITY_EVENTS);
+      // When storage is full, the older half of the log makes room
+      for (;;) {
+        try {
+          localStorage.setItem(ACTIVITY_STORAGE_KEY, JSON.stringify(log));
+          break;
+        } catch (err) {
+          if (log.length <= events.length) throw err;
+          log = log.slice(Math.ceil(log.length / 2));
+        }
+      }
+      activity = log;
+    },
+  };
+};
+
+/**
+ * Picks IndexedDB when it can be opened, otherwise localStorage.
+ */
+export const openTaskStorage = async (): Promise<TaskStorage> => {
+  if (typeof indexedDB !== 'undefined') {
+    const storage = createIndexedDbStorage();
+    try {
+      const result = await storage.load();
+      return withPreloaded(storage, result);
+    } catch (err) {
+      console.error("IndexedDB unavailable, falling back to localStorage:", err);
+    }
+  }
+  return createLocalStorageStorage();
+};
+
+// Wraps a storage whose first load already ran, so it isn't read twice
+const withPreloaded = (storage: TaskStorage, result: LoadResult): TaskStorage => {
+  let pending: LoadResult | null = result;
+  return {
+    async load() {
+      if (pending) {
+        const loaded = pending;
+        pending = null;
+        return loaded;
+      }
+      return storage.load();
+    },
+    applyChanges: (changes) => storage.applyChanges(changes),
+    loadArchive: () => storage.loadArchive(),
+    archiveTasks: (tasks) => storage.archiveTasks(tasks),
+    deleteArchived: (ids) => storage.deleteArchived(ids),
+    loadActivity: () => storage.loadActivity(),
+    appendActivity: (events) => storage.appendActivity(events),
+  };
+};
+
+/**
+ * Diffs two task lists by reference: tasks whose object changed are written,
+ * tasks that disappeared are removed.
+ */
+export const diffTasks = (previous: Task[], next: Task[]): TaskChanges => {
+  const previousById = new Map(previous.map(t => [t.id, t]));
+  const nextIds = new Set<string>();
+  const put: Task[] = [];
+
+  next.forEach(task => {
+    nextIds.add(task.id);
+    if (previousById.get(task.id) !== task) put.push(task);
+  });
+
+  const remove = previous.filter(t => !nextIds.has(t.id)).map(t => t.id);
+  return { put, remove };
+};
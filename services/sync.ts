@@ -0,0 +1,134 @@
+import { Task } from "../types";
+import { TaskChanges } from "./storage";
+
+const CHANNEL_NAME = 'gemini-taskflow-sync';
+// localStorage key used as a message bus where BroadcastChannel is missing
+const FALLBACK_KEY = 'gemini-taskflow-sync-message';
+
+export interface SyncMessage {
+  source: string;
+  put: Task[];
+  remove: { id: string; version: number }[];
+}
+
+export interface SyncChannel {
+  post(changes: TaskChanges, previous: Task[]): void;
+  close(): void;
+}
+
+// Identifies this tab so it can ignore its own messages
+export const TAB_ID = crypto.randomUUID();
+
+/**
+ * Stamps `updatedAt` and a bumped `version` on every task that changed
+ * between `prev` and `next` (by reference). Versions never go backwards,
+ * even when an undo brings back an older copy of a task.
+ */
+export const stampChanges = (prev: Task[], next: Task[], now: number = Date.now()): Task[] => {
+  const prevById = new Map(prev.map(t => [t.id, t]));
+  let changed = false;
+
+  const stamped = next.map(task => {
+    const before = prevById.get(task.id);
+    if (before === task) return task;
+    changed = true;
+    return {
+      ...task,
+      updatedAt: now,
+      version: Math.max(task.version ?? 0, before?.version ?? 0) + 1,
+    };
+  });
+
+  return changed ? stamped : next;
+};
+
+// True when `incoming` should replace `local`
+const isNewer = (incoming: Task, local: Task): boolean => {
+  const incomingVersion = incoming.version ?? 0;
+  const localVersion = local.version ?? 0;
+  if (incomingVersion !== localVersion) return incomingVersion > localVersion;
+  return (incoming.updatedAt ?? 0) > (local.updatedAt ?? 0);
+};
+
+/**
+ * Merges another tab's changes into the local list, task by task: a remote
+ * copy only wins if it's newer, and a remote delete only applies if the local
+ * copy hasn't been edited since the version that was deleted. Returns the
+ * same array when nothing changed.
+ */
+export const mergeRemoteChanges = (local: Task[], message: SyncMessage): Task[] => {
+  const localById = new Map(local.map(t => [t.id, t]));
+  const replacements = new Map<string, Task>();
+  const removals = new Set<string>();
+
+  message.put.forEach(incoming => {
+    const existing = localById.get(incoming.id);
+    if (!existing || isNewer(incoming, existing)) {
+      replacements.set(incoming.id, incoming);
+    }
+  });
+
+  message.remove.forEach(({ id, version }) => {
+    const existing = localById.get(id);
+    if (existing && (existing.version ?? 0) <= version) {
+      removals.add(id);
+    }
+  });
+
+  if (replacements.size === 0 && removals.size === 0) return local;
+
+  const merged = local
+    .filter(t => !removals.has(t.id))
+    .map(t => replacements.get(t.id) ?? t);
+  const added = [...replacements.values()].filter(t => !localById.has(t.id));
+  return [...added, ...merged];
+};
+
+/**
+ * Opens the cross-tab channel: BroadcastChannel where available, otherwise
+ * `storage` events on a scratch localStorage key.
+ */
+export const openSyncChannel = (onMessage: (message: SyncMessage) => void): SyncChannel => {
+  const handle = (data: unknown) => {
+    const message = data as SyncMessage;
+    if (!message || message.source === TAB_ID || !Array.isArray(message.put) || !Array.isArray(message.remove)) return;
+    onMessage(message);
+  };
+
+  const toMessage = ({ put, remove }: TaskChanges, previous: Task[]): SyncMessage => {
+    const previousById = new Map(previous.map(t => [t.id, t]));
+    return {
+      source: TAB_ID,
+      put,
+      remove: remove.map(id => ({ id, version: previousById.get(id)?.version ?? 0 })),
+    };
+  };
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (e) => handle(e.data);
+    return {
+      post: (changes, previous) => channel.postMessage(toMessage(changes, previous)),
+      close: () => channel.close(),
+    };
+  }
+
+  const onStorage = (e: StorageEvent) => {
+    if (e.key !== FALLBACK_KEY || !e.newValue) return;
+    try {
+      handle(JSON.parse(e.newValue));
+    } catch (err) {
+      console.error("Ignoring malformed sync message:", err);
+    }
+  };
+  window.addEventListener('storage', onStorage);
+
+  return {
+    post: (changes, previous) => {
+      // Setting then clearing the key still fires `storage` in other tabs
+      localStorage.setItem(FALLBACK_KEY, JSON.stringify(toMessage(changes, previous)));
+      localStorage.removeItem(FALLBACK_KEY);
+    },
+    close: () => window.removeEventListener('storage', onStorage),
+  };
+};
@@ -0,0 +1,60 @@
+import { Task, FilterType, TaskFilter, TaskStatus } from "../types";
+import { isDueToday, isOverdue, isUpcoming } from "./dateUtils";
+import { findActionableIds } from "./dependencies";
+
+export const DEFAULT_FILTER: TaskFilter = {
+  status: FilterType.ALL,
+  projectId: null,
+  tags: [],
+};
+
+export const matchesStatus = (task: Task, status: FilterType, now: number = Date.now()): boolean => {
+  switch (status) {
+    case FilterType.ACTIVE: return !task.completed;
+    case FilterType.COMPLETED: return task.completed;
+    // Open blockers are checked by applyFilter, which sees every task
+    case FilterType.NEXT: return !task.completed && task.status !== TaskStatus.BLOCKED;
+    case FilterType.TODAY: return isDueToday(task, now);
+    case FilterType.UPCOMING: return isUpcoming(task, now);
+    case FilterType.OVERDUE: return isOverdue(task, now);
+    default: return true;
+  }
+};
+
+/**
+ * Project and tag part of the filter, without the status view. Used for
+ * counts that should follow the selected project/tags regardless of view.
+ */
+export const matchesScope = (task: Task, filter: TaskFilter): boolean => {
+  if (filter.projectId !== null && task.projectId !== filter.projectId) return false;
+  if (filter.tags.length > 0) {
+    const tags = task.tags || [];
+    if (!filter.tags.every(tag => tags.includes(tag))) return false;
+  }
+  return true;
+};
+
+export const applyFilter = (tasks: Task[], filter: TaskFilter, now: number = Date.now()): Task[] => {
+  const actionable = filter.status === FilterType.NEXT ? findActionableIds(tasks) : null;
+  return tasks.filter(t =>
+    matchesScope(t, filter) && matchesStatus(t, filter.status, now) && (!actionable || actionable.has(t.id))
+  );
+};
+
+/**
+ * Every tag in use, with how many open tasks carry it, most used first.
+ */
+export const collectTags = (tasks: Task[]): { tag: string; count: number }[] => {
+  const counts = new Map<string, number>();
+  tasks.forEach(task => {
+    task.tags?.forEach(tag => {
+      counts.set(tag, (counts.get(tag) || 0) + (task.completed ? 0 : 1));
+    });
+  });
+  return [...counts.entries()]
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+};
+
+export const normalizeTag = (tag: string): string =>
+  tag.trim().replace(/^#/, '').toLowerCase().replace(/\s+/g, '-');
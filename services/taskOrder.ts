@@ -0,0 +1,117 @@
+import { Task, Priority, SortMode } from "../types";
+import { buildTaskTree, getAncestors, getSubtreeIds } from "./taskTree";
+import { isOverdue } from "./dateUtils";
+
+const SORT_MODE_KEY = 'gemini-todo-sort-mode';
+
+export const SORT_MODE_LABELS: Record<SortMode, string> = {
+  [SortMode.MANUAL]: 'Manual',
+  [SortMode.PRIORITY]: 'Priority',
+  [SortMode.DUE]: 'Due date',
+  [SortMode.CREATED]: 'Created',
+};
+
+export const loadSortMode = (): SortMode => {
+  const saved = localStorage.getItem(SORT_MODE_KEY);
+  return Object.values(SortMode).includes(saved as SortMode) ? saved as SortMode : SortMode.PRIORITY;
+};
+
+export const saveSortMode = (mode: SortMode) => {
+  localStorage.setItem(SORT_MODE_KEY, mode);
+};
+
+// Priority weights for sorting: High > Medium > Low
+const priorityWeight = {
+  [Priority.HIGH]: 3,
+  [Priority.MEDIUM]: 2,
+  [Priority.LOW]: 1,
+};
+
+// Soonest first, undated last
+const byDueDate = (a: Task, b: Task) => {
+  const diff = (a.dueAt ?? Infinity) - (b.dueAt ?? Infinity);
+  return Number.isNaN(diff) ? 0 : diff;
+};
+
+const newestFirst = (a: Task, b: Task) => b.createdAt - a.createdAt;
+
+// Tasks never placed by hand come first, newest first, so new tasks show at the top
+const byManualOrder = (a: Task, b: Task) => {
+  if (a.order === undefined || b.order === undefined) {
+    return Number(a.order !== undefined) - Number(b.order !== undefined) || newestFirst(a, b);
+  }
+  return a.order - b.order || newestFirst(a, b);
+};
+
+/**
+ * Sorts one level of siblings. The priority sort puts overdue work first,
+ * then priority, due date and newest.
+ */
+export const sortTasks = (tasks: Task[], mode: SortMode, now: number = Date.now()): Task[] => {
+  const compare = (a: Task, b: Task): number => {
+    switch (mode) {
+      case SortMode.MANUAL:
+        return byManualOrder(a, b);
+      case SortMode.DUE:
+        return byDueDate(a, b) || priorityWeight[b.priority] - priorityWeight[a.priority] || newestFirst(a, b);
+      case SortMode.CREATED:
+        return newestFirst(a, b);
+      default:
+        return Number(isOverdue(b, now)) - Number(isOverdue(a, now)) ||
+          priorityWeight[b.priority] - priorityWeight[a.priority] ||
+          byDueDate(a, b) ||
+          newestFirst(a, b);
+    }
+  };
+  return [...tasks].sort(compare);
+};
+
+/**
+ * Numbers every level of the tree in the order `mode` shows it, so that
+ * switching to manual order keeps what the user was looking at.
+ */
+export const seedManualOrder = (tasks: Task[], mode: SortMode, now: number = Date.now()): Task[] => {
+  const { roots, childrenMap } = buildTaskTree(tasks);
+  const orders = new Map<string, number>();
+  [roots, ...childrenMap.values()].forEach(siblings =>
+    sortTasks(siblings, mode, now).forEach((task, i) => orders.set(task.id, i))
+  );
+  return tasks.map(t => (t.order === orders.get(t.id) ? t : { ...t, order: orders.get(t.id) }));
+};
+
+/**
+ * Moves `id` (with its subtree) under `parentId`, or to the top level when
+ * it is undefined, just before `beforeId` in manual order, or last when
+ * `beforeId` is missing. Its new siblings are renumbered. Moves into the
+ * task's own subtree are ignored. A moved subtree joins its new root's
+ * project.
+ */
+export const moveTask = (tasks: Task[], id: string, parentId: string | undefined, beforeId?: string): Task[] => {
+  const task = tasks.find(t => t.id === id);
+  if (!task || id === beforeId) return tasks;
+  if (parentId !== undefined && (parentId === id || getAncestors(tasks, parentId).some(a => a.id === id))) return tasks;
+  if (parentId !== undefined && !tasks.some(t => t.id === parentId)) return tasks;
+
+  const ids = new Set(tasks.map(t => t.id));
+  const isSibling = (t: Task) => parentId === undefined ? !t.parentId || !ids.has(t.parentId) : t.parentId === parentId;
+  const siblings = sortTasks(tasks.filter(t => t.id !== id && isSibling(t)), SortMode.MANUAL);
+  const index = beforeId ? siblings.findIndex(t => t.id === beforeId) : -1;
+  siblings.splice(index === -1 ? siblings.length : index, 0, task);
+  const orders = new Map(siblings.map((t, i) => [t.id, i]));
+
+  const root = parentId === undefined ? undefined : getAncestors(tasks, parentId)[0] ?? tasks.find(t => t.id === parentId);
+  const projectId = root ? root.projectId : task.projectId;
+  const subtree = getSubtreeIds(tasks, id);
+
+  return tasks.map(t => {
+    if (t.id === id) {
+      return { ...t, parentId, projectId, order: orders.get(id) };
+    }
+    let next = t;
+    if (orders.has(t.id) && t.order !== orders.get(t.id)) next = { ...next, order: orders.get(t.id) };
+    if (subtree.has(t.id) && t.projectId !== projectId) next = { ...next, projectId };
+    // The new parent opens so the moved task stays in view
+    if (t.id === parentId && !(t.isExpanded ?? true)) next = { ...next, isExpanded: true };
+    return next;
+  });
+};
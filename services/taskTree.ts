@@ -0,0 +1,153 @@
+import { Task } from "../types";
+
+export interface SubtreeProgress {
+  completed: number;
+  total: number;
+  // Summed over the descendants; running timers count once stopped
+  estimateMinutes: number;
+  trackedMs: number;
+}
+
+/**
+ * Groups tasks by their parent id. A task whose parent is missing from the
+ * given list (deleted, or hidden by a filter) is treated as a root.
+ */
+export const buildTaskTree = (tasks: Task[]) => {
+  const roots: Task[] = [];
+  const childrenMap = new Map<string, Task[]>();
+  const taskIds = new Set(tasks.map(t => t.id));
+
+  tasks.forEach(task => {
+    if (!task.parentId || !taskIds.has(task.parentId)) {
+      roots.push(task);
+      return;
+    }
+    if (!childrenMap.has(task.parentId)) {
+      childrenMap.set(task.parentId, []);
+    }
+    childrenMap.get(task.parentId)!.push(task);
+  });
+
+  return { roots, childrenMap };
+};
+
+/**
+ * Returns the ids of every task below `id`, at any depth.
+ */
+export const getDescendantIds = (tasks: Task[], id: string): Set<string> => {
+  const { childrenMap } = buildTaskTree(tasks);
+  const descendants = new Set<string>();
+  const stack = [id];
+
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    (childrenMap.get(current) || []).forEach(child => {
+      // Guard against malformed data with parent cycles
+      if (descendants.has(child.id) || child.id === id) return;
+      descendants.add(child.id);
+      stack.push(child.id);
+    });
+  }
+
+  return descendants;
+};
+
+/**
+ * Returns the ids of `id` and its whole subtree.
+ */
+export const getSubtreeIds = (tasks: Task[], id: string): Set<string> => {
+  const ids = getDescendantIds(tasks, id);
+  ids.add(id);
+  return ids;
+};
+
+/**
+ * Returns the chain of ancestors of `id`, ordered from the root down to the
+ * direct parent.
+ */
+export const getAncestors = (tasks: Task[], id: string): Task[] => {
+  const byId = new Map(tasks.map(t => [t.id, t]));
+  const ancestors: Task[] = [];
+  const seen = new Set<string>([id]);
+  let parentId = byId.get(id)?.parentId;
+
+  while (parentId && byId.has(parentId) && !seen.has(parentId)) {
+    const parent = byId.get(parentId)!;
+    ancestors.unshift(parent);
+    seen.add(parentId);
+    parentId = parent.parentId;
+  }
+
+  return ancestors;
+};
+
+/**
+ * Counts completed vs. total descendants for every task that has children,
+ * so a parent's progress reflects its entire subtree rather than only its
+ * direct children. Estimates and tracked time roll up the same way.
+ */
+export const computeSubtreeProgress = (childrenMap: Map<string, Task[]>): Map<string, SubtreeProgress> => {
+  const progress = new Map<string, SubtreeProgress>();
+  const visiting = new Set<string>();
+
+  const visit = (id: string): SubtreeProgress => {
+    const cached = progress.get(id);
+    if (cached) return cached;
+
+    const result = { completed: 0, total: 0, estimateMinutes: 0, trackedMs: 0 };
+    if (visiting.has(id)) return result;
+    visiting.add(id);
+
+    (childrenMap.get(id) || []).forEach(child => {
+      const childProgress = visit(child.id);
+      result.total += 1 + childProgress.total;
+      result.completed += (child.completed ? 1 : 0) + childProgress.completed;
+      result.estimateMinutes += (child.estimateMinutes ?? 0) + childProgress.estimateMinutes;
+      result.trackedMs += (child.trackedMs ?? 0) + childProgress.trackedMs;
+    });
+
+    visiting.delete(id);
+    progress.set(id, result);
+    return result;
+  };
+
+  childrenMap.forEach((_, id) => visit(id));
+  return progress;
+};
+
+/**
+ * Copies every descendant of `fromId` under `toId` with fresh ids, keeping
+ * the shape of the subtree. Copies start out incomplete, with no tracked time.
+ */
+export const cloneDescendants = (tasks: Task[], fromId: string, toId: string, createdAt: number = Date.now()): Task[] => {
+  const { childrenMap } = buildTaskTree(tasks);
+  const clones: Task[] = [];
+  const cloneIds = new Map<string, string>();
+
+  const copyChildren = (sourceParentId: string, targetParentId: string, seen: Set<string>) => {
+    (childrenMap.get(sourceParentId) || []).forEach(child => {
+      if (seen.has(child.id)) return;
+      seen.add(child.id);
+      const clone: Task = {
+        ...child,
+        id: crypto.randomUUID(),
+        parentId: targetParentId,
+        completed: false,
+        completedAt: undefined,
+        status: undefined,
+        createdAt,
+        trackedMs: undefined,
+        timerStartedAt: undefined,
+      };
+      clones.push(clone);
+      cloneIds.set(child.id, clone.id);
+      copyChildren(child.id, clone.id, seen);
+    });
+  };
+
+  copyChildren(fromId, toId, new Set([fromId]));
+  // Subtasks waiting on each other keep doing so within the copy
+  return clones.map(clone => (clone.blockedBy?.some(id => cloneIds.has(id))
+    ? { ...clone, blockedBy: clone.blockedBy.map(id => cloneIds.get(id) ?? id) }
+    : clone));
+};
@@ -0,0 +1,84 @@
+// Service worker for the installed app. Built by the service worker plugin in
+// vite.config.ts, which fills in the placeholders below, so every release
+// gets a new cache and old ones are cleared out.
+
+const VERSION = '__BUILD_VERSION__';
+// The hashed scripts and styles Vite produced for this release
+const BUILD_FILES = __BUILD_FILES__;
+
+const SHELL_CACHE = `taskflow-shell-${VERSION}`;
+const RUNTIME_CACHE = 'taskflow-runtime';
+const SHELL = ['/', '/index.html', '/manifest.webmanifest', '/favicon.png', ...BUILD_FILES];
+
+// Third-party files the page needs to render: Tailwind and the Inter font.
+// Cached best-effort; the app still works without them, just unstyled.
+const RUNTIME_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com'];
+const RUNTIME_URLS = [
+  'https://cdn.tailwindcss.com',
+  'https://fonts.googleapis.com/css2?family=Inter:wght@300;400;500;600;700&display=swap',
+];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    const shell = await caches.open(SHELL_CACHE);
+    await shell.addAll(SHELL);
+    const runtime = await caches.open(RUNTIME_CACHE);
+    await Promise.allSettled(RUNTIME_URLS.map(url => runtime.add(new Request(url, { mode: 'no-cors' }))));
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names
+      .filter(name => name !== SHELL_CACHE && name !== RUNTIME_CACHE)
+      .map(name => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+// Pages: the network when it answers, so a new release shows up right
+// away, otherwise the cached shell
+const handleNavigation = async (request) => {
+  try {
+    return await fetch(request);
+  } catch {
+    return (await caches.match('/index.html', { cacheName: SHELL_CACHE })) ?? Response.error();
+  }
+};
+
+// Build files never change under the same name, so the cache always wins
+const handleShellFile = async (request) =>
+  (await caches.match(request, { cacheName: SHELL_CACHE })) ?? fetch(request);
+
+// Third-party files: serve what's cached and refresh it in the background
+const handleRuntimeFile = async (event) => {
+  const cache = await caches.open(RUNTIME_CACHE);
+  const cached = await cache.match(event.request);
+  const refresh = fetch(event.request)
+    .then(response => {
+      if (response.ok || response.type === 'opaque') cache.put(event.request, response.clone());
+      return response;
+    });
+  if (cached) {
+    event.waitUntil(refresh.catch(() => undefined));
+    return cached;
+  }
+  return refresh;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request));
+  } else if (url.origin === self.location.origin) {
+    event.respondWith(handleShellFile(request));
+  } else if (RUNTIME_HOSTS.includes(url.hostname)) {
+    event.respondWith(handleRuntimeFile(event));
+  }
+  // Everything else, AI requests included, goes straight to the network
+});
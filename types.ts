@@ -4,24 +4,144 @@ export enum Priority {
   HIGH = 'high'
 }
 
+export enum RecurrenceFrequency {
+  DAILY = 'daily',
+  WEEKLY = 'weekly',
+  MONTHLY = 'monthly',
+  YEARLY = 'yearly'
+}
+
+export interface Recurrence {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  byWeekday?: number[];
+  until?: number;
+  count?: number;
+}
+
+// Where a task is on the board; `completed` stays true exactly when it's done
+export enum TaskStatus {
+  TODO = 'todo',
+  IN_PROGRESS = 'in-progress',
+  BLOCKED = 'blocked',
+  DONE = 'done'
+}
+
 export interface Task {
   id: string;
   text: string;
   completed: boolean;
+  // When it was last completed; unset while open
+  completedAt?: number;
+  status?: TaskStatus;
   priority: Priority;
   createdAt: number;
   isAiGenerated?: boolean;
   parentId?: string;
   isExpanded?: boolean;
+  dueAt?: number;
+  remindAt?: number;
+  recurrence?: Recurrence;
+  occurrence?: number;
+  completionHistory?: number[];
+  tags?: string[];
+  projectId?: string;
+  // Tasks that have to be done before this one can start
+  blockedBy?: string[];
+  // Position among its siblings when sorting manually; unordered tasks come first
+  order?: number;
+  // Set only on tasks kept in the archive, out of the main list
+  archivedAt?: number;
+  // Effort: the planned minutes, time tracked so far, and when the running
+  // timer (if any) was started
+  estimateMinutes?: number;
+  isEstimateAiGenerated?: boolean;
+  trackedMs?: number;
+  timerStartedAt?: number;
+  updatedAt?: number;
+  version?: number;
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  color: string;
+  createdAt: number;
+}
+
+export enum ViewMode {
+  LIST = 'list',
+  BOARD = 'board'
+}
+
+// What a keyboard shortcut in the task list does
+export enum ShortcutAction {
+  NEXT = 'next',
+  PREVIOUS = 'previous',
+  TOGGLE = 'toggle',
+  EDIT = 'edit',
+  INDENT = 'indent',
+  OUTDENT = 'outdent',
+  PRIORITY_HIGH = 'priority-high',
+  PRIORITY_MEDIUM = 'priority-medium',
+  PRIORITY_LOW = 'priority-low',
+  BREAKDOWN = 'breakdown',
+  ADD_SUBTASK = 'add-subtask',
+  EXPAND = 'expand',
+  HELP = 'help'
+}
+
+// The key bound to each action, as produced by `shortcutFromEvent`
+export type ShortcutMap = Record<ShortcutAction, string>;
+
+export enum SortMode {
+  MANUAL = 'manual',
+  PRIORITY = 'priority',
+  DUE = 'due',
+  CREATED = 'created'
 }
 
 export enum FilterType {
   ALL = 'ALL',
   ACTIVE = 'ACTIVE',
-  COMPLETED = 'COMPLETED'
+  COMPLETED = 'COMPLETED',
+  NEXT = 'NEXT',
+  TODAY = 'TODAY',
+  UPCOMING = 'UPCOMING',
+  OVERDUE = 'OVERDUE'
+}
+
+// Filters compose: a task is shown when it matches the status view, belongs
+// to the selected project (if any) and carries every selected tag.
+export interface TaskFilter {
+  status: FilterType;
+  projectId: string | null;
+  tags: string[];
 }
 
 export interface AiSuggestion {
   text: string;
   priority: Priority;
-}
\ No newline at end of file
+}
+export enum ActivityType {
+  CREATED = 'created',
+  COMPLETED = 'completed',
+  REOPENED = 'reopened',
+  DELETED = 'deleted',
+  BROKEN_DOWN = 'broken-down',
+  ARCHIVED = 'archived',
+  RESTORED = 'restored'
+}
+
+// One entry of the activity log, with enough of the task copied in to make
+// sense after the task itself is gone
+export interface ActivityEvent {
+  type: ActivityType;
+  at: number;
+  taskId: string;
+  text: string;
+  priority: Priority;
+  isAiGenerated?: boolean;
+  // Subtasks added, for breakdowns
+  count?: number;
+}
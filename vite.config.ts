@@ -1,7 +1,26 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import fs from 'fs';
+import crypto from 'crypto';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+/**
+ * Emits the service worker with this build's files filled in, so it can
+ * precache the app shell and replace the previous release's cache.
+ */
+const serviceWorker = (): Plugin => ({
+  name: 'taskflow-service-worker',
+  apply: 'build',
+  generateBundle(_, bundle) {
+    const files = Object.keys(bundle).map(file => `/${file}`).sort();
+    const version = crypto.createHash('sha256').update(files.join('\n')).digest('hex').slice(0, 12);
+    const source = fs.readFileSync(path.resolve(__dirname, 'sw.js'), 'utf-8')
+      .replace('__BUILD_VERSION__', version)
+      .replace('__BUILD_FILES__', JSON.stringify(files));
+    this.emitFile({ type: 'asset', fileName: 'sw.js', source });
+  },
+});
+
 export default defineConfig(({ mode }) => {
   const env = loadEnv(mode, '.', '');
   return {
@@ -9,7 +28,7 @@ export default defineConfig(({ mode }) => {
       port: 3000,
       host: '0.0.0.0',
     },
-    plugins: [react()],
+    plugins: [react(), serviceWorker()],
     resolve: {
       alias: {
         '@': path.resolve(__dirname, '.'),